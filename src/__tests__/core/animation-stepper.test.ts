@@ -0,0 +1,174 @@
+/**
+ * Tests for deterministic animation stepping
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  getSteppableAnimations,
+  stepAnimations,
+} from '../../core/animation-stepper';
+
+interface FakeAnimation {
+  playState: string;
+  startTime: number | null;
+  currentTime: number | null;
+  effect: {
+    target: Element;
+    getComputedTiming: () => { endTime: number };
+  };
+  pause: ReturnType<typeof vi.fn>;
+  finish: ReturnType<typeof vi.fn>;
+}
+
+describe('animation-stepper', () => {
+  let root: HTMLElement;
+  let panel: HTMLElement;
+  let animations: FakeAnimation[];
+
+  const createAnimation = (
+    startTime: number | null,
+    endTime: number,
+    target: Element = panel
+  ): FakeAnimation => {
+    const animation: FakeAnimation = {
+      playState: 'running',
+      startTime,
+      currentTime: 0,
+      effect: { target, getComputedTiming: () => ({ endTime }) },
+      pause: vi.fn(() => {
+        animation.playState = 'paused';
+      }),
+      finish: vi.fn(() => {
+        animation.playState = 'finished';
+      }),
+    };
+    animations.push(animation);
+    return animation;
+  };
+
+  beforeEach(() => {
+    root = document.createElement('div');
+    panel = document.createElement('div');
+    root.appendChild(panel);
+    document.body.appendChild(root);
+
+    animations = [];
+    Object.defineProperty(document, 'getAnimations', {
+      configurable: true,
+      value: () => animations,
+    });
+    vi.spyOn(performance, 'now').mockReturnValue(1000);
+  });
+
+  afterEach(() => {
+    delete (document as { getAnimations?: unknown }).getAnimations;
+    document.body.innerHTML = '';
+    vi.restoreAllMocks();
+  });
+
+  describe('getSteppableAnimations', () => {
+    it('should only include finite animations the click started', () => {
+      const clicked = createAnimation(600, 300);
+      const pending = createAnimation(null, 300);
+      createAnimation(100, 300); // Started before the click
+      createAnimation(600, Infinity); // Spinner
+
+      expect(getSteppableAnimations(root, 500)).toEqual([clicked, pending]);
+    });
+
+    it('should skip animations outside the root or in excluded elements', () => {
+      const outside = document.createElement('div');
+      document.body.appendChild(outside);
+      const recorder = document.createElement('div');
+      recorder.setAttribute('data-screenshot-exclude', 'true');
+      root.appendChild(recorder);
+      createAnimation(600, 300, outside);
+      createAnimation(600, 300, recorder);
+
+      expect(getSteppableAnimations(root, 500)).toHaveLength(0);
+    });
+  });
+
+  describe('stepAnimations', () => {
+    it('should step animations at fixed intervals', async () => {
+      const animation = createAnimation(600, 250);
+      const seen: Array<number | null> = [];
+
+      const result = await stepAnimations(
+        root,
+        { since: 500, interval: 100, maxDuration: 4000 },
+        async () => {
+          seen.push(animation.currentTime);
+        }
+      );
+
+      expect(result).toEqual({
+        animations: 1,
+        steps: [100, 200, 250],
+        duration: 250,
+      });
+      expect(seen).toEqual([100, 200, 250]);
+      expect(animation.pause).toHaveBeenCalled();
+      expect(animation.finish).toHaveBeenCalled();
+    });
+
+    it('should keep animations aligned on one timeline', async () => {
+      const first = createAnimation(600, 200);
+      const second = createAnimation(700, 200);
+      const seen: Array<Array<number | null>> = [];
+
+      const result = await stepAnimations(
+        root,
+        { since: 500, interval: 100, maxDuration: 4000 },
+        async () => {
+          seen.push([first.currentTime, second.currentTime]);
+        }
+      );
+
+      expect(result.duration).toBe(300);
+      expect(seen).toEqual([
+        [100, 0],
+        [200, 100],
+        [300, 200],
+      ]);
+    });
+
+    it('should stop at the maximum duration', async () => {
+      createAnimation(600, 10000);
+
+      const result = await stepAnimations(
+        root,
+        { since: 500, interval: 100, maxDuration: 300 },
+        async () => {}
+      );
+
+      expect(result.steps).toEqual([100, 200, 300]);
+    });
+
+    it('should finish animations when a step fails', async () => {
+      const animation = createAnimation(600, 300);
+
+      await expect(
+        stepAnimations(
+          root,
+          { since: 500, interval: 100, maxDuration: 4000 },
+          () => Promise.reject(new Error('capture failed'))
+        )
+      ).rejects.toThrow('capture failed');
+      expect(animation.finish).toHaveBeenCalled();
+    });
+
+    it('should do nothing without animations', async () => {
+      const onStep = vi.fn();
+
+      const result = await stepAnimations(
+        root,
+        { since: 500, interval: 100, maxDuration: 4000 },
+        onStep
+      );
+
+      expect(result).toEqual({ animations: 0, steps: [], duration: 0 });
+      expect(onStep).not.toHaveBeenCalled();
+    });
+  });
+});
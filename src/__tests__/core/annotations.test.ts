@@ -0,0 +1,185 @@
+/**
+ * Tests for frame annotations
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createAnnotation,
+  isDrawableAnnotation,
+  getAnnotationBox,
+  getArrowHead,
+  getCalloutLayout,
+  drawAnnotations,
+} from '../../core/annotations';
+
+const style = { color: '#ff0000', strokeWidth: 4 };
+
+/**
+ * Canvas context stand-in that records the drawing calls
+ */
+function createFakeContext() {
+  const calls: Array<[string, ...unknown[]]> = [];
+  const record =
+    (name: string) =>
+    (...args: unknown[]) => {
+      calls.push([name, ...args]);
+    };
+  const ctx = {
+    save: record('save'),
+    restore: record('restore'),
+    beginPath: record('beginPath'),
+    closePath: record('closePath'),
+    moveTo: record('moveTo'),
+    lineTo: record('lineTo'),
+    stroke: record('stroke'),
+    fill: record('fill'),
+    strokeRect: record('strokeRect'),
+    fillRect: record('fillRect'),
+    fillText: record('fillText'),
+    ellipse: record('ellipse'),
+  } as unknown as CanvasRenderingContext2D;
+  return { ctx, calls, names: () => calls.map(([name]) => name) };
+}
+
+describe('annotations', () => {
+  describe('createAnnotation', () => {
+    it('should give each annotation its own ID', () => {
+      const points = [
+        { x: 0, y: 0 },
+        { x: 50, y: 50 },
+      ];
+      const first = createAnnotation('arrow', points, style);
+      const second = createAnnotation('arrow', points, style);
+
+      expect(first.id).not.toBe(second.id);
+      expect(first).toMatchObject({ type: 'arrow', points, ...style });
+    });
+
+    it('should only keep text for callouts', () => {
+      const points = [{ x: 10, y: 10 }];
+
+      expect(
+        createAnnotation('text', points, { ...style, text: 'Disabled' }).text
+      ).toBe('Disabled');
+      expect(
+        createAnnotation('rectangle', points, { ...style, text: 'Disabled' })
+      ).not.toHaveProperty('text');
+    });
+  });
+
+  describe('isDrawableAnnotation', () => {
+    it('should skip shapes too small to see', () => {
+      const tiny = createAnnotation(
+        'rectangle',
+        [
+          { x: 10, y: 10 },
+          { x: 12, y: 12 },
+        ],
+        style
+      );
+
+      expect(isDrawableAnnotation(tiny)).toBe(false);
+    });
+
+    it('should skip callouts without text and paths without a stroke', () => {
+      const point = [{ x: 10, y: 10 }];
+
+      expect(
+        isDrawableAnnotation(
+          createAnnotation('text', point, { ...style, text: ' ' })
+        )
+      ).toBe(false);
+      expect(
+        isDrawableAnnotation(createAnnotation('freehand', point, style))
+      ).toBe(false);
+    });
+  });
+
+  describe('geometry', () => {
+    it('should span a box between any two opposite corners', () => {
+      expect(getAnnotationBox({ x: 50, y: 10 }, { x: 10, y: 40 })).toEqual({
+        x: 10,
+        y: 10,
+        width: 40,
+        height: 30,
+      });
+    });
+
+    it('should put the arrowhead behind the tip on both sides', () => {
+      const [left, right] = getArrowHead(
+        { x: 0, y: 100 },
+        { x: 100, y: 100 },
+        4
+      );
+
+      expect(left.x).toBeLessThan(100);
+      expect(right.x).toBeCloseTo(left.x);
+      expect(left.y - 100).toBeCloseTo(100 - right.y);
+    });
+
+    it('should center callout labels on their first point', () => {
+      const layout = getCalloutLayout(
+        createAnnotation(
+          'text',
+          [
+            { x: 200, y: 100 },
+            { x: 50, y: 50 },
+          ],
+          { ...style, text: 'Note\nthe disabled state' }
+        )
+      );
+
+      expect(layout.lines).toEqual(['Note', 'the disabled state']);
+      expect(layout.box.x + layout.box.width / 2).toBe(200);
+      expect(layout.box.y + layout.box.height / 2).toBe(100);
+      expect(layout.target).toEqual({ x: 50, y: 50 });
+    });
+  });
+
+  describe('drawAnnotations', () => {
+    it('should draw shapes in image pixels', () => {
+      const { ctx, calls } = createFakeContext();
+
+      drawAnnotations(ctx, [
+        createAnnotation(
+          'rectangle',
+          [
+            { x: 80, y: 60 },
+            { x: 20, y: 10 },
+          ],
+          style
+        ),
+      ]);
+
+      expect(calls).toContainEqual(['strokeRect', 20, 10, 60, 50]);
+      expect(ctx.strokeStyle).toBe('#ff0000');
+      expect(ctx.lineWidth).toBe(4);
+    });
+
+    it('should draw a callout label with one text line per line', () => {
+      const { ctx, names } = createFakeContext();
+
+      drawAnnotations(ctx, [
+        createAnnotation('text', [{ x: 100, y: 100 }], {
+          ...style,
+          text: 'Two\nlines',
+        }),
+      ]);
+
+      expect(names().filter((name) => name === 'fillRect')).toHaveLength(1);
+      expect(names().filter((name) => name === 'fillText')).toHaveLength(2);
+      // No second point, so no leader line
+      expect(names()).not.toContain('stroke');
+    });
+
+    it('should skip annotations with nothing to draw', () => {
+      const { ctx, calls } = createFakeContext();
+
+      drawAnnotations(ctx, [
+        createAnnotation('text', [{ x: 100, y: 100 }], style),
+      ]);
+
+      expect(calls).toHaveLength(0);
+    });
+  });
+});
@@ -3,12 +3,25 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { captureFrame, captureManualFrame, compareImages } from '../../core/capture';
+import {
+  captureFrame,
+  captureManualFrame,
+  captureKeystrokeFrame,
+  captureScrollFrame,
+  getScrollInfo,
+  captureDragFrame,
+  captureNavigationFrame,
+  compareImages,
+  getIgnoreRegions,
+  getPixelChangeRatio,
+  measureImageChange,
+} from '../../core/capture';
+import { createMemoryRasterizer } from '../../core/rasterizer';
 import type { CaptureOptions } from '../../types';
+import * as htmlToImage from 'html-to-image';
 
 // Mock html-to-image
 vi.mock('html-to-image', () => ({
-  toPng: vi.fn(() => Promise.resolve('data:image/png;base64,mockdata')),
   toBlob: vi.fn(() => Promise.resolve(new Blob(['mock'], { type: 'image/png' }))),
 }));
 
@@ -73,12 +86,44 @@ describe('capture', () => {
       expect(frame.metadata.viewportCoords).toEqual({ x: 100, y: 200 });
     });
 
+    it('should record the page address and title', async () => {
+      document.title = 'Checkout';
+      const frame = await captureFrame(root, mockEvent, options, 'reel-123', 0);
+
+      expect(frame.metadata.url).toBe(window.location.href);
+      expect(frame.metadata.pageTitle).toBe('Checkout');
+    });
+
     it('should include element path in metadata', async () => {
       const frame = await captureFrame(root, mockEvent, options, 'reel-123', 0);
 
       expect(frame.metadata.elementPath).toBe('#test-button');
     });
 
+    it('should record the selector strategy and fallbacks', async () => {
+      const frame = await captureFrame(root, mockEvent, options, 'reel-123', 0);
+
+      expect(frame.metadata.selectorStrategy).toBe('id');
+      expect(frame.metadata.selectorFallbacks).toEqual([
+        { selector: 'role=button[name="Click me"]', strategy: 'role' },
+        { selector: 'button', strategy: 'structural' },
+      ]);
+    });
+
+    it('should leave out role selectors when obfuscation is enabled', async () => {
+      const frame = await captureFrame(
+        root,
+        mockEvent,
+        { ...options, obfuscationEnabled: true, selectorStrategies: ['role', 'structural'] },
+        'reel-123',
+        0
+      );
+
+      expect(frame.metadata.elementPath).toBe('button');
+      expect(frame.metadata.selectorStrategy).toBe('structural');
+      expect(frame.metadata.selectorFallbacks).toEqual([]);
+    });
+
     it('should capture pre-click frame with marker by default', async () => {
       const frame = await captureFrame(root, mockEvent, options, 'reel-123', 0);
 
@@ -99,11 +144,425 @@ describe('capture', () => {
       expect(frame.metadata.htmlSnapshot).toContain('test-button');
     });
 
+    it('should record a DOM snapshot of the root if collectDomSnapshot is true', async () => {
+      const optionsWithSnapshot = { ...options, collectDomSnapshot: true };
+      const frame = await captureFrame(root, mockEvent, optionsWithSnapshot, 'reel-123', 0);
+
+      expect(frame.metadata.domSnapshot?.html).toContain('id="test-button"');
+      expect(frame.metadata.domSnapshot?.viewportSize).toEqual(frame.metadata.viewportSize);
+    });
+
+    it('should not record DOM snapshots for unobfuscated settlement frames', async () => {
+      const optionsWithSnapshot = { ...options, collectDomSnapshot: true };
+      const frame = await captureFrame(root, mockEvent, optionsWithSnapshot, 'reel-123', 1, 'post-click', true);
+
+      expect(frame.metadata.domSnapshot).toBeUndefined();
+    });
+
+    it('should place the marker relative to an element root', async () => {
+      vi.spyOn(root, 'getBoundingClientRect').mockReturnValue({
+        left: 50,
+        top: 100,
+        width: 500,
+        height: 500,
+        right: 550,
+        bottom: 600,
+        x: 50,
+        y: 100,
+        toJSON: () => ({}),
+      });
+
+      const frame = await captureFrame(root, mockEvent, options, 'reel-123', 0);
+
+      expect(frame.metadata.relativeCoords).toEqual({ x: 50, y: 100 });
+      expect(frame.metadata.markerCoords).toEqual({ x: 50, y: 100 });
+      // The root is only made a containing block while capturing
+      expect(root.style.position).toBe('');
+    });
+
     it('should record button type in metadata', async () => {
       const frame = await captureFrame(root, mockEvent, options, 'reel-123', 0);
 
       expect(frame.metadata.buttonType).toBe(0);
     });
+
+    it('should number badge markers with the click number', async () => {
+      let marker: Element | null = null;
+      const badgeOptions: CaptureOptions = {
+        ...options,
+        markerStyle: { ...options.markerStyle, shape: 'badge' },
+        clickNumber: 4,
+        rasterizer: createMemoryRasterizer((element) => {
+          marker = element.querySelector('[data-click-reel-marker="badge"]');
+          return 'rendered';
+        }),
+      };
+
+      await captureFrame(root, mockEvent, badgeOptions, 'reel-123', 0);
+
+      expect(marker).not.toBeNull();
+      expect(marker!.textContent).toBe('4');
+    });
+
+    it('should highlight the clicked element where it is after obfuscation', async () => {
+      const button = root.querySelector('button')!;
+      const rect = (left: number, width: number) => ({
+        left,
+        top: 190,
+        width,
+        height: 30,
+        right: left + width,
+        bottom: 220,
+        x: left,
+        y: 190,
+        toJSON: () => ({}),
+      });
+      // Obfuscated text makes the button wider
+      vi.spyOn(button, 'getBoundingClientRect')
+        .mockReturnValueOnce(rect(80, 100))
+        .mockReturnValue(rect(80, 140));
+
+      let highlight: HTMLElement | null = null;
+      await captureFrame(
+        root,
+        mockEvent,
+        {
+          ...options,
+          targetHighlight: 'outline',
+          obfuscationEnabled: true,
+          rasterizer: createMemoryRasterizer((element) => {
+            highlight = element.querySelector('[data-click-reel-highlight]');
+            return 'rendered';
+          }),
+        },
+        'reel-123',
+        0
+      );
+
+      expect(highlight).not.toBeNull();
+      expect(highlight!.getAttribute('data-click-reel-highlight')).toBe('outline');
+      expect(highlight!.style.width).toBe('148px');
+      expect(root.querySelector('[data-click-reel-highlight]')).toBeNull();
+    });
+
+    it('should remove the marker and highlight when rasterizing fails', async () => {
+      const failing = {
+        name: 'failing',
+        rasterize: () => Promise.reject(new Error('Rasterizer crashed')),
+      };
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      await expect(
+        captureFrame(
+          root,
+          mockEvent,
+          { ...options, targetHighlight: 'spotlight', dimOutsideTarget: true, rasterizer: failing },
+          'reel-123',
+          0
+        )
+      ).rejects.toThrow('Rasterizer crashed');
+
+      expect(document.querySelector('[data-click-reel-highlight]')).toBeNull();
+      expect(document.querySelector('[data-click-reel-marker]')).toBeNull();
+    });
+
+    it('should not highlight anything without a target element', async () => {
+      const synthetic = new PointerEvent('pointerdown', { clientX: 10, clientY: 10 });
+      let highlight: Element | null = null;
+
+      await captureFrame(
+        root,
+        synthetic,
+        {
+          ...options,
+          targetHighlight: 'spotlight',
+          dimOutsideTarget: true,
+          rasterizer: createMemoryRasterizer((element) => {
+            highlight = element.querySelector('[data-click-reel-highlight]');
+            return 'rendered';
+          }),
+        },
+        'reel-123',
+        0
+      );
+
+      expect(highlight).toBeNull();
+    });
+
+    it('should describe the clicked element on pre-click frames', async () => {
+      const button = root.querySelector('button')!;
+      button.setAttribute('data-testid', 'submit');
+      const icon = document.createElement('span');
+      button.appendChild(icon);
+      const event = new PointerEvent('pointerdown', { clientX: 10, clientY: 20, button: 0 });
+      Object.defineProperty(event, 'target', { value: icon });
+
+      const frame = await captureFrame(root, event, options, 'reel-123', 0);
+
+      expect(frame.metadata.target).toMatchObject({
+        tag: 'button',
+        role: 'button',
+        name: 'Click me',
+        text: 'Click me',
+        testId: 'submit',
+        box: { x: 0, y: 0, width: 0, height: 0 },
+      });
+      expect(frame.metadata.target?.masked).toBeUndefined();
+    });
+
+    it('should mask element text when obfuscation is enabled', async () => {
+      const link = document.createElement('a');
+      link.href = '/users/42?token=abc#details';
+      link.textContent = 'Jane Doe';
+      root.appendChild(link);
+      const event = new PointerEvent('pointerdown', { clientX: 10, clientY: 20, button: 0 });
+      Object.defineProperty(event, 'target', { value: link });
+
+      const frame = await captureFrame(
+        root,
+        event,
+        { ...options, obfuscationEnabled: true },
+        'reel-123',
+        0
+      );
+
+      expect(frame.metadata.target).toMatchObject({
+        tag: 'a',
+        role: 'link',
+        name: 'XXXXXXXX',
+        text: 'XXXXXXXX',
+        href: '/users/42',
+        masked: true,
+      });
+    });
+
+    it('should not describe the element on post-click frames', async () => {
+      const frame = await captureFrame(root, mockEvent, options, 'reel-123', 1, 'post-click');
+
+      expect(frame.metadata.target).toBeUndefined();
+    });
+  });
+
+  describe('capture modes', () => {
+    const lastCaptureOptions = () =>
+      vi.mocked(htmlToImage.toBlob).mock.lastCall?.[1] as {
+        width: number;
+        height: number;
+        pixelRatio?: number;
+        style?: Record<string, string>;
+      };
+
+    it('should shift the page by its scroll offset in viewport mode', async () => {
+      const page = document.documentElement;
+      await captureFrame(page, mockEvent, { ...options, root: page }, 'reel-123', 0);
+
+      expect(lastCaptureOptions().width).toBe(window.innerWidth);
+      expect(lastCaptureOptions().height).toBe(window.innerHeight);
+      expect(lastCaptureOptions().style?.transform).toBe('translate(0px, 0px)');
+    });
+
+    it('should capture the whole document in full-page mode', async () => {
+      const page = document.documentElement;
+      vi.spyOn(page, 'scrollHeight', 'get').mockReturnValue(3000);
+      vi.spyOn(page, 'scrollWidth', 'get').mockReturnValue(1024);
+
+      await captureFrame(
+        page,
+        mockEvent,
+        { ...options, root: page, captureMode: 'full-page' },
+        'reel-123',
+        0
+      );
+
+      expect(lastCaptureOptions()).toMatchObject({ width: 1024, height: 3000 });
+      expect(lastCaptureOptions().style).toBeUndefined();
+    });
+
+    it('should expand an element root to its scroll size in full-page mode', async () => {
+      vi.spyOn(root, 'scrollHeight', 'get').mockReturnValue(1200);
+      vi.spyOn(root, 'scrollWidth', 'get').mockReturnValue(500);
+
+      await captureFrame(root, mockEvent, { ...options, captureMode: 'full-page' }, 'reel-123', 0);
+
+      expect(lastCaptureOptions()).toMatchObject({ width: 500, height: 1200 });
+      expect(lastCaptureOptions().style).toEqual({
+        width: '500px',
+        height: '1200px',
+        overflow: 'visible',
+      });
+    });
+
+    it('should scale a full-page capture taller than maxHeight down instead of cropping it', async () => {
+      vi.spyOn(root, 'scrollHeight', 'get').mockReturnValue(4000);
+      vi.spyOn(root, 'scrollWidth', 'get').mockReturnValue(500);
+
+      await captureFrame(
+        root,
+        mockEvent,
+        { ...options, captureMode: 'full-page', maxHeight: 1000 },
+        'reel-123',
+        0
+      );
+
+      expect(lastCaptureOptions()).toMatchObject({ width: 500, height: 4000, pixelRatio: 0.5 });
+    });
+
+    it('should use the element bounds in root mode', async () => {
+      vi.spyOn(root, 'getBoundingClientRect').mockReturnValue({
+        left: -20,
+        top: 10,
+        width: 300,
+        height: 200,
+        right: 280,
+        bottom: 210,
+        x: -20,
+        y: 10,
+        toJSON: () => ({}),
+      });
+
+      await captureFrame(root, mockEvent, { ...options, captureMode: 'root' }, 'reel-123', 0);
+
+      expect(lastCaptureOptions()).toMatchObject({ width: 300, height: 200 });
+    });
+
+    it('should clip an element root to the viewport in viewport mode', async () => {
+      vi.spyOn(root, 'getBoundingClientRect').mockReturnValue({
+        left: -20,
+        top: 10,
+        width: 300,
+        height: 200,
+        right: 280,
+        bottom: 210,
+        x: -20,
+        y: 10,
+        toJSON: () => ({}),
+      });
+
+      await captureFrame(root, mockEvent, options, 'reel-123', 0);
+
+      expect(lastCaptureOptions()).toMatchObject({ width: 280, height: 200 });
+      expect(lastCaptureOptions().style?.transform).toBe('translate(-20px, 0px)');
+    });
+  });
+
+  describe('zoom focus', () => {
+    const rect = (left: number, top: number, width: number, height: number) => ({
+      left,
+      top,
+      width,
+      height,
+      right: left + width,
+      bottom: top + height,
+      x: left,
+      y: top,
+      toJSON: () => ({}),
+    });
+
+    beforeEach(() => {
+      vi.spyOn(root, 'getBoundingClientRect').mockReturnValue(rect(0, 0, 600, 300));
+    });
+
+    it('should not record a crop unless enabled', async () => {
+      const frame = await captureFrame(root, mockEvent, { ...options, captureMode: 'root' }, 'reel-123', 0);
+
+      expect(frame.metadata.focusCrop).toBeUndefined();
+    });
+
+    it('should frame the target with padding, in image pixels', async () => {
+      const button = root.querySelector('button') as HTMLElement;
+      vi.spyOn(button, 'getBoundingClientRect').mockReturnValue(rect(100, 150, 80, 30));
+
+      const frame = await captureFrame(
+        root,
+        mockEvent,
+        { ...options, captureMode: 'root', zoomFocus: 'frame' },
+        'reel-123',
+        0
+      );
+
+      expect(frame.metadata.focusCrop).toEqual({ mode: 'frame', x: 80, y: 230, width: 400, height: 200 });
+    });
+
+    it('should center on the click when the target is too large to zoom', async () => {
+      const button = root.querySelector('button') as HTMLElement;
+      vi.spyOn(button, 'getBoundingClientRect').mockReturnValue(rect(0, 0, 500, 280));
+
+      const frame = await captureFrame(
+        root,
+        mockEvent,
+        { ...options, captureMode: 'root', zoomFocus: 'inset' },
+        'reel-123',
+        0
+      );
+
+      expect(frame.metadata.focusCrop).toEqual({ mode: 'inset', x: 0, y: 300, width: 400, height: 200 });
+    });
+
+    it('should not record a crop on post-click frames', async () => {
+      const frame = await captureFrame(
+        root,
+        mockEvent,
+        { ...options, captureMode: 'root', zoomFocus: 'frame' },
+        'reel-123',
+        1,
+        'post-click'
+      );
+
+      expect(frame.metadata.focusCrop).toBeUndefined();
+    });
+  });
+
+  describe('same-origin iframes', () => {
+    let frame: HTMLIFrameElement;
+    let frameButton: HTMLElement;
+
+    beforeEach(() => {
+      frame = document.createElement('iframe');
+      frame.id = 'preview';
+      root.appendChild(frame);
+      const frameDocument = frame.contentDocument as Document;
+      frameButton = frameDocument.createElement('button');
+      frameDocument.body.appendChild(frameButton);
+
+      vi.spyOn(frame, 'getBoundingClientRect').mockReturnValue({
+        left: 40,
+        top: 100,
+        width: 300,
+        height: 200,
+        right: 340,
+        bottom: 300,
+        x: 40,
+        y: 100,
+        toJSON: () => ({}),
+      });
+    });
+
+    it('should translate clicks inside an iframe to the top-level frame', async () => {
+      const event = new PointerEvent('pointerdown', { clientX: 10, clientY: 20, button: 0 });
+      Object.defineProperty(event, 'target', { value: frameButton });
+
+      const frameResult = await captureFrame(root, event, options, 'reel-123', 0);
+
+      expect(frameResult.metadata.viewportCoords).toEqual({ x: 50, y: 120 });
+      expect(frameResult.metadata.markerCoords).toEqual({ x: 50, y: 120 });
+      expect(frameResult.metadata.elementPath).toBe('#preview >>> button');
+    });
+
+    it('should composite iframe snapshots and restore the iframe', async () => {
+      vi.spyOn(frame, 'clientWidth', 'get').mockReturnValue(300);
+      vi.spyOn(frame, 'clientHeight', 'get').mockReturnValue(200);
+      const toBlob = vi.mocked(htmlToImage.toBlob);
+      toBlob.mockClear();
+
+      await captureFrame(root, mockEvent, options, 'reel-123', 0);
+
+      expect(toBlob).toHaveBeenCalledTimes(2);
+      expect(toBlob.mock.calls[0][0]).toBe(frame.contentDocument?.documentElement);
+      expect(toBlob.mock.calls[0][1]).toMatchObject({ width: 300, height: 200 });
+      expect(frame.style.display).toBe('');
+      expect(frame.hasAttribute('data-screenshot-exclude')).toBe(false);
+      expect(root.querySelector('img')).toBeNull();
+    });
   });
 
   describe('captureManualFrame', () => {
@@ -119,6 +578,279 @@ describe('capture', () => {
     });
   });
 
+  describe('captureKeystrokeFrame', () => {
+    let input: HTMLInputElement;
+
+    beforeEach(() => {
+      input = document.createElement('input');
+      input.id = 'search';
+      input.value = 'hello';
+      root.appendChild(input);
+    });
+
+    it('should record a keystroke frame for typing', async () => {
+      const frame = await captureKeystrokeFrame(root, input, null, options, 'reel-123', 2);
+
+      expect(frame.order).toBe(2);
+      expect(frame.metadata.captureType).toBe('keystroke');
+      expect(frame.metadata.elementPath).toBe('#search');
+      expect(frame.metadata.keystroke).toMatchObject({
+        trigger: 'input',
+        value: 'hello',
+        fieldTag: 'input',
+        inputType: 'text',
+        masked: false,
+      });
+    });
+
+    it('should record the pressed key and modifiers', async () => {
+      const keyEvent = new KeyboardEvent('keydown', { key: 'Enter', ctrlKey: true });
+      const frame = await captureKeystrokeFrame(root, input, keyEvent, options, 'reel-123', 0);
+
+      expect(frame.metadata.keystroke?.trigger).toBe('key');
+      expect(frame.metadata.keystroke?.key).toBe('Enter');
+      expect(frame.metadata.keystroke?.modifiers).toEqual({
+        ctrl: true,
+        shift: false,
+        alt: false,
+        meta: false,
+      });
+    });
+
+    it('should always mask password fields', async () => {
+      input.type = 'password';
+      input.value = 'secret';
+      const keyEvent = new KeyboardEvent('keydown', { key: 's', altKey: true });
+      const frame = await captureKeystrokeFrame(root, input, keyEvent, options, 'reel-123', 0);
+
+      expect(frame.metadata.keystroke?.masked).toBe(true);
+      expect(frame.metadata.keystroke?.value).toBe('XXXXXX');
+      expect(frame.metadata.keystroke?.key).toBe('X');
+    });
+
+    it('should mask values when obfuscation is enabled', async () => {
+      const frame = await captureKeystrokeFrame(
+        root,
+        input,
+        null,
+        { ...options, obfuscationEnabled: true },
+        'reel-123',
+        0
+      );
+
+      expect(frame.metadata.keystroke?.masked).toBe(true);
+      expect(frame.metadata.keystroke?.value).toBe('XXXXX');
+    });
+
+    it('should not mask pii-disable fields when obfuscation is enabled', async () => {
+      input.classList.add('pii-disable');
+      const frame = await captureKeystrokeFrame(
+        root,
+        input,
+        null,
+        { ...options, obfuscationEnabled: true },
+        'reel-123',
+        0
+      );
+
+      expect(frame.metadata.keystroke?.masked).toBe(false);
+      expect(frame.metadata.keystroke?.value).toBe('hello');
+    });
+  });
+
+  describe('captureScrollFrame', () => {
+    it('should record a scroll frame for the page', async () => {
+      const frame = await captureScrollFrame(
+        root,
+        null,
+        { x: 0, y: 0 },
+        { x: 0, y: 600 },
+        options,
+        'reel-123',
+        3
+      );
+
+      expect(frame.order).toBe(3);
+      expect(frame.metadata.captureType).toBe('scroll');
+      expect(frame.metadata.buttonType).toBe(-1);
+      expect(frame.metadata.scroll).toEqual({
+        direction: 'down',
+        from: { x: 0, y: 0 },
+        to: { x: 0, y: 600 },
+        containerPath: 'document',
+      });
+    });
+
+    it('should record the path of a scrolled container', async () => {
+      const list = document.createElement('div');
+      list.id = 'results';
+      root.appendChild(list);
+
+      const frame = await captureScrollFrame(
+        root,
+        list,
+        { x: 0, y: 300 },
+        { x: 0, y: 100 },
+        options,
+        'reel-123',
+        0
+      );
+
+      expect(frame.metadata.scroll?.direction).toBe('up');
+      expect(frame.metadata.scroll?.containerPath).toBe('#results');
+      expect(frame.metadata.elementPath).toBe('#results');
+    });
+
+    it('should remove the scroll indicator after capture', async () => {
+      await captureScrollFrame(root, null, { x: 0, y: 0 }, { x: 0, y: 200 }, options, 'reel-123', 0);
+
+      expect(document.querySelector('[data-click-reel-scroll-indicator]')).toBeNull();
+    });
+  });
+
+  describe('captureDragFrame', () => {
+    const path = [
+      { x: 10, y: 20, t: 0 },
+      { x: 60, y: 20, t: 120 },
+      { x: 130, y: 80, t: 300 },
+    ];
+
+    it('should record the drag path in metadata', async () => {
+      const source = root.querySelector('#test-button') as HTMLElement;
+      const frame = await captureDragFrame(root, source, path, 0, options, 'reel-123', 4);
+
+      expect(frame.order).toBe(4);
+      expect(frame.metadata.captureType).toBe('drag');
+      expect(frame.metadata.viewportCoords).toEqual({ x: 130, y: 80 });
+      expect(frame.metadata.elementPath).toBe('#test-button');
+      expect(frame.metadata.drag).toMatchObject({
+        path,
+        distance: 134,
+        duration: 300,
+        sourcePath: '#test-button',
+      });
+    });
+
+    it('should remove the trail and marker after capture', async () => {
+      const source = root.querySelector('#test-button') as HTMLElement;
+      await captureDragFrame(root, source, path, 0, options, 'reel-123', 0);
+
+      expect(document.querySelector('[data-click-reel-drag-trail]')).toBeNull();
+      expect(document.querySelector('[data-click-reel-marker]')).toBeNull();
+    });
+  });
+
+  describe('captureNavigationFrame', () => {
+    it('should record the route change and the new address', async () => {
+      const navigation = {
+        trigger: 'push' as const,
+        from: 'http://localhost:3000/',
+        to: window.location.href,
+      };
+      const frame = await captureNavigationFrame(root, navigation, options, 'reel-123', 2);
+
+      expect(frame.order).toBe(2);
+      expect(frame.metadata.captureType).toBe('navigation');
+      expect(frame.metadata.navigation).toEqual(navigation);
+      expect(frame.metadata.url).toBe(window.location.href);
+      expect(frame.metadata.elementPath).toBe('document');
+    });
+  });
+
+  describe('getScrollInfo', () => {
+    it('should use the dominant axis for direction', () => {
+      expect(getScrollInfo(null, root, { x: 0, y: 0 }, { x: 300, y: 50 }).direction).toBe('right');
+      expect(getScrollInfo(null, root, { x: 300, y: 0 }, { x: 0, y: 50 }).direction).toBe('left');
+      expect(getScrollInfo(null, root, { x: 0, y: 100 }, { x: 20, y: 0 }).direction).toBe('up');
+    });
+  });
+
+  describe('settlement comparison', () => {
+    // 4x4 image filled with one gray level
+    const makeImage = (level: number) =>
+      ({
+        width: 4,
+        height: 4,
+        data: new Uint8ClampedArray(4 * 4 * 4).fill(level),
+      }) as unknown as ImageData;
+
+    const setPixel = (image: ImageData, x: number, y: number, level: number) => {
+      const i = (y * image.width + x) * 4;
+      image.data[i] = level;
+    };
+
+    it('should report the share of changed pixels', () => {
+      const after = makeImage(100);
+      setPixel(after, 0, 0, 255);
+      setPixel(after, 3, 3, 255);
+
+      expect(getPixelChangeRatio(makeImage(100), after)).toBe(2 / 16);
+    });
+
+    it('should ignore differences within the tolerance', () => {
+      expect(getPixelChangeRatio(makeImage(100), makeImage(110))).toBe(0);
+    });
+
+    it('should skip ignored regions', () => {
+      const after = makeImage(100);
+      setPixel(after, 0, 0, 255);
+      setPixel(after, 3, 3, 255);
+
+      // Top-left quarter
+      const ratio = getPixelChangeRatio(makeImage(100), after, [
+        { x: 0, y: 0, width: 0.5, height: 0.5 },
+      ]);
+
+      expect(ratio).toBe(1 / 12);
+    });
+
+    it('should treat images of different sizes as fully changed', () => {
+      const smaller = { ...makeImage(100), width: 2 } as ImageData;
+
+      expect(getPixelChangeRatio(makeImage(100), smaller)).toBe(1);
+    });
+
+    it('should not decode identical frames', async () => {
+      expect(await measureImageChange('data:image/png;base64,a', 'data:image/png;base64,a')).toBe(0);
+    });
+
+    it('should find marked and selected regions relative to the frame', () => {
+      const page = document.documentElement;
+      const spinner = document.createElement('div');
+      spinner.setAttribute('data-screenshot-ignore-change', '');
+      const clock = document.createElement('div');
+      clock.className = 'clock';
+      root.append(spinner, clock);
+      const rect = (left: number, top: number) => ({
+        left,
+        top,
+        width: 64,
+        height: 32,
+        right: left + 64,
+        bottom: top + 32,
+        x: left,
+        y: top,
+        toJSON: () => ({}),
+      });
+      vi.spyOn(spinner, 'getBoundingClientRect').mockReturnValue(rect(0, 0));
+      vi.spyOn(clock, 'getBoundingClientRect').mockReturnValue(rect(512, 384));
+
+      const regions = getIgnoreRegions(page, { root: page }, '.clock');
+
+      expect(regions).toEqual([
+        { x: 0, y: 0, width: 64 / 1024, height: 32 / 768 },
+        { x: 0.5, y: 0.5, width: 64 / 1024, height: 32 / 768 },
+      ]);
+    });
+
+    it('should fall back to marked regions for an invalid selector', () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const page = document.documentElement;
+
+      expect(getIgnoreRegions(page, { root: page }, '[[')).toEqual([]);
+    });
+  });
+
   describe('compareImages', () => {
     it('should return true for identical images', () => {
       const url1 = 'data:image/png;base64,abc123';
@@ -0,0 +1,170 @@
+/**
+ * Tests for diagnostics collection
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { DiagnosticsCollector } from '../../core/diagnostics';
+import { getIgnoreRegions } from '../../core/capture';
+import { htmlToImageRasterizer } from '../../core/rasterizer';
+import * as htmlToImage from 'html-to-image';
+import { DIAGNOSTICS_MAX_ENTRIES } from '../../utils/constants';
+
+vi.mock('html-to-image', () => ({
+  toBlob: vi.fn(() =>
+    Promise.resolve(new Blob(['mock'], { type: 'image/png' }))
+  ),
+  getFontEmbedCSS: vi.fn(() => Promise.resolve('')),
+}));
+
+describe('diagnostics', () => {
+  let collector: DiagnosticsCollector;
+  let win: Window & typeof globalThis;
+  let nativeError: ReturnType<typeof vi.fn>;
+  let nativeWarn: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(1000);
+    nativeError = vi.fn();
+    nativeWarn = vi.fn();
+    win = Object.assign(new EventTarget(), {
+      console: { error: nativeError, warn: nativeWarn, log: vi.fn() },
+    }) as unknown as Window & typeof globalThis;
+    collector = new DiagnosticsCollector();
+    collector.install(win);
+  });
+
+  afterEach(() => {
+    collector.uninstall();
+    vi.useRealTimers();
+  });
+
+  it('should record console errors and warnings and still log them', () => {
+    win.console.warn('Slow render', { ms: 40 });
+    vi.setSystemTime(1100);
+    const error = new Error('Save failed');
+    win.console.error('Request error:', error);
+
+    const entries = collector.drain(1050);
+
+    expect(entries).toEqual([
+      { type: 'console-warn', message: 'Slow render {"ms":40}', time: -50 },
+      {
+        type: 'console-error',
+        message: 'Request error: Error: Save failed',
+        stack: error.stack,
+        time: 50,
+      },
+    ]);
+    expect(nativeWarn).toHaveBeenCalledWith('Slow render', { ms: 40 });
+    expect(nativeError).toHaveBeenCalledWith('Request error:', error);
+  });
+
+  it('should record uncaught errors with their location', () => {
+    const error = new TypeError('x is undefined');
+    win.dispatchEvent(
+      new ErrorEvent('error', {
+        error,
+        message: error.message,
+        filename: 'https://example.com/app.js?v=123',
+        lineno: 10,
+        colno: 5,
+      })
+    );
+
+    expect(collector.drain(1000)).toEqual([
+      {
+        type: 'error',
+        message: 'TypeError: x is undefined',
+        stack: error.stack,
+        source: 'https://example.com/app.js',
+        line: 10,
+        column: 5,
+        time: 0,
+      },
+    ]);
+  });
+
+  it('should record unhandled rejections', () => {
+    const event = Object.assign(new Event('unhandledrejection'), {
+      reason: 'timeout',
+    });
+    win.dispatchEvent(event);
+
+    expect(collector.drain(1000)).toEqual([
+      { type: 'unhandled-rejection', message: 'timeout', time: 0 },
+    ]);
+  });
+
+  it('should hand over each entry only once', () => {
+    win.console.error('First');
+    collector.drain(1000);
+    win.console.error('Second');
+
+    expect(collector.drain(1000).map((entry) => entry.message)).toEqual([
+      'Second',
+    ]);
+  });
+
+  it('should keep only the newest entries', () => {
+    for (let i = 0; i < DIAGNOSTICS_MAX_ENTRIES + 5; i++) {
+      win.console.warn(`Warning ${i}`);
+    }
+
+    const entries = collector.drain(1000);
+
+    expect(entries).toHaveLength(DIAGNOSTICS_MAX_ENTRIES);
+    expect(entries[0].message).toBe('Warning 5');
+  });
+
+  it("should not record Click Reel's own warnings", () => {
+    const pageCollector = new DiagnosticsCollector();
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    pageCollector.install();
+
+    try {
+      // Capture-time warning about an invalid settlement ignore selector
+      getIgnoreRegions(document.body, { root: document.body }, '[[invalid');
+      console.warn('Slow render');
+
+      expect(warn).toHaveBeenCalledTimes(2);
+      expect(pageCollector.drain(1000)).toEqual([
+        { type: 'console-warn', message: 'Slow render', time: 0 },
+      ]);
+    } finally {
+      pageCollector.uninstall();
+      warn.mockRestore();
+    }
+  });
+
+  it("should not record html-to-image's messages while rendering", async () => {
+    const pageCollector = new DiagnosticsCollector();
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    pageCollector.install();
+    vi.mocked(htmlToImage.toBlob).mockImplementationOnce(async () => {
+      console.warn('Failed to fetch resource: https://cdn.example.com/a.png');
+      return new Blob(['mock'], { type: 'image/png' });
+    });
+
+    try {
+      await htmlToImageRasterizer.rasterize(document.body, { pixelRatio: 1 });
+
+      expect(warn).toHaveBeenCalledTimes(1);
+      expect(pageCollector.drain(1000)).toEqual([]);
+    } finally {
+      pageCollector.uninstall();
+      warn.mockRestore();
+    }
+  });
+
+  it('should restore the console and stop listening when uninstalled', () => {
+    collector.uninstall();
+
+    expect(collector.installed).toBe(false);
+    expect(win.console.error).toBe(nativeError);
+    expect(win.console.warn).toBe(nativeWarn);
+
+    win.dispatchEvent(new ErrorEvent('error', { message: 'late' }));
+    expect(collector.drain(1000)).toEqual([]);
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * Tests for DOM diffing
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  diffDOM,
+  diffFrameSnapshots,
+  hasDomChanges,
+} from '../../core/dom-diff';
+import type { FrameMetadata } from '../../types';
+
+describe('dom-diff', () => {
+  describe('diffDOM', () => {
+    it('should find added and removed nodes', () => {
+      const diff = diffDOM(
+        '<div id="app"><p>Loading</p><ul><li>One</li></ul></div>',
+        '<div id="app"><ul><li>One</li><li>Two</li></ul></div>'
+      );
+
+      expect(diff.changes).toEqual([
+        { type: 'removed', path: 'div#app > p', before: '<p>Loading</p>' },
+        {
+          type: 'added',
+          path: 'div#app > ul > li:nth-child(2)',
+          after: '<li>Two</li>',
+        },
+      ]);
+      expect(diff.counts).toEqual({
+        added: 1,
+        removed: 1,
+        attribute: 0,
+        text: 0,
+      });
+    });
+
+    it('should find changed, added and removed attributes', () => {
+      const diff = diffDOM(
+        '<button id="save" aria-expanded="false" disabled>Save</button>',
+        '<button id="save" aria-expanded="true" class="open">Save</button>'
+      );
+
+      expect(diff.changes).toEqual([
+        {
+          type: 'attribute',
+          path: 'button#save',
+          attribute: 'aria-expanded',
+          before: 'false',
+          after: 'true',
+        },
+        {
+          type: 'attribute',
+          path: 'button#save',
+          attribute: 'disabled',
+          before: '',
+        },
+        {
+          type: 'attribute',
+          path: 'button#save',
+          attribute: 'class',
+          after: 'open',
+        },
+      ]);
+    });
+
+    it('should find changed text', () => {
+      const diff = diffDOM(
+        '<h1>Cart (1)</h1><p>Total</p>',
+        '<h1>Cart (2)</h1><p>Total</p>'
+      );
+
+      expect(diff.changes).toEqual([
+        { type: 'text', path: 'h1', before: 'Cart (1)', after: 'Cart (2)' },
+      ]);
+    });
+
+    it('should match moved siblings instead of reporting them all as changed', () => {
+      const diff = diffDOM(
+        '<ul><li id="a">A</li><li id="b">B</li><li id="c">C</li></ul>',
+        '<ul><li id="b">B</li><li id="c">C</li><li id="a">A</li></ul>'
+      );
+
+      expect(diff.counts).toEqual({
+        added: 1,
+        removed: 1,
+        attribute: 0,
+        text: 0,
+      });
+      expect(diff.changes.map((change) => change.path)).toEqual([
+        'ul > li#a',
+        'ul > li#a',
+      ]);
+    });
+
+    it('should ignore whitespace and snapshot scroll offsets', () => {
+      const diff = diffDOM(
+        '<div id="list">\n  <p>Item</p>\n</div>',
+        '<div id="list" data-click-reel-scroll="0,40"><p>Item</p></div>'
+      );
+
+      expect(hasDomChanges(diff)).toBe(false);
+    });
+
+    it('should compare declarative shadow roots', () => {
+      const diff = diffDOM(
+        '<x-card id="card"><template shadowrootmode="open"><span>Old</span></template></x-card>',
+        '<x-card id="card"><template shadowrootmode="open"><span>New</span></template></x-card>'
+      );
+
+      expect(diff.changes).toEqual([
+        {
+          type: 'text',
+          path: 'x-card#card >>> span',
+          before: 'Old',
+          after: 'New',
+        },
+      ]);
+    });
+
+    it('should count changes beyond the listed ones', () => {
+      const items = (count: number) =>
+        Array.from({ length: count }, (_, i) => `<li>${i}</li>`).join('');
+      const diff = diffDOM('<ul></ul>', `<ul>${items(250)}</ul>`);
+
+      expect(diff.changes).toHaveLength(200);
+      expect(diff.counts.added).toBe(250);
+      expect(diff.truncated).toBe(true);
+    });
+  });
+
+  describe('diffFrameSnapshots', () => {
+    const metadata = (snapshot: Partial<FrameMetadata>): FrameMetadata => ({
+      viewportCoords: { x: 0, y: 0 },
+      relativeCoords: { x: 0, y: 0 },
+      elementPath: 'button',
+      buttonType: 0,
+      viewportSize: { width: 800, height: 600 },
+      scrollPosition: { x: 0, y: 0 },
+      captureType: 'post-click',
+      ...snapshot,
+    });
+    const domSnapshot = (html: string) => ({
+      html,
+      baseUrl: 'https://example.com/',
+      viewportSize: { width: 800, height: 600 },
+      scrollPosition: { x: 0, y: 0 },
+    });
+
+    it('should prefer DOM snapshots', () => {
+      const diff = diffFrameSnapshots(
+        metadata({
+          domSnapshot: domSnapshot('<p>A</p>'),
+          htmlSnapshot: '<p>A</p>',
+        }),
+        metadata({
+          domSnapshot: domSnapshot('<p>B</p>'),
+          htmlSnapshot: '<p>A</p>',
+        })
+      );
+
+      expect(diff?.counts.text).toBe(1);
+    });
+
+    it('should fall back to HTML snapshots', () => {
+      const diff = diffFrameSnapshots(
+        metadata({ htmlSnapshot: '<p>A</p>' }),
+        metadata({ htmlSnapshot: '<p>A</p><p>B</p>' })
+      );
+
+      expect(diff?.counts.added).toBe(1);
+    });
+
+    it('should return null without snapshots on both frames', () => {
+      expect(
+        diffFrameSnapshots(
+          metadata({ domSnapshot: domSnapshot('<p>A</p>') }),
+          metadata({})
+        )
+      ).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * Tests for DOM snapshot serialization
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  serializeDOM,
+  restoreSnapshotScroll,
+  packSnapshotStyles,
+  unpackSnapshotStyles,
+} from '../../core/dom-snapshot';
+import type { Frame } from '../../types';
+
+describe('dom-snapshot', () => {
+  let root: HTMLElement;
+
+  const parse = (html: string) =>
+    new DOMParser().parseFromString(html, 'text/html');
+
+  beforeEach(() => {
+    root = document.createElement('div');
+    root.id = 'app';
+    document.body.appendChild(root);
+  });
+
+  afterEach(() => {
+    document.body.innerHTML = '';
+    document.head.innerHTML = '';
+  });
+
+  describe('serializeDOM', () => {
+    it('should remove scripts, event handlers and javascript: URLs', () => {
+      root.innerHTML = `
+        <script>alert(1)</script>
+        <button onclick="alert(2)">Save</button>
+        <a href="javascript:alert(3)">Bad</a>
+        <a href="/help">Help</a>
+      `;
+
+      const doc = parse(serializeDOM(root).html);
+
+      expect(doc.querySelector('script')).toBeNull();
+      expect(doc.querySelector('button')?.hasAttribute('onclick')).toBe(false);
+      expect(doc.querySelectorAll('a')[0].hasAttribute('href')).toBe(false);
+      expect(doc.querySelectorAll('a')[1].getAttribute('href')).toBe('/help');
+      expect(doc.querySelector('#app button')?.textContent).toBe('Save');
+    });
+
+    it("should inline the page's stylesheets and resolve URLs from the page", () => {
+      const style = document.createElement('style');
+      style.textContent = '.card { color: red; }';
+      document.head.appendChild(style);
+      root.innerHTML = '<div class="card" style="margin: 4px">Card</div>';
+
+      const snapshot = serializeDOM(root);
+      const doc = parse(snapshot.html);
+
+      expect(snapshot.html.startsWith('<!DOCTYPE html>')).toBe(true);
+      expect(doc.querySelector('head style')?.textContent).toContain(
+        'color: red'
+      );
+      expect(doc.querySelector('base')?.getAttribute('href')).toBe(
+        snapshot.baseUrl
+      );
+      expect(doc.querySelector('.card')?.getAttribute('style')).toBe(
+        'margin: 4px'
+      );
+    });
+
+    it('should record form state in attributes', () => {
+      root.innerHTML = `
+        <input id="name" />
+        <input id="agree" type="checkbox" />
+        <textarea id="notes"></textarea>
+        <select id="size"><option>S</option><option>M</option></select>
+      `;
+      (root.querySelector('#name') as HTMLInputElement).value = 'Ada';
+      (root.querySelector('#agree') as HTMLInputElement).checked = true;
+      (root.querySelector('#notes') as HTMLTextAreaElement).value = 'Hello';
+      (root.querySelector('#size') as HTMLSelectElement).selectedIndex = 1;
+
+      const doc = parse(serializeDOM(root).html);
+
+      expect(doc.querySelector('#name')?.getAttribute('value')).toBe('Ada');
+      expect(doc.querySelector('#agree')?.hasAttribute('checked')).toBe(true);
+      expect(doc.querySelector('#notes')?.textContent).toBe('Hello');
+      expect(
+        (doc.querySelector('#size') as HTMLSelectElement).selectedIndex
+      ).toBe(1);
+    });
+
+    it('should always mask passwords and hidden fields', () => {
+      root.innerHTML = `
+        <input id="password" type="password" />
+        <input id="csrf" type="hidden" value="t0k3n" />
+      `;
+      (root.querySelector('#password') as HTMLInputElement).value = 'secret';
+
+      const doc = parse(serializeDOM(root).html);
+
+      expect(doc.querySelector('#password')?.getAttribute('value')).toBe(
+        'XXXXXX'
+      );
+      expect(doc.querySelector('#csrf')?.getAttribute('value')).toBe('XXXXX');
+    });
+
+    it('should mask text and values while obfuscating', () => {
+      root.innerHTML = `
+        <p>Jane Doe</p>
+        <button>Save</button>
+        <input id="email" placeholder="Email" />
+      `;
+      (root.querySelector('#email') as HTMLInputElement).value = 'a@b.c';
+
+      const html = serializeDOM(root, { obfuscationEnabled: true }).html;
+      const doc = parse(html);
+
+      expect(html).not.toContain('Jane');
+      expect(doc.querySelector('p')?.textContent).toBe('XXXX XXX');
+      expect(doc.querySelector('button')?.textContent).toBe('Save');
+      expect(doc.querySelector('#email')?.getAttribute('value')).toBe('XXXXX');
+      expect(doc.querySelector('#email')?.getAttribute('placeholder')).toBe(
+        'XXXXX'
+      );
+    });
+
+    it('should leave out excluded elements', () => {
+      root.innerHTML = `
+        <div data-screenshot-exclude="true">Recorder</div>
+        <div class="ad">Ad</div>
+        <p>Content</p>
+      `;
+
+      const html = serializeDOM(root, { excludeSelector: '.ad' }).html;
+
+      expect(html).not.toContain('Recorder');
+      expect(html).not.toContain('Ad<');
+      expect(html).toContain('Content');
+    });
+
+    it('should keep open shadow roots as declarative shadow roots', () => {
+      const host = document.createElement('div');
+      host.attachShadow({ mode: 'open' }).innerHTML = '<span>Inside</span>';
+      root.appendChild(host);
+
+      const html = serializeDOM(root).html;
+
+      expect(html).toContain(
+        '<template shadowrootmode="open"><span>Inside</span></template>'
+      );
+    });
+  });
+
+  describe('restoreSnapshotScroll', () => {
+    it('should put back scroll offsets recorded in the snapshot', () => {
+      root.innerHTML = '<div id="list">Items</div>';
+      const list = root.querySelector('#list') as HTMLElement;
+      list.scrollLeft = 10;
+      list.scrollTop = 40;
+
+      const snapshot = serializeDOM(root);
+      const doc = document.implementation.createHTMLDocument('');
+      doc.documentElement.innerHTML = parse(
+        snapshot.html
+      ).documentElement.innerHTML;
+      restoreSnapshotScroll(doc, snapshot);
+
+      const restored = doc.querySelector('#list') as HTMLElement;
+      expect(restored.getAttribute('data-click-reel-scroll')).toBe('10,40');
+      expect(restored.scrollLeft).toBe(10);
+      expect(restored.scrollTop).toBe(40);
+    });
+  });
+
+  describe('packSnapshotStyles', () => {
+    const snapshotFrame = (id: string): Frame =>
+      ({
+        id,
+        metadata: { domSnapshot: serializeDOM(root) },
+      }) as unknown as Frame;
+
+    it('should store the page CSS once for frames that share it', () => {
+      const style = document.createElement('style');
+      style.textContent = '.card { background: url("$&.png"); }';
+      document.head.appendChild(style);
+      root.innerHTML = '<div class="card">Card</div>';
+      const frames = [snapshotFrame('a'), snapshotFrame('b')];
+      root.innerHTML = '<div class="card">Changed</div>';
+      frames.push(snapshotFrame('c'));
+
+      const packed = packSnapshotStyles(frames);
+
+      expect(Object.values(packed.styles)).toHaveLength(1);
+      expect(Object.values(packed.styles)[0]).toContain('$&.png');
+      packed.frames.forEach((frame) =>
+        expect(frame.metadata.domSnapshot?.html).not.toContain('.card {')
+      );
+      expect(unpackSnapshotStyles(packed.frames, packed.styles)).toEqual(
+        frames
+      );
+    });
+
+    it('should leave frames without snapshots alone', () => {
+      const frame = { id: 'a', metadata: {} } as unknown as Frame;
+
+      expect(packSnapshotStyles([frame])).toEqual({
+        frames: [frame],
+        styles: {},
+      });
+    });
+  });
+});
@@ -8,6 +8,8 @@ import {
   encodeAPNG,
   estimateEncodedSize,
   prepareFramesForEncoding,
+  applyFocusCrops,
+  applyAnnotations,
   optimizeFrames,
   createPreviewGIF,
 } from "../../core/encoder";
@@ -44,6 +46,13 @@ vi.mock("upng-js", () => ({
   },
 }));
 
+// Drawing needs a real canvas; tag the image instead
+vi.mock("../../core/annotations", () => ({
+  renderAnnotations: vi.fn((dataUrl: string) =>
+    Promise.resolve(`${dataUrl}#annotated`)
+  ),
+}));
+
 describe("encoder", () => {
   let mockFrames: Frame[];
 
@@ -184,6 +193,73 @@ describe("encoder", () => {
     });
   });
 
+  describe("applyAnnotations", () => {
+    it("should return frames unchanged if none are annotated", async () => {
+      const prepared = await applyAnnotations(mockFrames);
+
+      expect(prepared).toBe(mockFrames);
+    });
+
+    it("should draw annotations over copies of annotated frames", async () => {
+      const original = mockFrames[1].image;
+      const frames = [
+        mockFrames[0],
+        {
+          ...mockFrames[1],
+          annotations: [
+            {
+              id: "note-1",
+              type: "rectangle" as const,
+              points: [
+                { x: 0, y: 0 },
+                { x: 20, y: 20 },
+              ],
+              color: "#ff0000",
+              strokeWidth: 4,
+            },
+          ],
+        },
+      ];
+
+      const prepared = await applyAnnotations(frames);
+
+      expect(prepared[0]).toBe(frames[0]);
+      expect(prepared[1].image).toBe(`${original}#annotated`);
+      expect(frames[1].image).toBe(original);
+    });
+  });
+
+  describe("applyFocusCrops", () => {
+    it("should return frames unchanged if none have a focus crop", async () => {
+      const prepared = await applyFocusCrops(mockFrames);
+
+      expect(prepared).toBe(mockFrames);
+    });
+
+    it.skip("should add a zoomed frame after a pre-click frame", async () => {
+      // Skipped: requires browser canvas/image APIs
+      const frames = [
+        {
+          ...mockFrames[0],
+          metadata: {
+            ...mockFrames[0].metadata,
+            focusCrop: {
+              mode: "frame" as const,
+              x: 0,
+              y: 0,
+              width: 10,
+              height: 10,
+            },
+          },
+        },
+        mockFrames[1],
+      ];
+      const prepared = await applyFocusCrops(frames);
+      expect(prepared).toHaveLength(3);
+      expect(prepared[1].id).toBe(`${frames[0].id}-focus`);
+    });
+  });
+
   describe("optimizeFrames", () => {
     it("should remove duplicate consecutive frames", () => {
       const sameImage = "data:image/png;base64,same";
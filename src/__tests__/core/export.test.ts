@@ -14,6 +14,7 @@ import {
   type ExportOptions,
   type ExportResult,
 } from "../../core/export";
+import { encodeGIF } from "../../core/encoder";
 import type { Reel } from "../../types";
 import { nanoid } from "nanoid";
 
@@ -21,6 +22,8 @@ import { nanoid } from "nanoid";
 vi.mock("../../core/encoder", () => ({
   encodeGIF: vi.fn(async () => new Blob(["gif-data"], { type: "image/gif" })),
   encodeAPNG: vi.fn(async () => new Blob(["apng-data"], { type: "image/png" })),
+  applyFocusCrops: vi.fn(async (frames: unknown[]) => frames),
+  applyAnnotations: vi.fn(async (frames: unknown[]) => frames),
 }));
 
 describe("export", () => {
@@ -150,6 +153,20 @@ describe("export", () => {
       expect(onProgress).toHaveBeenCalled();
     });
 
+    it("should skip frames of the given capture types", async () => {
+      mockReel.frames[1].metadata.captureType = "scroll";
+
+      await exportReel(mockReel, {
+        format: "gif",
+        skipCaptureTypes: ["scroll"],
+      });
+
+      const encodedFrames = vi.mocked(encodeGIF).mock.lastCall?.[0];
+      expect(encodedFrames).toHaveLength(1);
+      expect(encodedFrames?.[0].metadata.captureType).toBe("pre-click");
+      expect(mockReel.frames).toHaveLength(2);
+    });
+
     it("should throw error for unsupported format", async () => {
       const options = {
         format: "invalid" as ExportFormat,
@@ -8,6 +8,9 @@ import {
   estimateReelSize,
   formatBytes,
   generateFilename,
+  exportDiagnosticsLog,
+  exportDomDiffLog,
+  exportMetadataJSON,
 } from '../../core/metadata';
 import type { Reel, Frame } from '../../types';
 
@@ -75,6 +78,105 @@ describe('metadata', () => {
     });
   });
 
+  describe('diagnostics', () => {
+    const diagnosedReel: Reel = {
+      ...mockReel,
+      frames: [
+        mockFrame,
+        {
+          ...mockFrame,
+          id: 'frame-2',
+          order: 1,
+          metadata: {
+            ...mockFrame.metadata,
+            captureType: 'post-click',
+            diagnostics: [
+              { type: 'console-warn', message: 'Deprecated prop', time: -20 },
+              {
+                type: 'error',
+                message: 'TypeError: x is undefined',
+                stack: 'TypeError: x is undefined\n    at save (app.js:10:5)',
+                source: 'https://example.com/app.js',
+                line: 10,
+                column: 5,
+                time: 120,
+              },
+            ],
+          },
+        },
+      ],
+    };
+
+    it('should include diagnostics in the metadata JSON', () => {
+      const exported = JSON.parse(exportMetadataJSON(diagnosedReel));
+
+      expect(exported.frames[0].diagnostics).toBeUndefined();
+      expect(exported.frames[1].diagnostics).toHaveLength(2);
+    });
+
+    it('should format diagnostics as a log', () => {
+      expect(exportDiagnosticsLog(diagnosedReel)).toBe(
+        [
+          '[frame 2 -20ms] console-warn: Deprecated prop',
+          '[frame 2 +120ms] error: TypeError: x is undefined (https://example.com/app.js:10:5)',
+          '    TypeError: x is undefined',
+          '    at save (app.js:10:5)',
+        ].join('\n')
+      );
+    });
+
+    it('should return an empty log without diagnostics', () => {
+      expect(exportDiagnosticsLog(mockReel)).toBe('');
+    });
+  });
+
+  describe('exportDomDiffLog', () => {
+    const diffedReel: Reel = {
+      ...mockReel,
+      frames: [
+        mockFrame,
+        {
+          ...mockFrame,
+          id: 'frame-2',
+          order: 1,
+          metadata: {
+            ...mockFrame.metadata,
+            captureType: 'post-click',
+            domDiff: {
+              changes: [
+                { type: 'added', path: 'div#app > p', after: '<p>Saved</p>' },
+                {
+                  type: 'attribute',
+                  path: 'div#app > button',
+                  attribute: 'disabled',
+                  after: '',
+                },
+              ],
+              counts: { added: 1, removed: 0, attribute: 2, text: 0 },
+              truncated: true,
+            },
+          },
+        },
+      ],
+    };
+
+    it('should format DOM changes as a log', () => {
+      expect(exportDomDiffLog(diffedReel)).toBe(
+        [
+          '[frame 2] 1 added, 2 attributes',
+          '+ div#app > p',
+          '    <p>Saved</p>',
+          '~ div#app > button [disabled]: null -> ""',
+          '  … 1 more changes',
+        ].join('\n')
+      );
+    });
+
+    it('should return an empty log without DOM diffs', () => {
+      expect(exportDomDiffLog(mockReel)).toBe('');
+    });
+  });
+
   describe('estimateReelSize', () => {
     it('should estimate size from data URLs', () => {
       const size = estimateReelSize([mockFrame]);
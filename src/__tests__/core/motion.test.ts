@@ -0,0 +1,110 @@
+/**
+ * Tests for motion capture
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { MotionCollector } from '../../core/motion';
+import { measureImageChange } from '../../core/capture';
+import type { Frame } from '../../types';
+
+// Images are compared by value: identical images are unchanged, anything
+// else counts as 50% of pixels changed
+vi.mock('../../core/capture', () => ({
+  measureImageChange: vi.fn((before: string, after: string) =>
+    Promise.resolve(before === after ? 0 : 0.5)
+  ),
+}));
+
+function createFrame(image: string, timestamp: number): Frame {
+  return {
+    id: `frame-${timestamp}`,
+    reelId: 'reel-1',
+    image,
+    timestamp,
+    order: 0,
+    metadata: {
+      viewportCoords: { x: 0, y: 0 },
+      relativeCoords: { x: 0, y: 0 },
+      elementPath: 'button',
+      buttonType: 0,
+      viewportSize: { width: 800, height: 600 },
+      scrollPosition: { x: 0, y: 0 },
+      captureType: 'post-click',
+    },
+  };
+}
+
+describe('motion', () => {
+  const options = { maxFrames: 4, threshold: 1 };
+
+  it('should keep changed frames as motion frames', async () => {
+    const collector = new MotionCollector(options);
+
+    expect(await collector.add(createFrame('a', 0))).toBe(true);
+    expect(await collector.add(createFrame('b', 100))).toBe(true);
+
+    const frames = await collector.finish(createFrame('c', 200));
+    expect(frames.map((frame) => frame.image)).toEqual(['a', 'b']);
+    expect(frames[0].metadata.captureType).toBe('motion');
+    expect(frames[1].timestamp).toBe(100);
+  });
+
+  it('should drop frames that match the last kept frame', async () => {
+    const collector = new MotionCollector(options);
+
+    await collector.add(createFrame('a', 0));
+    expect(await collector.add(createFrame('a', 100))).toBe(false);
+    await collector.add(createFrame('b', 200));
+
+    const frames = await collector.finish(createFrame('c', 300));
+    expect(frames.map((frame) => frame.timestamp)).toEqual([0, 200]);
+  });
+
+  it('should treat changes within the threshold as duplicates', async () => {
+    const collector = new MotionCollector({ ...options, threshold: 60 });
+
+    await collector.add(createFrame('a', 0));
+
+    expect(await collector.add(createFrame('b', 100))).toBe(false);
+  });
+
+  it('should drop trailing frames that look like the final frame', async () => {
+    const collector = new MotionCollector(options);
+
+    await collector.add(createFrame('a', 0));
+    await collector.add(createFrame('b', 100));
+
+    const frames = await collector.finish(createFrame('b', 200));
+    expect(frames.map((frame) => frame.image)).toEqual(['a']);
+  });
+
+  it('should thin frames evenly once the limit is reached', async () => {
+    const collector = new MotionCollector(options);
+
+    for (const [image, timestamp] of [
+      ['a', 0],
+      ['b', 100],
+      ['c', 150],
+      ['d', 400],
+      ['e', 500],
+    ] as const) {
+      await collector.add(createFrame(image, timestamp));
+    }
+
+    const frames = await collector.finish(createFrame('z', 600));
+    expect(frames.map((frame) => frame.image)).toEqual(['a', 'c', 'd', 'e']);
+  });
+
+  it('should pass ignore regions to the comparison', async () => {
+    const region = { x: 0, y: 0, width: 0.5, height: 0.5 };
+    const collector = new MotionCollector({
+      ...options,
+      getIgnoreRegions: () => [region],
+    });
+
+    await collector.add(createFrame('a', 0));
+    await collector.add(createFrame('b', 100));
+
+    expect(measureImageChange).toHaveBeenLastCalledWith('a', 'b', [region]);
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Tests for route change tracking
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  NavigationTracker,
+  getRouteChapters,
+  formatRoute,
+} from '../../core/navigation';
+
+describe('navigation', () => {
+  describe('NavigationTracker', () => {
+    const startUrl = window.location.href;
+    let onNavigate: ReturnType<typeof vi.fn>;
+    let tracker: NavigationTracker;
+
+    beforeEach(() => {
+      onNavigate = vi.fn();
+      tracker = new NavigationTracker(onNavigate);
+      tracker.install();
+    });
+
+    afterEach(() => {
+      tracker.uninstall();
+      window.history.replaceState(null, '', startUrl);
+    });
+
+    it('should report pushState and replaceState route changes', () => {
+      window.history.pushState({}, '', '/cart');
+      window.history.replaceState({}, '', '/cart?step=2');
+
+      expect(onNavigate).toHaveBeenNthCalledWith(1, {
+        trigger: 'push',
+        from: startUrl,
+        to: new URL('/cart', startUrl).href,
+      });
+      expect(onNavigate).toHaveBeenNthCalledWith(2, {
+        trigger: 'replace',
+        from: new URL('/cart', startUrl).href,
+        to: new URL('/cart?step=2', startUrl).href,
+      });
+      expect(window.location.pathname).toBe('/cart');
+    });
+
+    it('should ignore state updates that keep the address', () => {
+      window.history.replaceState({ scroll: 100 }, '');
+
+      expect(onNavigate).not.toHaveBeenCalled();
+    });
+
+    it('should report back/forward navigation', () => {
+      window.history.pushState({}, '', '/orders');
+      onNavigate.mockClear();
+
+      // Going back changes the address without the wrapped methods
+      History.prototype.replaceState.call(window.history, {}, '', '/');
+      window.dispatchEvent(new PopStateEvent('popstate'));
+
+      expect(onNavigate).toHaveBeenCalledWith({
+        trigger: 'pop',
+        from: new URL('/orders', startUrl).href,
+        to: new URL('/', startUrl).href,
+      });
+    });
+
+    it('should restore the original history methods on uninstall', () => {
+      tracker.uninstall();
+
+      expect(tracker.installed).toBe(false);
+      window.history.pushState({}, '', '/settings');
+      expect(onNavigate).not.toHaveBeenCalled();
+    });
+
+    it('should leave wrappers installed on top of its own in place', () => {
+      const trackedPushState = window.history.pushState;
+      const outerPushState = function (
+        this: History,
+        ...args: Parameters<History['pushState']>
+      ) {
+        return trackedPushState.apply(this, args);
+      };
+      window.history.pushState = outerPushState;
+
+      tracker.uninstall();
+
+      expect(window.history.pushState).toBe(outerPushState);
+      window.history.pushState = trackedPushState;
+    });
+  });
+
+  describe('getRouteChapters', () => {
+    it('should start a chapter wherever the address changes', () => {
+      const chapters = getRouteChapters([
+        { metadata: { url: 'https://app.test/', pageTitle: 'Home' } },
+        { metadata: { url: 'https://app.test/', pageTitle: 'Home' } },
+        { metadata: { url: 'https://app.test/cart', pageTitle: 'Cart' } },
+        { metadata: {} },
+        { metadata: { url: 'https://app.test/cart' } },
+        { metadata: { url: 'https://app.test/' } },
+      ]);
+
+      expect(chapters).toEqual([
+        { frameIndex: 0, url: 'https://app.test/', title: 'Home' },
+        { frameIndex: 2, url: 'https://app.test/cart', title: 'Cart' },
+        { frameIndex: 5, url: 'https://app.test/' },
+      ]);
+    });
+
+    it('should find no chapters in reels recorded without addresses', () => {
+      expect(getRouteChapters([{ metadata: {} }, {}])).toEqual([]);
+    });
+  });
+
+  describe('formatRoute', () => {
+    it('should show the path, query and fragment', () => {
+      expect(formatRoute('https://app.test/orders/1?tab=items#notes')).toBe(
+        '/orders/1?tab=items#notes'
+      );
+      expect(formatRoute('not a url')).toBe('not a url');
+    });
+  });
+});
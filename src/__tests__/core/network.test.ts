@@ -0,0 +1,142 @@
+/**
+ * Tests for network activity tracking
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { NetworkTracker, untrackedFetch } from '../../core/network';
+
+/**
+ * Minimal XMLHttpRequest that finishes when the test calls respond()
+ */
+class FakeXHR extends EventTarget {
+  status = 0;
+  open(_method: string, _url: string) {}
+  send() {}
+  respond(status: number) {
+    this.status = status;
+    this.dispatchEvent(new Event('loadend'));
+  }
+}
+const { open: nativeOpen, send: nativeSend } = FakeXHR.prototype;
+
+describe('network', () => {
+  let tracker: NetworkTracker;
+  let win: Window & typeof globalThis;
+  let fetchMock: ReturnType<typeof vi.fn>;
+  let respond: (status: number) => void;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    fetchMock = vi.fn(
+      () =>
+        new Promise((resolve) => {
+          respond = (status) => resolve({ status });
+        })
+    );
+    win = {
+      fetch: fetchMock,
+      XMLHttpRequest: FakeXHR,
+    } as unknown as Window & typeof globalThis;
+    tracker = new NetworkTracker();
+    tracker.install(win);
+  });
+
+  afterEach(() => {
+    tracker.uninstall();
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('should record fetch requests without query strings', async () => {
+    const since = Date.now();
+    const request = win.fetch('/api/items?token=secret', { method: 'post' });
+    await vi.advanceTimersByTimeAsync(30);
+    respond(201);
+    await request;
+
+    expect(tracker.getRequestsSince(since)).toEqual([
+      {
+        type: 'fetch',
+        method: 'POST',
+        url: '/api/items',
+        start: 0,
+        duration: 30,
+        status: 201,
+      },
+    ]);
+  });
+
+  it('should record XMLHttpRequests', () => {
+    const since = Date.now();
+    const xhr = new win.XMLHttpRequest() as unknown as FakeXHR;
+    xhr.open('GET', '/api/user');
+    xhr.send();
+
+    expect(tracker.getPendingCount(since)).toBe(1);
+
+    xhr.respond(404);
+
+    expect(tracker.getPendingCount(since)).toBe(0);
+    expect(tracker.getRequestsSince(since)[0]).toMatchObject({
+      type: 'xhr',
+      url: '/api/user',
+      status: 404,
+    });
+  });
+
+  it('should wait for requests started since the click', async () => {
+    const since = Date.now();
+    win.fetch('/api/items');
+    setTimeout(() => respond(200), 500);
+
+    const result = tracker.waitForIdle(since, 4000);
+    await vi.advanceTimersByTimeAsync(1000);
+
+    const activity = await result;
+    expect(activity.idle).toBe(true);
+    expect(activity.requestCount).toBe(1);
+    expect(activity.waitDuration).toBeGreaterThanOrEqual(550);
+    expect(activity.waitDuration).toBeLessThan(1000);
+  });
+
+  it('should not wait for requests started before the click', async () => {
+    win.fetch('/api/long-poll');
+    await vi.advanceTimersByTimeAsync(10);
+
+    const result = tracker.waitForIdle(Date.now(), 4000);
+    await vi.advanceTimersByTimeAsync(200);
+
+    expect(await result).toMatchObject({ idle: true, requestCount: 0 });
+  });
+
+  it('should give up after the timeout', async () => {
+    const since = Date.now();
+    win.fetch('/api/slow');
+
+    const result = tracker.waitForIdle(since, 1000);
+    await vi.advanceTimersByTimeAsync(1100);
+
+    const activity = await result;
+    expect(activity.idle).toBe(false);
+    expect(activity.requests[0].duration).toBeUndefined();
+  });
+
+  it('should restore the original fetch and XMLHttpRequest', () => {
+    tracker.uninstall();
+
+    expect(win.fetch).toBe(fetchMock);
+    expect(FakeXHR.prototype.open).toBe(nativeOpen);
+    expect(FakeXHR.prototype.send).toBe(nativeSend);
+    expect(tracker.installed).toBe(false);
+  });
+
+  it('should let the recorder fetch without being tracked', async () => {
+    const since = Date.now();
+    vi.stubGlobal('fetch', vi.fn());
+
+    untrackedFetch('/logo.png');
+
+    expect(fetchMock).toHaveBeenCalledWith('/logo.png');
+    expect(tracker.getRequestsSince(since)).toHaveLength(0);
+  });
+});
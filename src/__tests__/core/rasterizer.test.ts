@@ -0,0 +1,215 @@
+/**
+ * Tests for rasterizer adapters
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  createMemoryRasterizer,
+  getRasterizer,
+  htmlToImageRasterizer,
+} from '../../core/rasterizer';
+import { ResourceCache, preloadImages } from '../../core/resource-cache';
+import { NetworkTracker } from '../../core/network';
+import { captureFrame, captureManualFrame } from '../../core/capture';
+import * as htmlToImage from 'html-to-image';
+
+vi.mock('html-to-image', () => ({
+  toBlob: vi.fn(() =>
+    Promise.resolve(new Blob(['mock'], { type: 'image/png' }))
+  ),
+  getFontEmbedCSS: vi.fn(() => Promise.resolve('@font-face {}')),
+}));
+
+describe('rasterizer', () => {
+  let root: HTMLElement;
+  let button: HTMLElement;
+  let mockEvent: PointerEvent;
+
+  beforeEach(() => {
+    root = document.createElement('div');
+    document.body.appendChild(root);
+
+    button = document.createElement('button');
+    button.textContent = 'Click me';
+    root.appendChild(button);
+
+    mockEvent = new PointerEvent('pointerdown', { clientX: 10, clientY: 20 });
+    Object.defineProperty(mockEvent, 'target', { value: button });
+  });
+
+  afterEach(() => {
+    document.body.innerHTML = '';
+    vi.clearAllMocks();
+  });
+
+  describe('htmlToImageRasterizer', () => {
+    it('should render through html-to-image', async () => {
+      const blob = await htmlToImageRasterizer.rasterize(root, {
+        pixelRatio: 2,
+      });
+
+      expect(blob.type).toBe('image/png');
+      expect(htmlToImage.toBlob).toHaveBeenCalledWith(
+        root,
+        expect.objectContaining({ pixelRatio: 2, cacheBust: true })
+      );
+    });
+
+    it('should throw when html-to-image returns no image', async () => {
+      vi.mocked(htmlToImage.toBlob).mockResolvedValueOnce(null);
+
+      await expect(
+        htmlToImageRasterizer.rasterize(root, { pixelRatio: 2 })
+      ).rejects.toThrow('Failed to generate blob from element');
+    });
+
+    it('should reuse cached font CSS across renders', async () => {
+      const resourceCache = new ResourceCache();
+
+      await htmlToImageRasterizer.rasterize(root, {
+        pixelRatio: 2,
+        resourceCache,
+      });
+      await htmlToImageRasterizer.rasterize(root, {
+        pixelRatio: 2,
+        resourceCache,
+      });
+
+      expect(htmlToImage.getFontEmbedCSS).toHaveBeenCalledTimes(1);
+      expect(htmlToImage.toBlob).toHaveBeenLastCalledWith(
+        root,
+        expect.objectContaining({ fontEmbedCSS: '@font-face {}' })
+      );
+    });
+
+    it("should keep its own requests out of the click's network activity", async () => {
+      const fetchMock = vi.fn((url: string) =>
+        Promise.resolve({
+          ok: true,
+          status: 200,
+          url,
+          blob: () =>
+            Promise.resolve(new Blob(['logo'], { type: 'image/png' })),
+        })
+      );
+      vi.stubGlobal('fetch', fetchMock);
+      const image = document.createElement('img');
+      image.src = 'https://example.com/logo.png';
+      root.appendChild(image);
+      const resourceCache = new ResourceCache();
+      await preloadImages(root, resourceCache);
+      fetchMock.mockClear();
+
+      const tracker = new NetworkTracker();
+      tracker.install();
+      const clickTime = Date.now();
+      // html-to-image fetches (cache-busted) resources with fetchRequestInit,
+      // while the page's own requests may overlap the render
+      vi.mocked(htmlToImage.toBlob).mockImplementationOnce(
+        async (_element, options) => {
+          await fetch(
+            'https://example.com/logo.png?1700000000000',
+            options?.fetchRequestInit
+          );
+          await fetch(
+            'https://example.com/background.png?1700000000000',
+            options?.fetchRequestInit
+          );
+          await fetch('/api/cart');
+          return new Blob(['mock'], { type: 'image/png' });
+        }
+      );
+
+      try {
+        await htmlToImageRasterizer.rasterize(root, {
+          pixelRatio: 2,
+          resourceCache,
+        });
+
+        expect(tracker.getRequestsSince(clickTime)).toEqual([
+          expect.objectContaining({ url: '/api/cart' }),
+        ]);
+        // Cached images are served without fetching them again
+        expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+          'https://example.com/background.png?1700000000000',
+          '/api/cart',
+        ]);
+      } finally {
+        tracker.uninstall();
+        vi.unstubAllGlobals();
+      }
+    });
+
+    it('should be the default rasterizer', () => {
+      const memory = createMemoryRasterizer();
+
+      expect(getRasterizer({})).toBe(htmlToImageRasterizer);
+      expect(getRasterizer({ rasterizer: memory })).toBe(memory);
+    });
+  });
+
+  describe('createMemoryRasterizer', () => {
+    it('should produce identical images for identical DOM states', async () => {
+      const rasterizer = createMemoryRasterizer();
+      const options = { root, scale: 1, rasterizer };
+
+      const first = await captureFrame(
+        root,
+        mockEvent,
+        options,
+        'reel-1',
+        0,
+        'post-click'
+      );
+      const second = await captureFrame(
+        root,
+        mockEvent,
+        options,
+        'reel-1',
+        1,
+        'post-click'
+      );
+      button.textContent = 'Clicked';
+      const third = await captureFrame(
+        root,
+        mockEvent,
+        options,
+        'reel-1',
+        2,
+        'post-click'
+      );
+
+      expect(second.image).toBe(first.image);
+      expect(third.image).not.toBe(first.image);
+      expect(htmlToImage.toBlob).not.toHaveBeenCalled();
+    });
+
+    it('should record every render', async () => {
+      const rasterizer = createMemoryRasterizer();
+
+      await captureManualFrame(
+        root,
+        { root, scale: 3, rasterizer },
+        'reel-1',
+        0
+      );
+
+      expect(rasterizer.calls).toHaveLength(1);
+      expect(rasterizer.calls[0].options.pixelRatio).toBe(3);
+    });
+
+    it('should use a custom render function', async () => {
+      const rasterizer = createMemoryRasterizer(() => 'fixed');
+
+      const frame = await captureFrame(
+        root,
+        mockEvent,
+        { root, rasterizer },
+        'reel-1',
+        0
+      );
+
+      expect(frame.image).toBe(`data:image/png;base64,${btoa('fixed')}`);
+    });
+  });
+});
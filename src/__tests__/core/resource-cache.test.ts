@@ -0,0 +1,188 @@
+/**
+ * Tests for the per-recording resource cache
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ResourceCache, preloadImages } from '../../core/resource-cache';
+import { captureFrame } from '../../core/capture';
+import { createMemoryRasterizer } from '../../core/rasterizer';
+
+describe('resource-cache', () => {
+  let root: HTMLElement;
+  let image: HTMLImageElement;
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    root = document.createElement('div');
+    document.body.appendChild(root);
+
+    image = document.createElement('img');
+    image.src = 'https://example.com/logo.png';
+    root.appendChild(image);
+
+    fetchMock = vi.fn(() =>
+      Promise.resolve({
+        ok: true,
+        blob: () => Promise.resolve(new Blob(['logo'], { type: 'image/png' })),
+      })
+    );
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    document.body.innerHTML = '';
+    document.head.innerHTML = '';
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  describe('font CSS', () => {
+    it('should load font CSS once per capture root', async () => {
+      const cache = new ResourceCache();
+      const load = vi.fn(() => Promise.resolve('@font-face {}'));
+
+      await cache.getFontCSS(root, load);
+      const css = await cache.getFontCSS(root, load);
+
+      expect(css).toBe('@font-face {}');
+      expect(load).toHaveBeenCalledTimes(1);
+      expect(cache.getStats().fonts).toEqual({ hits: 1, misses: 1 });
+    });
+
+    it('should reload font CSS after the document changes', async () => {
+      const cache = new ResourceCache();
+      const load = vi.fn(() => Promise.resolve('@font-face {}'));
+
+      await cache.getFontCSS(root, load);
+      const style = document.createElement('style');
+      style.textContent = 'body { font-family: serif; }';
+      document.head.appendChild(style);
+      await cache.getFontCSS(root, load);
+
+      expect(load).toHaveBeenCalledTimes(2);
+      expect(cache.getStats().invalidations).toBe(1);
+    });
+
+    it('should reload font CSS once content uses a new font family', async () => {
+      const cache = new ResourceCache();
+      const load = vi.fn(() => Promise.resolve('@font-face {}'));
+      root.style.fontFamily = '"Brand Sans", sans-serif';
+
+      await cache.getFontCSS(root, load);
+      // A dialog opened by a click, in a font nothing used before
+      const dialog = document.createElement('div');
+      dialog.style.fontFamily = 'Brand Serif';
+      root.appendChild(dialog);
+      await cache.getFontCSS(root, load);
+      // Fewer families than the cached CSS was built for
+      dialog.remove();
+      await cache.getFontCSS(root, load);
+
+      expect(load).toHaveBeenCalledTimes(2);
+      expect(cache.getStats().fonts).toEqual({ hits: 1, misses: 2 });
+    });
+
+    it('should retry font CSS that failed to load', async () => {
+      const cache = new ResourceCache();
+      const load = vi
+        .fn()
+        .mockRejectedValueOnce(new Error('CORS'))
+        .mockResolvedValueOnce('@font-face {}');
+
+      await expect(cache.getFontCSS(root, load)).rejects.toThrow('CORS');
+      await expect(cache.getFontCSS(root, load)).resolves.toBe('@font-face {}');
+    });
+  });
+
+  describe('images', () => {
+    it('should load images without touching them', async () => {
+      const cache = new ResourceCache();
+
+      await preloadImages(root, cache);
+
+      expect(fetchMock).toHaveBeenCalledWith('https://example.com/logo.png');
+      await expect(
+        cache.peekImageDataURL('https://example.com/logo.png')
+      ).resolves.toMatch(/^data:image\/png;base64,/);
+      expect(image.getAttribute('src')).toBe('https://example.com/logo.png');
+    });
+
+    it('should fetch each image once across captures', async () => {
+      const cache = new ResourceCache();
+      const sources: string[] = [];
+      const rasterizer = createMemoryRasterizer((element) => {
+        sources.push(element.querySelector('img')?.src ?? '');
+        return 'frame';
+      });
+      const options = { root, rasterizer, resourceCache: cache };
+      const event = new PointerEvent('pointerdown', { clientX: 0, clientY: 0 });
+
+      await captureFrame(root, event, options, 'reel-1', 0, 'post-click');
+      await captureFrame(root, event, options, 'reel-1', 1, 'post-click');
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(cache.getStats().images).toEqual({ hits: 1, misses: 1 });
+      expect(rasterizer.calls[1].options.resourceCache).toBe(cache);
+      // The page's images are never rewritten, not even during a render
+      expect(sources).toEqual([
+        'https://example.com/logo.png',
+        'https://example.com/logo.png',
+      ]);
+    });
+
+    it('should answer requests for cached images without fetching', async () => {
+      const cache = new ResourceCache();
+      await preloadImages(root, cache);
+      fetchMock.mockClear();
+
+      const response = await cache.getImageResponse(
+        'https://example.com/logo.png?1700000000000'
+      );
+
+      expect(fetchMock).not.toHaveBeenCalled();
+      expect(response?.headers.get('Content-Type')).toBe('image/png');
+      await expect(response?.text()).resolves.toBe('logo');
+    });
+
+    it('should leave images that fail to load to the rasterizer', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      fetchMock.mockResolvedValueOnce({ ok: false, status: 404 });
+      const cache = new ResourceCache();
+      await preloadImages(root, cache);
+
+      await expect(
+        cache.getImageResponse('https://example.com/logo.png')
+      ).resolves.toBeNull();
+      await expect(
+        cache.getImageResponse('https://example.com/other.png')
+      ).resolves.toBeNull();
+    });
+
+    it('should skip excluded images', async () => {
+      const excluded = document.createElement('img');
+      excluded.src = 'https://example.com/secret.png';
+      excluded.setAttribute('data-screenshot-exclude', 'true');
+      root.appendChild(excluded);
+
+      await preloadImages(root, new ResourceCache());
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(fetchMock).not.toHaveBeenCalledWith(
+        'https://example.com/secret.png'
+      );
+    });
+  });
+
+  it('should describe hit rates', async () => {
+    const cache = new ResourceCache();
+    const load = () => Promise.resolve('');
+
+    await cache.getFontCSS(root, load);
+    await cache.getFontCSS(root, load);
+    await cache.getFontCSS(root, load);
+
+    expect(cache.describeStats()).toBe(
+      'fonts 2/3 hits (67%), images unused, 0 invalidation(s)'
+    );
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Tests for event-driven settlement detection
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { waitForSettle } from '../../core/settle';
+
+describe('settle', () => {
+  let root: HTMLElement;
+  const options = { quietPeriod: 100, timeout: 1000 };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    root = document.createElement('div');
+    document.body.appendChild(root);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    document.body.innerHTML = '';
+  });
+
+  // Mutates the element every 20ms for the given time
+  const keepMutating = (element: HTMLElement, duration: number) => {
+    const interval = setInterval(() => {
+      element.textContent = String(Date.now());
+    }, 20);
+    setTimeout(() => clearInterval(interval), duration);
+  };
+
+  it('should settle once the page stays quiet', async () => {
+    const result = waitForSettle(root, options);
+    await vi.advanceTimersByTimeAsync(150);
+
+    expect(await result).toEqual({
+      settled: true,
+      duration: 100,
+      mutations: 0,
+    });
+  });
+
+  it('should wait for DOM mutations to stop', async () => {
+    const result = waitForSettle(root, options);
+    keepMutating(root, 300);
+    await vi.advanceTimersByTimeAsync(1000);
+
+    const { settled, duration, mutations } = await result;
+    expect(settled).toBe(true);
+    expect(duration).toBeGreaterThanOrEqual(400);
+    expect(mutations).toBeGreaterThan(0);
+  });
+
+  it('should time out while the page keeps changing', async () => {
+    const result = waitForSettle(root, options);
+    keepMutating(root, 2000);
+    await vi.advanceTimersByTimeAsync(1100);
+
+    expect((await result).settled).toBe(false);
+  });
+
+  it('should ignore mutations in ignored regions', async () => {
+    const spinner = document.createElement('div');
+    spinner.setAttribute('data-screenshot-ignore-change', '');
+    const clock = document.createElement('div');
+    clock.className = 'clock';
+    root.append(spinner, clock);
+
+    const result = waitForSettle(root, {
+      ...options,
+      ignoreSelector: '.clock',
+    });
+    keepMutating(spinner, 2000);
+    keepMutating(clock, 2000);
+    await vi.advanceTimersByTimeAsync(150);
+
+    expect(await result).toMatchObject({ settled: true, mutations: 0 });
+  });
+
+  it('should wait for running transitions to end', async () => {
+    const panel = document.createElement('div');
+    root.appendChild(panel);
+
+    const result = waitForSettle(root, options);
+    panel.dispatchEvent(new Event('transitionrun', { bubbles: true }));
+    setTimeout(() => {
+      panel.dispatchEvent(new Event('transitionend', { bubbles: true }));
+    }, 500);
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect((await result).duration).toBeGreaterThanOrEqual(600);
+  });
+
+  it('should wait for pending images to load', async () => {
+    const image = document.createElement('img');
+    root.appendChild(image);
+    let complete = false;
+    vi.spyOn(image, 'complete', 'get').mockImplementation(() => complete);
+    setTimeout(() => {
+      complete = true;
+    }, 400);
+
+    const result = waitForSettle(root, options);
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect((await result).duration).toBeGreaterThanOrEqual(450);
+  });
+
+  it('should not wait for lazy or offscreen images that never load', async () => {
+    const lazy = document.createElement('img');
+    lazy.loading = 'lazy';
+    const offscreen = document.createElement('img');
+    vi.spyOn(offscreen, 'getBoundingClientRect').mockReturnValue(
+      new DOMRect(0, window.innerHeight + 500, 100, 100)
+    );
+    root.append(lazy, offscreen);
+    [lazy, offscreen].forEach((image) =>
+      vi.spyOn(image, 'complete', 'get').mockReturnValue(false)
+    );
+
+    const result = waitForSettle(root, options);
+    await vi.advanceTimersByTimeAsync(150);
+
+    expect(await result).toMatchObject({ settled: true, duration: 100 });
+  });
+
+  it('should wait for finite animations but not infinite ones', async () => {
+    const panel = document.createElement('div');
+    root.appendChild(panel);
+    const animation = (iterations: number) =>
+      ({
+        playState: 'running',
+        effect: { target: panel, getComputedTiming: () => ({ iterations }) },
+      }) as unknown as Animation;
+    let animations = [animation(Infinity), animation(1)];
+    Object.defineProperty(document, 'getAnimations', {
+      configurable: true,
+      value: () => animations,
+    });
+    setTimeout(() => {
+      animations = [animation(Infinity)];
+    }, 300);
+
+    const result = waitForSettle(root, options);
+    await vi.advanceTimersByTimeAsync(1000);
+    delete (document as { getAnimations?: unknown }).getAnimations;
+
+    const { settled, duration } = await result;
+    expect(settled).toBe(true);
+    expect(duration).toBeGreaterThanOrEqual(350);
+    expect(duration).toBeLessThan(1000);
+  });
+});
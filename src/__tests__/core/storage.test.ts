@@ -8,7 +8,7 @@ import {
   getStorageService,
   resetStorageService,
 } from "../../core/storage";
-import type { Frame, Reel } from "../../types";
+import type { Annotation, Frame, Reel } from "../../types";
 import { nanoid } from "nanoid";
 
 describe("StorageService", () => {
@@ -160,6 +160,27 @@ describe("StorageService", () => {
       expect(loaded?.frames[3].order).toBe(3);
     });
 
+    it("should restore DOM snapshot styles stored once per reel", async () => {
+      const reel = createMockReel(2);
+      const html = (text: string) =>
+        `<!DOCTYPE html><html><head><style data-click-reel-styles="">.card { color: red; }</style></head><body>${text}</body></html>`;
+      reel.frames.forEach((frame, i) => {
+        frame.metadata.domSnapshot = {
+          html: html(`Frame ${i}`),
+          baseUrl: "https://app.test/",
+          viewportSize: { width: 1920, height: 1080 },
+          scrollPosition: { x: 0, y: 0 },
+        };
+      });
+      await storage.saveReel(reel);
+
+      const loaded = await storage.loadReel(reel.id);
+      expect(loaded?.frames.map((f) => f.metadata.domSnapshot?.html)).toEqual([
+        html("Frame 0"),
+        html("Frame 1"),
+      ]);
+    });
+
     it("should return null for non-existent reel", async () => {
       const loaded = await storage.loadReel("non-existent");
       expect(loaded).toBeNull();
@@ -229,6 +250,36 @@ describe("StorageService", () => {
     });
   });
 
+  describe("updateFrameAnnotations", () => {
+    it("should save annotations without changing the image", async () => {
+      const reel = createMockReel(2);
+      await storage.saveReel(reel);
+      const annotation: Annotation = {
+        id: "note-1",
+        type: "arrow",
+        points: [
+          { x: 10, y: 10 },
+          { x: 50, y: 50 },
+        ],
+        color: "#ff0000",
+        strokeWidth: 4,
+      };
+
+      await storage.updateFrameAnnotations(reel.frames[1].id, [annotation]);
+
+      const loaded = await storage.loadReel(reel.id);
+      expect(loaded?.frames[1].annotations).toEqual([annotation]);
+      expect(loaded?.frames[1].image).toBe(reel.frames[1].image);
+      expect(loaded?.frames[0].annotations).toBeUndefined();
+    });
+
+    it("should throw error for non-existent frame", async () => {
+      await expect(
+        storage.updateFrameAnnotations("non-existent", [])
+      ).rejects.toThrow("Frame not found");
+    });
+  });
+
   describe("deleteReel", () => {
     it("should delete reel and all frames", async () => {
       const reel = createMockReel(5);
@@ -5,6 +5,7 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import {
   getElementPath,
+  getElementSelectors,
   shouldExcludeElement,
   shouldPreserveElement,
   getViewportCoords,
@@ -14,7 +15,18 @@ import {
   isWithinRoot,
   cloneAndCleanDOM,
   createMarkerElement,
+  createTargetHighlightElement,
+  getMarkerColor,
   injectMarker,
+  createDragTrailElement,
+  getRootOrigin,
+  resolveCaptureRoot,
+  getEventTarget,
+  closestComposed,
+  containsComposed,
+  querySelectorAllComposed,
+  getSameOriginFrames,
+  getFrameOffset,
 } from '../../utils/dom-utils';
 
 describe('dom-utils', () => {
@@ -61,6 +73,197 @@ describe('dom-utils', () => {
       const path = getElementPath(element2, root);
       expect(path).toContain('button:nth-child(2)');
     });
+
+    it('should pierce open shadow roots with a >>> separator', () => {
+      const host = document.createElement('my-widget');
+      host.id = 'widget';
+      root.appendChild(host);
+      const shadow = host.attachShadow({ mode: 'open' });
+      const wrapper = document.createElement('div');
+      const button = document.createElement('button');
+      wrapper.appendChild(button);
+      shadow.appendChild(wrapper);
+
+      expect(getElementPath(button, root)).toBe('#widget >>> div > button');
+    });
+
+    it('should not add a separator when the root is inside the same shadow root', () => {
+      const host = document.createElement('my-widget');
+      root.appendChild(host);
+      const shadow = host.attachShadow({ mode: 'open' });
+      const shadowRoot = document.createElement('section');
+      const button = document.createElement('button');
+      shadowRoot.appendChild(button);
+      shadow.appendChild(shadowRoot);
+
+      expect(getElementPath(button, shadowRoot)).toBe('button');
+    });
+
+    it('should skip selectors that match other elements in the root', () => {
+      root.innerHTML = `
+        <button data-testid="save" id="save-draft">Draft</button>
+        <button data-testid="save">Publish</button>
+      `;
+      const draft = root.querySelector('button')!;
+
+      expect(getElementSelectors(draft, root)[0]).toEqual({
+        selector: '#save-draft',
+        strategy: 'id',
+      });
+    });
+
+    it('should fall back from test IDs to data-cy', () => {
+      root.innerHTML = '<button data-cy="checkout">Buy</button>';
+
+      expect(getElementPath(root.querySelector('button'), root)).toBe('[data-cy="checkout"]');
+    });
+
+    it('should build role selectors from the accessible name', () => {
+      root.innerHTML = '<div><button>Save</button><button>Cancel</button></div>';
+      const cancel = root.querySelectorAll('button')[1] as HTMLElement;
+
+      expect(getElementSelectors(cancel, root)[0]).toEqual({
+        selector: 'role=button[name="Cancel"]',
+        strategy: 'role',
+      });
+    });
+
+    it('should use unique classes, ignoring generated ones', () => {
+      root.innerHTML = `
+        <a class="css-1x2y3z nav-link home-link">Home</a>
+        <a class="css-1x2y3z nav-link">Docs</a>
+      `;
+      const home = root.querySelector('a')!;
+
+      expect(getElementSelectors(home, root)).toEqual([
+        { selector: 'a.home-link', strategy: 'class' },
+        { selector: 'a:nth-child(1)', strategy: 'structural' },
+      ]);
+    });
+
+    it('should follow the configured strategy order and list fallbacks', () => {
+      root.innerHTML = '<button id="submit" data-testid="submit-button">Send</button>';
+      const button = root.querySelector('button')!;
+
+      expect(getElementSelectors(button, root, ['id', 'test-id', 'structural'])).toEqual([
+        { selector: '#submit', strategy: 'id' },
+        { selector: '[data-testid="submit-button"]', strategy: 'test-id' },
+        { selector: 'button', strategy: 'structural' },
+      ]);
+    });
+
+    it('should always end with a structural path', () => {
+      root.innerHTML = '<p>One</p><span></span><p>Two</p>';
+      const second = root.querySelectorAll('p')[1] as HTMLElement;
+
+      expect(getElementSelectors(second, root, [])).toEqual([
+        { selector: 'p:nth-child(3)', strategy: 'structural' },
+      ]);
+    });
+
+    it('should escape quotes in attribute values', () => {
+      root.innerHTML = '<button data-testid=\'say "hi"\'>Hi</button>';
+      const button = root.querySelector('button')!;
+      const [best] = getElementSelectors(button, root);
+
+      expect(best.selector).toBe('[data-testid="say \\"hi\\""]');
+      expect(root.querySelector(best.selector)).toBe(button);
+    });
+  });
+
+  describe('same-origin iframes', () => {
+    let frame: HTMLIFrameElement;
+    let frameButton: HTMLElement;
+
+    beforeEach(() => {
+      frame = document.createElement('iframe');
+      frame.id = 'editor';
+      root.appendChild(frame);
+      const frameDocument = frame.contentDocument as Document;
+      const toolbar = frameDocument.createElement('div');
+      frameButton = frameDocument.createElement('button');
+      toolbar.appendChild(frameButton);
+      frameDocument.body.appendChild(toolbar);
+    });
+
+    it('should find iframes with accessible documents', () => {
+      expect(getSameOriginFrames(root)).toEqual([frame]);
+    });
+
+    it('should prefix paths inside an iframe with the iframe path', () => {
+      expect(getElementPath(frameButton, root)).toBe('#editor >>> div > button');
+    });
+
+    it('should offset iframe elements by the iframe content box', () => {
+      vi.spyOn(frame, 'getBoundingClientRect').mockReturnValue({
+        left: 40,
+        top: 100,
+        width: 300,
+        height: 200,
+        right: 340,
+        bottom: 300,
+        x: 40,
+        y: 100,
+        toJSON: () => ({}),
+      });
+      vi.spyOn(frame, 'clientLeft', 'get').mockReturnValue(2);
+      vi.spyOn(frame, 'clientTop', 'get').mockReturnValue(2);
+
+      expect(getFrameOffset(frameButton)).toEqual({ x: 42, y: 102 });
+      expect(getFrameOffset(root)).toEqual({ x: 0, y: 0 });
+    });
+  });
+
+  describe('shadow DOM traversal', () => {
+    let host: HTMLElement;
+    let inner: HTMLElement;
+
+    beforeEach(() => {
+      host = document.createElement('my-widget');
+      root.appendChild(host);
+      const shadow = host.attachShadow({ mode: 'open' });
+      inner = document.createElement('span');
+      inner.setAttribute('data-screenshot-exclude', 'true');
+      shadow.appendChild(inner);
+
+      // A component nested inside the first one
+      const nestedHost = document.createElement('my-nested');
+      shadow.appendChild(nestedHost);
+      const nestedShadow = nestedHost.attachShadow({ mode: 'open' });
+      const nestedInner = document.createElement('span');
+      nestedInner.setAttribute('data-screenshot-exclude', 'true');
+      nestedShadow.appendChild(nestedInner);
+    });
+
+    it('should find matches inside nested open shadow roots', () => {
+      const matches = querySelectorAllComposed(root, '[data-screenshot-exclude]');
+
+      expect(matches).toHaveLength(2);
+      expect(matches[0]).toBe(inner);
+    });
+
+    it('should match ancestors outside the shadow root', () => {
+      root.classList.add('pii-disable');
+
+      expect(closestComposed(inner, '.pii-disable')).toBe(root);
+      expect(closestComposed(inner, '.missing')).toBeNull();
+    });
+
+    it('should contain elements inside shadow roots', () => {
+      expect(containsComposed(root, inner)).toBe(true);
+      expect(containsComposed(document.createElement('div'), inner)).toBe(false);
+    });
+
+    it('should return the element inside the shadow root as the event target', () => {
+      let seen: HTMLElement | null = null;
+      root.addEventListener('click', (event) => {
+        seen = getEventTarget(event);
+      });
+
+      inner.dispatchEvent(new MouseEvent('click', { bubbles: true, composed: true }));
+
+      expect(seen).toBe(inner);
+    });
   });
 
   describe('shouldExcludeElement', () => {
@@ -121,6 +324,63 @@ describe('dom-utils', () => {
       const coords = getRelativeCoords(event, root);
       expect(coords).toEqual({ x: 100, y: 150 });
     });
+
+    it('should account for the root element scroll offset', () => {
+      vi.spyOn(root, 'getBoundingClientRect').mockReturnValue({
+        left: 50,
+        top: 100,
+        width: 500,
+        height: 500,
+        right: 550,
+        bottom: 600,
+        x: 50,
+        y: 100,
+        toJSON: () => ({}),
+      });
+      root.scrollTop = 40;
+
+      const event = new PointerEvent('pointerdown', {
+        clientX: 150,
+        clientY: 250,
+      });
+
+      expect(getRelativeCoords(event, root)).toEqual({ x: 100, y: 190 });
+    });
+  });
+
+  describe('getRootOrigin', () => {
+    it('should use the document rect for the page root', () => {
+      const origin = getRootOrigin(document.documentElement);
+      const rect = document.documentElement.getBoundingClientRect();
+      expect(origin).toEqual({ x: rect.left, y: rect.top });
+    });
+  });
+
+  describe('resolveCaptureRoot', () => {
+    it('should default to the document element', () => {
+      expect(resolveCaptureRoot()).toBe(document.documentElement);
+    });
+
+    it('should return an element as-is', () => {
+      expect(resolveCaptureRoot(root)).toBe(root);
+    });
+
+    it('should resolve a ref to its current element', () => {
+      expect(resolveCaptureRoot({ current: root })).toBe(root);
+      expect(resolveCaptureRoot({ current: null })).toBe(document.documentElement);
+    });
+
+    it('should resolve a selector', () => {
+      expect(resolveCaptureRoot('#test-root')).toBe(root);
+    });
+
+    it('should fall back to the document for a missing selector', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      expect(resolveCaptureRoot('#missing')).toBe(document.documentElement);
+      expect(warn).toHaveBeenCalled();
+      warn.mockRestore();
+    });
   });
 
   describe('getViewportSize', () => {
@@ -198,6 +458,92 @@ describe('dom-utils', () => {
       const marker = createMarkerElement({ x: 100, y: 200 }, 2);
       expect(marker.style.clipPath).toContain('polygon');
     });
+
+    it('should use the color mapped to the mouse button', () => {
+      const style = { color: '#ff0000', buttonColors: { right: '#0000ff' } };
+
+      expect(getMarkerColor(0, style)).toBe('#ff0000');
+      expect(getMarkerColor(2, style)).toBe('#0000ff');
+      expect(getMarkerColor(-1, style)).toBe('#ff0000');
+    });
+
+    it('should draw ripple rings around the click', () => {
+      const marker = createMarkerElement({ x: 100, y: 200 }, 0, {
+        shape: 'ripple',
+        size: 40,
+      });
+
+      expect(marker.getAttribute('data-click-reel-marker')).toBe('ripple');
+      expect(marker.children).toHaveLength(4);
+      expect(marker.style.left).toBe('80px');
+    });
+
+    it('should draw crosshair lines', () => {
+      const marker = createMarkerElement({ x: 100, y: 200 }, 1, {
+        shape: 'crosshair',
+        buttonColors: { middle: '#00ff00' },
+      });
+
+      expect(marker.children).toHaveLength(4);
+      expect((marker.children[0] as HTMLElement).style.backgroundColor).toBe(
+        'rgb(0, 255, 0)'
+      );
+    });
+
+    it('should put the arrow tip on the click', () => {
+      const marker = createMarkerElement({ x: 100, y: 200 }, 0, {
+        shape: 'arrow',
+      });
+
+      expect(marker.style.left).toBe('100px');
+      expect(marker.style.top).toBe('200px');
+      expect(marker.querySelector('path')).not.toBeNull();
+    });
+
+    it('should number badge markers', () => {
+      const marker = createMarkerElement(
+        { x: 100, y: 200 },
+        0,
+        { shape: 'badge' },
+        3
+      );
+
+      expect(marker.textContent).toBe('3');
+      expect(marker.style.borderRadius).toBe('50%');
+    });
+  });
+
+  describe('createTargetHighlightElement', () => {
+    const box = { x: 100, y: 200, width: 80, height: 30 };
+
+    it('should outline the box with some padding', () => {
+      const highlight = createTargetHighlightElement(box, 'outline', {
+        color: '#00ff00',
+      });
+
+      expect(highlight.getAttribute('data-click-reel-highlight')).toBe('outline');
+      expect(highlight.style.left).toBe('96px');
+      expect(highlight.style.top).toBe('196px');
+      expect(highlight.style.width).toBe('88px');
+      expect(highlight.style.border).toContain('solid');
+      expect(highlight.style.pointerEvents).toBe('none');
+    });
+
+    it('should dim the page with a shadow around the box', () => {
+      const highlight = createTargetHighlightElement(box, 'spotlight', {
+        dim: true,
+      });
+
+      expect(highlight.style.boxShadow).toContain('100000px');
+      expect(highlight.style.boxShadow).toContain('16px');
+    });
+
+    it('should only dim when highlighting is off', () => {
+      const highlight = createTargetHighlightElement(box, 'off', { dim: true });
+
+      expect(highlight.style.boxShadow).toContain('100000px');
+      expect(highlight.style.border).not.toContain('solid');
+    });
   });
 
   describe('injectMarker', () => {
@@ -209,4 +555,34 @@ describe('dom-utils', () => {
       expect(marker).not.toBeNull();
     });
   });
+
+  describe('createDragTrailElement', () => {
+    const points = [
+      { x: 100, y: 100 },
+      { x: 150, y: 120 },
+      { x: 300, y: 200 },
+    ];
+
+    it('should wrap the path in a box around its points', () => {
+      const trail = createDragTrailElement(points, { width: 4 });
+
+      expect(trail.hasAttribute('data-click-reel-drag-trail')).toBe(true);
+      expect(trail.style.position).toBe('absolute');
+      // 16px padding on each side for the stroke, start dot and arrowhead
+      expect(trail.style.left).toBe('84px');
+      expect(trail.style.top).toBe('84px');
+      expect(trail.style.width).toBe('232px');
+      expect(trail.style.height).toBe('132px');
+    });
+
+    it('should draw the path, a start dot and an arrowhead', () => {
+      const trail = createDragTrailElement(points, { color: '#00ff00' });
+
+      const polyline = trail.querySelector('polyline');
+      expect(polyline?.getAttribute('points')?.split(' ')).toHaveLength(3);
+      expect(polyline?.getAttribute('stroke')).toBe('#00ff00');
+      expect(trail.querySelector('circle')).not.toBeNull();
+      expect(trail.querySelector('polygon')).not.toBeNull();
+    });
+  });
 });
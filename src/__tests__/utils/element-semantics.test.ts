@@ -0,0 +1,137 @@
+/**
+ * Tests for element semantics
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  describeTarget,
+  getAccessibleName,
+  getElementRole,
+  getInteractiveTarget,
+  getVisibleText,
+} from '../../utils/element-semantics';
+import { TARGET_TEXT_MAX_LENGTH } from '../../utils/constants';
+
+const render = (html: string): HTMLElement => {
+  const container = document.createElement('div');
+  container.innerHTML = html;
+  document.body.appendChild(container);
+  return container.firstElementChild as HTMLElement;
+};
+
+describe('element-semantics', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  describe('getInteractiveTarget', () => {
+    it('should find the interactive ancestor of a nested element', () => {
+      const button = render('<button><span><svg></svg></span>Save</button>');
+      const icon = button.querySelector('svg') as unknown as HTMLElement;
+
+      expect(getInteractiveTarget(icon)).toBe(button);
+    });
+
+    it('should fall back to the element itself', () => {
+      const paragraph = render('<p>Plain text</p>');
+
+      expect(getInteractiveTarget(paragraph)).toBe(paragraph);
+    });
+  });
+
+  describe('getElementRole', () => {
+    it('should prefer an explicit role', () => {
+      expect(getElementRole(render('<div role="tab switch">Tab</div>'))).toBe(
+        'tab'
+      );
+    });
+
+    it('should imply roles from tags and input types', () => {
+      expect(getElementRole(render('<a href="/home">Home</a>'))).toBe('link');
+      expect(getElementRole(render('<a>Anchor</a>'))).toBeUndefined();
+      expect(getElementRole(render('<input type="checkbox">'))).toBe(
+        'checkbox'
+      );
+      expect(getElementRole(render('<input type="submit">'))).toBe('button');
+      expect(getElementRole(render('<input type="email">'))).toBe('textbox');
+      expect(
+        getElementRole(render('<select><option>A</option></select>'))
+      ).toBe('combobox');
+      expect(getElementRole(render('<select multiple></select>'))).toBe(
+        'listbox'
+      );
+      expect(getElementRole(render('<h2>Title</h2>'))).toBe('heading');
+      expect(getElementRole(render('<div>Box</div>'))).toBeUndefined();
+    });
+  });
+
+  describe('getAccessibleName', () => {
+    it('should use aria-labelledby before aria-label', () => {
+      render('<span id="label-a">Delete</span>');
+      render('<span id="label-b">item</span>');
+      const button = render(
+        '<button aria-labelledby="label-a label-b" aria-label="Remove">X</button>'
+      );
+
+      expect(getAccessibleName(button)).toBe('Delete item');
+    });
+
+    it('should use aria-label over text content', () => {
+      const button = render('<button aria-label="Close dialog">×</button>');
+
+      expect(getAccessibleName(button)).toBe('Close dialog');
+    });
+
+    it('should name fields by their labels, then their placeholder', () => {
+      render('<label for="email">Email address</label>');
+      const labelled = render('<input id="email">');
+      const placeholder = render('<input placeholder="Search">');
+
+      expect(getAccessibleName(labelled)).toBe('Email address');
+      expect(getAccessibleName(placeholder)).toBe('Search');
+    });
+
+    it('should name button inputs by their value', () => {
+      expect(
+        getAccessibleName(render('<input type="submit" value="Send">'))
+      ).toBe('Send');
+      expect(getAccessibleName(render('<input type="submit">'))).toBe('Submit');
+    });
+
+    it('should name images by their alt text', () => {
+      expect(getAccessibleName(render('<img alt="Company logo">'))).toBe(
+        'Company logo'
+      );
+    });
+
+    it('should fall back to text content, then the title', () => {
+      expect(getAccessibleName(render('<a href="/">  Go\n home </a>'))).toBe(
+        'Go home'
+      );
+      expect(getAccessibleName(render('<div title="Settings"></div>'))).toBe(
+        'Settings'
+      );
+      expect(getAccessibleName(render('<div></div>'))).toBeUndefined();
+    });
+  });
+
+  describe('getVisibleText', () => {
+    it('should shorten long text', () => {
+      const text = getVisibleText(render(`<p>${'a'.repeat(500)}</p>`));
+
+      expect(text).toHaveLength(TARGET_TEXT_MAX_LENGTH);
+      expect(text.endsWith('…')).toBe(true);
+    });
+  });
+
+  describe('describeTarget', () => {
+    it('should describe targets by name and role', () => {
+      const box = { x: 0, y: 0, width: 10, height: 10 };
+
+      expect(
+        describeTarget({ tag: 'button', role: 'button', name: 'Save', box })
+      ).toBe('the "Save" button');
+      expect(describeTarget({ tag: 'div', box })).toBe('the div');
+    });
+  });
+});
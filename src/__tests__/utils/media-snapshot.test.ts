@@ -0,0 +1,80 @@
+/**
+ * Tests for canvas and video snapshotting
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  snapshotMediaInPlace,
+  restoreMediaSnapshots,
+} from '../../utils/media-snapshot';
+
+describe('media-snapshot', () => {
+  let root: HTMLElement;
+  let canvas: HTMLCanvasElement;
+
+  beforeEach(() => {
+    root = document.createElement('div');
+    document.body.appendChild(root);
+
+    canvas = document.createElement('canvas');
+    canvas.style.display = 'block';
+    root.appendChild(canvas);
+  });
+
+  afterEach(() => {
+    document.body.innerHTML = '';
+    vi.restoreAllMocks();
+  });
+
+  it('should swap a canvas for an image of its pixels and restore it', () => {
+    vi.spyOn(canvas, 'toDataURL').mockReturnValue(
+      'data:image/png;base64,pixels'
+    );
+
+    const backup = snapshotMediaInPlace(root);
+
+    const image = root.querySelector('img') as HTMLImageElement;
+    expect(backup.swaps).toHaveLength(1);
+    expect(image.src).toBe('data:image/png;base64,pixels');
+    expect(image.nextSibling).toBe(canvas);
+    expect(canvas.style.display).toBe('none');
+    expect(canvas.hasAttribute('data-screenshot-exclude')).toBe(true);
+
+    restoreMediaSnapshots(backup);
+
+    expect(root.querySelector('img')).toBeNull();
+    expect(canvas.style.display).toBe('block');
+    expect(canvas.hasAttribute('data-screenshot-exclude')).toBe(false);
+  });
+
+  it('should show a labeled placeholder for a tainted canvas', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(canvas, 'toDataURL').mockImplementation(() => {
+      throw new DOMException(
+        'Tainted canvases may not be exported',
+        'SecurityError'
+      );
+    });
+
+    const backup = snapshotMediaInPlace(root);
+
+    const image = root.querySelector('img') as HTMLImageElement;
+    expect(backup.placeholders).toBe(1);
+    expect(image.src).toMatch(/^data:image\/svg\+xml/);
+    expect(decodeURIComponent(image.src)).toContain(
+      'Cross-origin canvas (not captured)'
+    );
+  });
+
+  it('should leave excluded canvases and videos without data alone', () => {
+    const toDataURL = vi.spyOn(canvas, 'toDataURL');
+    canvas.setAttribute('data-screenshot-exclude', 'true');
+    root.appendChild(document.createElement('video'));
+
+    const backup = snapshotMediaInPlace(root);
+
+    expect(backup.swaps).toHaveLength(0);
+    expect(toDataURL).not.toHaveBeenCalled();
+    expect(root.querySelector('img')).toBeNull();
+  });
+});
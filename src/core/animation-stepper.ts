@@ -0,0 +1,124 @@
+/**
+ * Deterministic animation stepping
+ * Pauses the animations and transitions a click started and moves them
+ * through their timeline in fixed steps, so each captured frame shows the
+ * same moment on every run no matter how long rasterizing takes
+ */
+
+import { closestComposed, containsComposed } from "../utils/dom-utils";
+import { EXCLUDE_ATTRIBUTE } from "../utils/constants";
+import { libraryConsole } from "../utils/library-console";
+
+/**
+ * Options for stepping through a click's animations
+ */
+export interface AnimationStepOptions {
+  /** Animations that started before this time (performance.now() clock) are left alone */
+  since: number;
+  /** Virtual time between steps (ms) */
+  interval: number;
+  /** Longest virtual timeline to step through (ms) */
+  maxDuration: number;
+}
+
+/**
+ * Outcome of stepping through a click's animations
+ */
+export interface AnimationStepResult {
+  /** Number of animations that were stepped */
+  animations: number;
+  /** Virtual times (ms since the first animation started) of each step */
+  steps: number[];
+  /** Virtual length of the stepped timeline (ms) */
+  duration: number;
+}
+
+/**
+ * Finds the finite animations under the root that started since the given
+ * time (or are about to start). Infinite animations such as spinners never
+ * end, so they keep running
+ */
+export function getSteppableAnimations(
+  root: HTMLElement,
+  since: number
+): Animation[] {
+  const doc = root.ownerDocument;
+  return (doc.getAnimations?.() ?? []).filter((animation) => {
+    if (
+      animation.playState === "finished" ||
+      animation.playState === "idle" ||
+      animation.effect?.getComputedTiming().endTime === Infinity
+    ) {
+      return false;
+    }
+    if (animation.startTime !== null && Number(animation.startTime) < since) {
+      return false;
+    }
+
+    const target = (animation.effect as { target?: Element | null } | null)
+      ?.target;
+    return (
+      !!target &&
+      containsComposed(root, target) &&
+      !closestComposed(target, `[${EXCLUDE_ATTRIBUTE}]`)
+    );
+  });
+}
+
+/**
+ * Pauses the click's animations and steps them from their start to their end,
+ * calling onStep once per step after the page shows that moment
+ * Animations are finished afterwards, as they would have been by then
+ */
+export async function stepAnimations(
+  root: HTMLElement,
+  options: AnimationStepOptions,
+  onStep: (time: number) => Promise<void>
+): Promise<AnimationStepResult> {
+  const animations = getSteppableAnimations(root, options.since);
+  if (animations.length === 0) {
+    return { animations: 0, steps: [], duration: 0 };
+  }
+
+  // Line the animations up on one timeline, starting with the earliest
+  const now = performance.now();
+  const starts = animations.map((animation) =>
+    animation.startTime === null ? now : Number(animation.startTime)
+  );
+  const origin = Math.min(...starts);
+  const offsets = starts.map((start) => start - origin);
+  const ends = animations.map(
+    (animation, index) =>
+      offsets[index] +
+      Number(animation.effect?.getComputedTiming().endTime ?? 0)
+  );
+  const duration = Math.min(Math.max(...ends), options.maxDuration);
+
+  animations.forEach((animation) => animation.pause());
+
+  const steps: number[] = [];
+  try {
+    for (let time = options.interval; ; time += options.interval) {
+      const step = Math.min(time, duration);
+      animations.forEach((animation, index) => {
+        animation.currentTime = Math.max(0, step - offsets[index]);
+      });
+      steps.push(step);
+      await onStep(step);
+
+      if (step >= duration) {
+        break;
+      }
+    }
+  } finally {
+    animations.forEach((animation) => {
+      try {
+        animation.finish();
+      } catch (error) {
+        libraryConsole.warn("⚠️ Could not finish stepped animation:", error);
+      }
+    });
+  }
+
+  return { animations: animations.length, steps, duration };
+}
@@ -0,0 +1,235 @@
+/**
+ * Frame annotations
+ * Geometry shared by the player's editor overlay and the export renderer,
+ * which draws annotations over copies of frame images
+ */
+
+import { nanoid } from "nanoid";
+import type { Annotation, AnnotationType } from "../types";
+import { drawOverImage } from "../utils/image-utils";
+
+type Point = { x: number; y: number };
+
+/**
+ * Creates an annotation with a fresh ID
+ */
+export function createAnnotation(
+  type: AnnotationType,
+  points: Point[],
+  style: { color: string; strokeWidth: number; text?: string }
+): Annotation {
+  return {
+    id: nanoid(),
+    type,
+    points,
+    color: style.color,
+    strokeWidth: style.strokeWidth,
+    ...(type === "text" && { text: style.text || "" }),
+  };
+}
+
+/**
+ * Whether an annotation has enough to draw
+ * Shapes need some size, paths more than one point and callouts some text
+ */
+export function isDrawableAnnotation(annotation: Annotation): boolean {
+  const [start, end] = annotation.points;
+  if (!start) {
+    return false;
+  }
+
+  switch (annotation.type) {
+    case "text":
+      return !!annotation.text?.trim();
+    case "freehand":
+      return annotation.points.length > 1;
+    default:
+      return (
+        !!end &&
+        Math.hypot(end.x - start.x, end.y - start.y) >=
+          annotation.strokeWidth * 2
+      );
+  }
+}
+
+/**
+ * Box spanned by two opposite corners
+ */
+export function getAnnotationBox(
+  start: Point,
+  end: Point
+): { x: number; y: number; width: number; height: number } {
+  return {
+    x: Math.min(start.x, end.x),
+    y: Math.min(start.y, end.y),
+    width: Math.abs(end.x - start.x),
+    height: Math.abs(end.y - start.y),
+  };
+}
+
+/**
+ * Corners of the arrowhead at the tip of an arrow, beside the tip itself
+ */
+export function getArrowHead(
+  tail: Point,
+  tip: Point,
+  strokeWidth: number
+): [Point, Point] {
+  const size = Math.max(10, strokeWidth * 4);
+  const angle = Math.atan2(tip.y - tail.y, tip.x - tail.x);
+  const spread = Math.PI / 7;
+  const corner = (side: number) => ({
+    x: tip.x - size * Math.cos(angle + side * spread),
+    y: tip.y - size * Math.sin(angle + side * spread),
+  });
+  return [corner(-1), corner(1)];
+}
+
+/**
+ * Where a text callout's label and leader line go
+ */
+export interface CalloutLayout {
+  /** Label background box */
+  box: { x: number; y: number; width: number; height: number };
+  /** Text lines, top to bottom */
+  lines: string[];
+  fontSize: number;
+  lineHeight: number;
+  /** Space between the box edge and the text */
+  padding: number;
+  /** Spot the leader line points at, if any */
+  target?: Point;
+}
+
+/**
+ * Lays out a text callout
+ * Text width is estimated from the character count, so the editor's SVG and
+ * the exported canvas size labels the same way without measuring fonts
+ */
+export function getCalloutLayout(annotation: Annotation): CalloutLayout {
+  const fontSize = Math.max(12, annotation.strokeWidth * 5);
+  const lineHeight = fontSize * 1.25;
+  const padding = fontSize * 0.5;
+  const lines = (annotation.text || "").split("\n");
+  const longest = Math.max(...lines.map((line) => line.length));
+  const width = longest * fontSize * 0.6 + padding * 2;
+  const height = lines.length * lineHeight + padding * 2;
+  const [center, target] = annotation.points;
+
+  return {
+    box: {
+      x: center.x - width / 2,
+      y: center.y - height / 2,
+      width,
+      height,
+    },
+    lines,
+    fontSize,
+    lineHeight,
+    padding,
+    target,
+  };
+}
+
+/**
+ * Draws annotations onto a canvas whose pixels match the frame image
+ */
+export function drawAnnotations(
+  ctx: CanvasRenderingContext2D,
+  annotations: Annotation[]
+): void {
+  annotations.filter(isDrawableAnnotation).forEach((annotation) => {
+    const { points } = annotation;
+
+    ctx.save();
+    ctx.strokeStyle = annotation.color;
+    ctx.fillStyle = annotation.color;
+    ctx.lineWidth = annotation.strokeWidth;
+    ctx.lineCap = "round";
+    ctx.lineJoin = "round";
+
+    switch (annotation.type) {
+      case "arrow": {
+        const [tail, tip] = points;
+        const [left, right] = getArrowHead(tail, tip, annotation.strokeWidth);
+        ctx.beginPath();
+        ctx.moveTo(tail.x, tail.y);
+        ctx.lineTo(tip.x, tip.y);
+        ctx.stroke();
+        ctx.beginPath();
+        ctx.moveTo(tip.x, tip.y);
+        ctx.lineTo(left.x, left.y);
+        ctx.lineTo(right.x, right.y);
+        ctx.closePath();
+        ctx.fill();
+        break;
+      }
+
+      case "rectangle": {
+        const box = getAnnotationBox(points[0], points[1]);
+        ctx.strokeRect(box.x, box.y, box.width, box.height);
+        break;
+      }
+
+      case "ellipse": {
+        const box = getAnnotationBox(points[0], points[1]);
+        ctx.beginPath();
+        ctx.ellipse(
+          box.x + box.width / 2,
+          box.y + box.height / 2,
+          box.width / 2,
+          box.height / 2,
+          0,
+          0,
+          Math.PI * 2
+        );
+        ctx.stroke();
+        break;
+      }
+
+      case "freehand": {
+        ctx.beginPath();
+        ctx.moveTo(points[0].x, points[0].y);
+        points.slice(1).forEach((point) => ctx.lineTo(point.x, point.y));
+        ctx.stroke();
+        break;
+      }
+
+      case "text": {
+        const layout = getCalloutLayout(annotation);
+        const { box } = layout;
+        if (layout.target) {
+          ctx.beginPath();
+          ctx.moveTo(box.x + box.width / 2, box.y + box.height / 2);
+          ctx.lineTo(layout.target.x, layout.target.y);
+          ctx.stroke();
+        }
+        ctx.fillRect(box.x, box.y, box.width, box.height);
+        ctx.fillStyle = "#ffffff";
+        ctx.font = `bold ${layout.fontSize}px sans-serif`;
+        ctx.textAlign = "center";
+        ctx.textBaseline = "middle";
+        layout.lines.forEach((line, index) => {
+          ctx.fillText(
+            line,
+            box.x + box.width / 2,
+            box.y + layout.padding + layout.lineHeight * (index + 0.5)
+          );
+        });
+        break;
+      }
+    }
+
+    ctx.restore();
+  });
+}
+
+/**
+ * Returns a copy of a frame image with its annotations drawn over it
+ */
+export async function renderAnnotations(
+  dataUrl: string,
+  annotations: Annotation[]
+): Promise<string> {
+  return drawOverImage(dataUrl, (ctx) => drawAnnotations(ctx, annotations));
+}
@@ -2,25 +2,80 @@
  * Core capture engine for creating annotated screenshots
  */
 
-import * as htmlToImage from 'html-to-image';
 import { nanoid } from 'nanoid';
-import type { Frame, FrameMetadata, CaptureOptions, MarkerStyle } from '../types';
+import type {
+  Frame,
+  FrameMetadata,
+  CaptureOptions,
+  MarkerStyle,
+  TargetHighlightMode,
+  KeystrokeInfo,
+  ScrollInfo,
+  DragInfo,
+  DragPoint,
+  FocusCrop,
+  RasterizeOptions,
+  SelectorStrategy,
+  TargetInfo,
+  DomSnapshot,
+  NavigationInfo,
+} from '../types';
 import {
   getElementPath,
+  getElementSelectors,
   getViewportCoords,
   getRelativeCoords,
   getViewportSize,
   getScrollPosition,
+  getRootOrigin,
+  getEventTarget,
+  getFrameOffset,
+  getSameOriginFrames,
+  closestComposed,
+  querySelectorAllComposed,
+  swapForImage,
+  restoreImageSwap,
   cloneAndCleanDOM,
   createMarkerElement,
+  createTargetHighlightElement,
+  getMarkerColor,
+  createScrollIndicatorElement,
+  createDragTrailElement,
 } from "../utils/dom-utils";
-import { DEFAULT_MARKER_STYLE } from "../utils/constants";
+import {
+  DEFAULT_MARKER_STYLE,
+  DEFAULT_SELECTOR_STRATEGIES,
+  ZOOM_FOCUS_FACTOR,
+  ZOOM_FOCUS_PADDING,
+  IGNORE_CHANGE_ATTRIBUTE,
+  SETTLE_SAMPLE_WIDTH,
+  SETTLE_PIXEL_TOLERANCE,
+} from "../utils/constants";
 import {
   obfuscateInPlace,
   restoreObfuscation,
   DEFAULT_OBFUSCATION_CONFIG,
+  shouldMaskInput,
+  shouldObfuscate,
+  maskValue,
   type ObfuscationBackup,
 } from "../utils/obfuscation";
+import {
+  getInteractiveTarget,
+  getElementRole,
+  getAccessibleName,
+  getVisibleText,
+} from "../utils/element-semantics";
+import {
+  snapshotMediaInPlace,
+  restoreMediaSnapshots,
+  type MediaSnapshotBackup,
+} from "../utils/media-snapshot";
+import { preloadImages } from "./resource-cache";
+import { blobToDataURL } from "../utils/image-utils";
+import { getRasterizer } from "./rasterizer";
+import { serializeDOM } from "./dom-snapshot";
+import { libraryConsole } from '../utils/library-console';
 
 /**
  * Captures a single frame from a pointer event
@@ -37,20 +92,29 @@ export async function captureFrame(
   const frameId = nanoid();
   const timestamp = Date.now();
 
-  // Get coordinates
-  const viewportCoords = getViewportCoords(pointerEvent);
-  const relativeCoords = getRelativeCoords(pointerEvent, root);
-
   // Get target element and generate path
   // For synthetic events (manual capture), target may be null - use root instead
-  const target = (pointerEvent.target as HTMLElement) || root;
-  const elementPath = getElementPath(target, root);
+  const target = getEventTarget(pointerEvent) || root;
+
+  // Get coordinates - clicks inside iframes report them in the iframe's
+  // viewport, so translate them into this page's viewport
+  const eventCoords = getViewportCoords(pointerEvent);
+  const frameOffset = getFrameOffset(target);
+  const viewportCoords = {
+    x: eventCoords.x + frameOffset.x,
+    y: eventCoords.y + frameOffset.y,
+  };
+  const eventRelativeCoords = getRelativeCoords(pointerEvent, root);
+  const relativeCoords = {
+    x: eventRelativeCoords.x + frameOffset.x,
+    y: eventRelativeCoords.y + frameOffset.y,
+  };
 
   // Calculate relative offset within the clicked element (for marker repositioning after obfuscation)
   const rect = target.getBoundingClientRect();
   const relativeOffset = {
-    x: viewportCoords.x - rect.left,
-    y: viewportCoords.y - rect.top,
+    x: eventCoords.x - rect.left,
+    y: eventCoords.y - rect.top,
   };
 
   console.log("🎯 Click offset within element:", {
@@ -71,21 +135,22 @@ export async function captureFrame(
 
   // Build metadata
   // Calculate marker coordinates
-  // The marker is always added to document.documentElement, which gets transformed
-  // by translate(0, -scrollY). To position the marker at viewport coordinates in
-  // the final capture, we always need to use viewport + scroll.
+  // The marker is added to the capture root and positioned from its content origin.
+  // For document.documentElement the capture is transformed by translate(0, -scrollY),
+  // so the origin is (-scrollX, -scrollY) and the marker sits at viewport + scroll.
   // After transform: (viewport + scroll - scroll) = viewport position ✓
   // This works for BOTH regular content AND fixed elements because they both
   // appear at viewport coordinates in the final transformed capture.
+  const rootOrigin = getRootOrigin(root);
   const markerCoords = {
-    x: viewportCoords.x + scrollPosition.x,
-    y: viewportCoords.y + scrollPosition.y,
+    x: viewportCoords.x - rootOrigin.x,
+    y: viewportCoords.y - rootOrigin.y,
   };
 
   const metadata: FrameMetadata = {
     viewportCoords,
     relativeCoords,
-    elementPath,
+    ...getSelectorMetadata(target, root, options),
     buttonType: pointerEvent.button,
     viewportSize,
     scrollPosition,
@@ -93,6 +158,22 @@ export async function captureFrame(
     markerCoords, // Store for debugging
   };
 
+  if (captureType === "pre-click") {
+    const focusCrop = getFocusCrop(root, target, markerCoords, options);
+    if (focusCrop) {
+      metadata.focusCrop = focusCrop;
+    }
+
+    // Synthetic clicks fall back to the root, which isn't what was clicked
+    if (target !== root) {
+      metadata.target = getTargetInfo(target, !!options.obfuscationEnabled);
+    }
+  }
+
+  // Synthetic clicks fall back to the root, which has nothing to pick out
+  const highlight: TargetHighlightMode =
+    target === root ? "off" : options.targetHighlight || "off";
+
   // Pass marker info to be added AFTER obfuscation
   const markerInfo =
     captureType === "pre-click"
@@ -106,6 +187,9 @@ export async function captureFrame(
             ...DEFAULT_MARKER_STYLE,
             ...options.markerStyle,
           },
+          stepNumber: options.clickNumber,
+          highlight,
+          dimOutsideTarget: target !== root && !!options.dimOutsideTarget,
         }
       : null;
 
@@ -118,14 +202,17 @@ export async function captureFrame(
       markerInfo
     );
 
+    // Frames captured without obfuscation are only compared for settlement,
+    // never kept, so they skip the DOM snapshot
     return await finishFrame(
+      root,
       frameId,
       reelId,
       timestamp,
       order,
       dataUrl,
       metadata,
-      options
+      skipObfuscation ? { ...options, collectDomSnapshot: false } : options
     );
   } catch (error) {
     throw error;
@@ -133,6 +220,7 @@ export async function captureFrame(
 }
 
 async function finishFrame(
+  root: HTMLElement,
   frameId: string,
   reelId: string,
   timestamp: number,
@@ -141,10 +229,20 @@ async function finishFrame(
   metadata: FrameMetadata,
   options: CaptureOptions
 ): Promise<Frame> {
+  // Where the page was, so reels crossing single-page app routes can be
+  // split up by route
+  metadata.url = window.location.href;
+  metadata.pageTitle = document.title;
+
   // Optionally collect HTML snapshot
   if (options.collectHtml) {
-    const root = document.getElementById("root") || document.body;
-    metadata.htmlSnapshot = sanitizeHTML(root.outerHTML);
+    const htmlRoot = document.getElementById("root") || document.body;
+    metadata.htmlSnapshot = sanitizeHTML(htmlRoot.outerHTML);
+  }
+
+  // Optionally collect a replayable DOM snapshot of the captured root
+  if (options.collectDomSnapshot) {
+    metadata.domSnapshot = getDomSnapshot(root, options);
   }
 
   // Create frame object
@@ -161,7 +259,331 @@ async function finishFrame(
 }
 
 /**
- * Captures DOM element to a data URL using html-to-image
+ * Area to rasterize for a capture
+ */
+interface CaptureArea {
+  /** Output width in CSS pixels */
+  width: number;
+  /** Output height in CSS pixels */
+  height: number;
+  /** Root content position shown at the image's top-left corner */
+  origin: { x: number; y: number };
+  /** Style for the cloned root (scroll offset, expanded size) */
+  style?: Record<string, string>;
+  /** Translation that keeps fixed-position elements where they were seen */
+  fixedOffset: { x: number; y: number } | null;
+  /** Image pixels per CSS pixel */
+  pixelRatio: number;
+}
+
+/**
+ * Works out the rasterized area for the capture mode
+ * Markers are positioned from the root's content origin (see getRootOrigin),
+ * so every mode keeps them aligned with the content they point at
+ */
+function getCaptureArea(
+  element: HTMLElement,
+  options: CaptureOptions
+): CaptureArea {
+  const mode = options.captureMode || "viewport";
+  const scrollX = window.scrollX || window.pageXOffset;
+  const scrollY = window.scrollY || window.pageYOffset;
+  const pixelRatio = options.scale || 2;
+  let area: Omit<CaptureArea, "pixelRatio">;
+
+  if (element === document.documentElement) {
+    if (mode === "viewport") {
+      // Shift the document up/left by the scroll offset to capture only what is
+      // visible, and counter-transform fixed elements to keep them in place
+      area = {
+        width: window.innerWidth,
+        height: window.innerHeight,
+        origin: { x: scrollX, y: scrollY },
+        style: {
+          transform: `translate(${-scrollX}px, ${-scrollY}px)`,
+          transformOrigin: "top left",
+        },
+        fixedOffset: { x: scrollX, y: scrollY },
+      };
+    } else {
+      // The whole document - fixed elements are drawn where they were on screen
+      // at capture time, so markers on them still line up
+      area = {
+        width: element.scrollWidth,
+        height: element.scrollHeight,
+        origin: { x: 0, y: 0 },
+        fixedOffset: { x: scrollX, y: scrollY },
+      };
+    }
+  } else {
+    const rect = element.getBoundingClientRect();
+
+    if (mode === "full-page") {
+      // Expand the clone to show all of its scrollable content
+      area = {
+        width: element.scrollWidth,
+        height: element.scrollHeight,
+        origin: { x: 0, y: 0 },
+        style: {
+          width: `${element.scrollWidth}px`,
+          height: `${element.scrollHeight}px`,
+          overflow: "visible",
+        },
+        fixedOffset: null,
+      };
+    } else if (mode === "viewport") {
+      // Only the part of the root that is on screen
+      const visibleWidth =
+        Math.min(rect.right, window.innerWidth) - Math.max(rect.left, 0);
+      const visibleHeight =
+        Math.min(rect.bottom, window.innerHeight) - Math.max(rect.top, 0);
+      const hiddenLeft = Math.max(0, -rect.left);
+      const hiddenTop = Math.max(0, -rect.top);
+
+      area = {
+        width: visibleWidth > 0 ? visibleWidth : rect.width,
+        height: visibleHeight > 0 ? visibleHeight : rect.height,
+        origin: { x: hiddenLeft, y: hiddenTop },
+        ...((hiddenLeft > 0 || hiddenTop > 0) && {
+          style: {
+            transform: `translate(${-hiddenLeft}px, ${-hiddenTop}px)`,
+            transformOrigin: "top left",
+          },
+        }),
+        fixedOffset: null,
+      };
+    } else {
+      area = {
+        width: rect.width,
+        height: rect.height,
+        origin: { x: 0, y: 0 },
+        fixedOffset: null,
+      };
+    }
+  }
+
+  const maxWidth =
+    options.maxWidth && options.maxWidth > 0 ? options.maxWidth : 0;
+  const maxHeight =
+    options.maxHeight && options.maxHeight > 0 ? options.maxHeight : 0;
+
+  // The whole page is the point of full-page mode, so it is scaled down to
+  // fit the limits rather than cut off
+  if (mode === "full-page") {
+    const fit = Math.min(
+      1,
+      maxWidth ? maxWidth / area.width : 1,
+      maxHeight ? maxHeight / area.height : 1
+    );
+    return { ...area, pixelRatio: pixelRatio * fit };
+  }
+
+  if (maxWidth) {
+    area.width = maxWidth;
+  }
+  if (maxHeight) {
+    area.height = maxHeight;
+  }
+
+  return { ...area, pixelRatio };
+}
+
+/**
+ * Works out the zoom focus crop around a click target, in image pixels
+ * Small targets are framed with some padding; large ones (containers, the
+ * root itself) fall back to a box centred on the click
+ */
+function getFocusCrop(
+  root: HTMLElement,
+  target: HTMLElement,
+  markerCoords: { x: number; y: number },
+  options: CaptureOptions
+): FocusCrop | undefined {
+  const mode = options.zoomFocus;
+  if (!mode || mode === "off") {
+    return undefined;
+  }
+
+  const area = getCaptureArea(root, options);
+  const rootOrigin = getRootOrigin(root);
+  const rect = target.getBoundingClientRect();
+  const frameOffset = getFrameOffset(target);
+
+  // Target box and click point in image (CSS pixel) coordinates
+  const left = rect.left + frameOffset.x - rootOrigin.x - area.origin.x;
+  const top = rect.top + frameOffset.y - rootOrigin.y - area.origin.y;
+  const point = {
+    x: markerCoords.x - area.origin.x,
+    y: markerCoords.y - area.origin.y,
+  };
+
+  // Never zoom in further than the zoom factor
+  const minWidth = area.width / ZOOM_FOCUS_FACTOR;
+  const minHeight = area.height / ZOOM_FOCUS_FACTOR;
+  let width = Math.max(rect.width + ZOOM_FOCUS_PADDING * 2, minWidth);
+  let height = Math.max(rect.height + ZOOM_FOCUS_PADDING * 2, minHeight);
+  let center = { x: left + rect.width / 2, y: top + rect.height / 2 };
+
+  if (width > area.width / 2 || height > area.height / 2) {
+    width = minWidth;
+    height = minHeight;
+    center = point;
+  }
+
+  // Match the frame's aspect ratio so the zoomed crop fills it
+  const aspect = area.width / area.height;
+  if (width / height < aspect) {
+    width = height * aspect;
+  } else {
+    height = width / aspect;
+  }
+
+  const x = Math.min(Math.max(center.x - width / 2, 0), area.width - width);
+  const y = Math.min(Math.max(center.y - height / 2, 0), area.height - height);
+  const scale = area.pixelRatio;
+
+  return {
+    mode,
+    x: Math.round(x * scale),
+    y: Math.round(y * scale),
+    width: Math.round(width * scale),
+    height: Math.round(height * scale),
+  };
+}
+
+/**
+ * Temporarily translates fixed-position elements (undone by the caller)
+ */
+function offsetFixedElements(
+  element: HTMLElement,
+  offset: { x: number; y: number } | null
+): Array<{ el: HTMLElement; originalTransform: string }> {
+  const fixedElements: Array<{ el: HTMLElement; originalTransform: string }> =
+    [];
+  if (!offset) {
+    return fixedElements;
+  }
+
+  const allElements = querySelectorAllComposed(element, "*");
+  allElements.forEach((htmlEl) => {
+    const style = window.getComputedStyle(htmlEl);
+    if (style.position === "fixed") {
+      fixedElements.push({
+        el: htmlEl,
+        originalTransform: htmlEl.style.transform,
+      });
+      // Counter the document transform with an inverse transform
+      const currentTransform = htmlEl.style.transform || "";
+      const counterTransform = `translate(${offset.x}px, ${offset.y}px)`;
+      htmlEl.style.transform = currentTransform
+        ? `${currentTransform} ${counterTransform}`
+        : counterTransform;
+    }
+  });
+
+  return fixedElements;
+}
+
+/**
+ * Temporarily swaps same-origin iframes for snapshots of their documents
+ * html-to-image can't render iframe content, so each accessible iframe is
+ * rasterized on its own (nested iframes first, with exclusion and
+ * obfuscation applied inside) and shown as an <img> in its place
+ * Returns a function that puts the iframes back
+ */
+async function rasterizeFrames(
+  element: HTMLElement,
+  options: CaptureOptions,
+  obfuscate: boolean
+): Promise<() => void> {
+  const restores: Array<() => void> = [];
+  const restoreAll = () => {
+    while (restores.length > 0) {
+      restores.pop()?.();
+    }
+  };
+
+  try {
+    for (const frame of getSameOriginFrames(element)) {
+      if (
+        closestComposed(frame, "[data-screenshot-exclude]") ||
+        frame.clientWidth === 0 ||
+        frame.clientHeight === 0
+      ) {
+        continue;
+      }
+
+      const frameDocument = frame.contentDocument as Document;
+      const frameRoot = frameDocument.documentElement;
+      const frameWindow = frameDocument.defaultView;
+
+      // Hide excluded elements inside the frame
+      querySelectorAllComposed(frameRoot, "[data-screenshot-exclude]").forEach(
+        (el) => {
+          const originalVisibility = el.style.visibility;
+          el.style.visibility = "hidden";
+          restores.push(() => {
+            el.style.visibility = originalVisibility;
+          });
+        }
+      );
+
+      if (obfuscate) {
+        const backup = obfuscateInPlace(frameRoot, DEFAULT_OBFUSCATION_CONFIG);
+        restores.push(() => restoreObfuscation(backup));
+      }
+
+      const mediaBackup = snapshotMediaInPlace(frameRoot);
+      restores.push(() => restoreMediaSnapshots(mediaBackup));
+
+      restores.push(await rasterizeFrames(frameRoot, options, obfuscate));
+
+      // Capture what is visible in the frame, keeping fixed elements in place
+      const scrollX = frameWindow?.scrollX || 0;
+      const scrollY = frameWindow?.scrollY || 0;
+      const fixedElements = offsetFixedElements(frameRoot, {
+        x: scrollX,
+        y: scrollY,
+      });
+      restores.push(() =>
+        fixedElements.forEach(({ el, originalTransform }) => {
+          el.style.transform = originalTransform;
+        })
+      );
+
+      const bodyBackground = frameWindow?.getComputedStyle(
+        frameDocument.body
+      ).backgroundColor;
+      const blob = await getRasterizer(options).rasterize(frameRoot, {
+        pixelRatio: options.scale || 2,
+        width: frame.clientWidth,
+        height: frame.clientHeight,
+        resourceCache: options.resourceCache,
+        backgroundColor:
+          bodyBackground && bodyBackground !== "rgba(0, 0, 0, 0)"
+            ? bodyBackground
+            : "#ffffff",
+        style: {
+          transform: `translate(${-scrollX}px, ${-scrollY}px)`,
+          transformOrigin: "top left",
+        },
+      });
+      const snapshot = await blobToDataURL(blob);
+
+      // Hidden iframes stay loaded, so they come back as they were
+      const swap = swapForImage(frame, snapshot);
+      restores.push(() => restoreImageSwap(swap));
+    }
+  } catch (error) {
+    restoreAll();
+    throw error;
+  }
+
+  return restoreAll;
+}
+
+/**
+ * Captures DOM element to a data URL using the configured rasterizer
  */
 async function captureToDataURL(
   element: HTMLElement,
@@ -174,8 +596,18 @@ async function captureToDataURL(
     scrollPosition: { x: number; y: number };
     buttonType: number;
     style: MarkerStyle;
-  } | null = null
+    stepNumber?: number;
+    highlight?: TargetHighlightMode;
+    dimOutsideTarget?: boolean;
+  } | null = null,
+  overlays: HTMLElement[] = []
 ): Promise<string> {
+  // Load images into the cache while the page is untouched; the rasterizer
+  // is served the cached data instead of fetching them again
+  if (options.resourceCache) {
+    await preloadImages(element, options.resourceCache);
+  }
+
   // Temporarily hide excluded elements during capture
   const excludedElements: Array<{ el: HTMLElement; originalDisplay: string }> =
     [];
@@ -183,6 +615,34 @@ async function captureToDataURL(
   // For in-place obfuscation
   let obfuscationBackup: ObfuscationBackup | null = null;
 
+  // For canvas/video snapshots
+  let mediaBackup: MediaSnapshotBackup | null = null;
+
+  // Puts back iframes swapped for snapshots
+  let restoreFrames = () => {};
+
+  // Marker, target highlight and fixed-element offsets are undone whether or
+  // not the capture succeeds, so nothing stays behind in the live page
+  let markerElement: HTMLElement | null = null;
+  let highlightElement: HTMLElement | null = null;
+  let fixedElements: Array<{ el: HTMLElement; originalTransform: string }> =
+    [];
+
+  // Element roots are captured as-is; only the page needs viewport/scroll handling
+  const isPageRoot = element === document.documentElement;
+
+  // Markers and overlays are positioned from the root's padding box, so a
+  // statically positioned element root becomes their containing block while
+  // capturing (html-to-image renders the clone that way regardless)
+  const originalPosition = element.style.position;
+  const restorePosition = () => {
+    if (originalPosition) {
+      element.style.position = originalPosition;
+    } else {
+      element.style.removeProperty("position");
+    }
+  };
+
   try {
     console.log("Capturing element:", element.tagName, {
       offsetWidth: element.offsetWidth,
@@ -212,11 +672,12 @@ async function captureToDataURL(
     });
 
     // Find and hide all excluded elements using visibility (preserves layout)
-    const excludedNodeList = element.querySelectorAll(
+    // (including inside open shadow roots, which html-to-image also renders)
+    const excludedNodeList = querySelectorAllComposed(
+      element,
       "[data-screenshot-exclude]"
     );
-    excludedNodeList.forEach((el) => {
-      const htmlEl = el as HTMLElement;
+    excludedNodeList.forEach((htmlEl) => {
       excludedElements.push({
         el: htmlEl,
         originalDisplay: htmlEl.style.visibility,
@@ -241,22 +702,40 @@ async function captureToDataURL(
       await new Promise((resolve) => setTimeout(resolve, 10));
     }
 
+    if (!isPageRoot && window.getComputedStyle(element).position === "static") {
+      element.style.position = "relative";
+    }
+
+    // Swap canvases and videos for static images of their current pixels
+    mediaBackup = snapshotMediaInPlace(element);
+
+    // Composite same-origin iframe content into the frame
+    restoreFrames = await rasterizeFrames(
+      element,
+      options,
+      !!options.obfuscationEnabled && !skipObfuscation
+    );
+
     // Add marker AFTER obfuscation using recalculated position
-    let markerElement: HTMLElement | null = null;
     if (markerInfo) {
       // Get element's NEW position after obfuscation (if obfuscation was applied)
       const rectAfter = markerInfo.targetElement.getBoundingClientRect();
+      const rootOrigin = getRootOrigin(element);
+      const frameOffset = getFrameOffset(markerInfo.targetElement);
 
-      // Calculate marker position: element's new position + original relative offset + scroll
+      // Calculate marker position: element's new position + original relative offset,
+      // measured from the capture root's content origin (viewport + scroll for the page)
       const markerCoords = {
         x:
           rectAfter.left +
-          markerInfo.relativeOffset.x +
-          markerInfo.scrollPosition.x,
+          frameOffset.x +
+          markerInfo.relativeOffset.x -
+          rootOrigin.x,
         y:
           rectAfter.top +
-          markerInfo.relativeOffset.y +
-          markerInfo.scrollPosition.y,
+          frameOffset.y +
+          markerInfo.relativeOffset.y -
+          rootOrigin.y,
       };
 
       console.log("📍 Adding marker:", {
@@ -268,15 +747,35 @@ async function captureToDataURL(
         recalculatedMarkerCoords: markerCoords,
         scroll: markerInfo.scrollPosition,
         expectedFinalPosition: {
-          x: markerCoords.x - markerInfo.scrollPosition.x,
-          y: markerCoords.y - markerInfo.scrollPosition.y,
+          x: markerCoords.x + rootOrigin.x,
+          y: markerCoords.y + rootOrigin.y,
         },
       });
 
+      // Highlight the element's box as it is now, under the marker
+      const highlight = markerInfo.highlight || "off";
+      if (highlight !== "off" || markerInfo.dimOutsideTarget) {
+        highlightElement = createTargetHighlightElement(
+          {
+            x: rectAfter.left + frameOffset.x - rootOrigin.x,
+            y: rectAfter.top + frameOffset.y - rootOrigin.y,
+            width: rectAfter.width,
+            height: rectAfter.height,
+          },
+          highlight,
+          {
+            color: getMarkerColor(markerInfo.buttonType, markerInfo.style),
+            dim: markerInfo.dimOutsideTarget,
+          }
+        );
+        element.appendChild(highlightElement);
+      }
+
       markerElement = createMarkerElement(
         markerCoords,
         markerInfo.buttonType,
-        markerInfo.style
+        markerInfo.style,
+        markerInfo.stepNumber
       );
       element.appendChild(markerElement);
 
@@ -285,6 +784,9 @@ async function captureToDataURL(
       await new Promise((resolve) => setTimeout(resolve, 10));
     }
 
+    // Add any additional overlays (scroll indicators, etc.) after obfuscation
+    overlays.forEach((overlay) => element.appendChild(overlay));
+
     // Get the background color of the page/element
     const computedStyle = window.getComputedStyle(element);
     let backgroundColor = computedStyle.backgroundColor;
@@ -310,11 +812,10 @@ async function captureToDataURL(
     const currentScrollX = window.scrollX || window.pageXOffset;
     const currentScrollY = window.scrollY || window.pageYOffset;
 
-    const captureOptions: Record<string, unknown> = {
-      quality: 0.95,
+    const captureOptions: RasterizeOptions = {
       pixelRatio: options.scale || 2,
-      cacheBust: true,
       backgroundColor, // Add background color to prevent transparency
+      resourceCache: options.resourceCache,
       filter: (node: HTMLElement) => {
         // Additional filter to exclude elements with data-screenshot-exclude
         const shouldExclude =
@@ -334,50 +835,17 @@ async function captureToDataURL(
       },
     };
 
-    // Set width/height to capture only the visible viewport
-    if (options.maxWidth && options.maxWidth > 0) {
-      captureOptions.width = options.maxWidth;
-    } else {
-      captureOptions.width = window.innerWidth;
+    // Set size, pixel ratio (and any scroll transform) for the capture mode
+    const area = getCaptureArea(element, options);
+    captureOptions.pixelRatio = area.pixelRatio;
+    captureOptions.width = area.width;
+    captureOptions.height = area.height;
+    if (area.style) {
+      captureOptions.style = area.style;
     }
 
-    if (options.maxHeight && options.maxHeight > 0) {
-      captureOptions.height = options.maxHeight;
-    } else {
-      captureOptions.height = window.innerHeight;
-    }
-
-    // Apply scroll transform to capture scrolled content
-    // BUT we need to counter-transform fixed-position elements to keep them in place
-    const styleTransform = {
-      transform: `translate(${-currentScrollX}px, ${-currentScrollY}px)`,
-      transformOrigin: "top left",
-    };
-    captureOptions.style = styleTransform;
-
     // Find all fixed-position elements and temporarily adjust them
-    const fixedElements: Array<{
-      el: HTMLElement;
-      originalTransform: string;
-    }> = [];
-
-    const allElements = element.querySelectorAll("*");
-    allElements.forEach((el) => {
-      const htmlEl = el as HTMLElement;
-      const style = window.getComputedStyle(htmlEl);
-      if (style.position === "fixed") {
-        fixedElements.push({
-          el: htmlEl,
-          originalTransform: htmlEl.style.transform,
-        });
-        // Counter the document transform with an inverse transform
-        const currentTransform = htmlEl.style.transform || "";
-        const counterTransform = `translate(${currentScrollX}px, ${currentScrollY}px)`;
-        htmlEl.style.transform = currentTransform
-          ? `${currentTransform} ${counterTransform}`
-          : counterTransform;
-      }
-    });
+    fixedElements = offsetFixedElements(element, area.fixedOffset);
 
     console.log(
       "Capture options with scroll offset and fixed element compensation:",
@@ -396,7 +864,8 @@ async function captureToDataURL(
       await new Promise((resolve) => setTimeout(resolve, 10));
     }
 
-    console.log("🎬 Starting html-to-image capture...");
+    const rasterizer = getRasterizer(options);
+    console.log(`🎬 Starting ${rasterizer.name} capture...`);
 
     // Check if scroll changed during setup
     const scrollBeforeCapture = {
@@ -407,14 +876,17 @@ async function captureToDataURL(
       scrollBeforeCapture.x !== currentScrollX ||
       scrollBeforeCapture.y !== currentScrollY
     ) {
-      console.warn("⚠️ Scroll position changed during capture setup!", {
-        original: { x: currentScrollX, y: currentScrollY },
-        current: scrollBeforeCapture,
-        delta: {
-          x: scrollBeforeCapture.x - currentScrollX,
-          y: scrollBeforeCapture.y - currentScrollY,
-        },
-      });
+      libraryConsole.warn(
+        "⚠️ Scroll position changed during capture setup!",
+        {
+          original: { x: currentScrollX, y: currentScrollY },
+          current: scrollBeforeCapture,
+          delta: {
+            x: scrollBeforeCapture.x - currentScrollX,
+            y: scrollBeforeCapture.y - currentScrollY,
+          },
+        }
+      );
     }
 
     // Suppress console.error for known CSS CORS issues during capture
@@ -438,11 +910,13 @@ async function captureToDataURL(
 
     let dataUrl: string;
     try {
-      dataUrl = await htmlToImage.toPng(element, captureOptions);
+      dataUrl = await blobToDataURL(
+        await rasterizer.rasterize(element, captureOptions)
+      );
     } catch (error) {
       // Handle CORS errors from external CSS stylesheets
       if (error instanceof Error && error.message.includes("cssRules")) {
-        console.warn(
+        libraryConsole.warn(
           "⚠️ CSS inlining failed (likely CORS issue with external stylesheets):",
           error.message
         );
@@ -452,7 +926,9 @@ async function captureToDataURL(
           ...captureOptions,
           skipFonts: true,
         };
-        dataUrl = await htmlToImage.toPng(element, fallbackOptions);
+        dataUrl = await blobToDataURL(
+          await rasterizer.rasterize(element, fallbackOptions)
+        );
       } else {
         // Re-throw other errors
         throw error;
@@ -472,6 +948,16 @@ async function captureToDataURL(
     if (markerElement && element.contains(markerElement)) {
       element.removeChild(markerElement);
     }
+    highlightElement?.remove();
+    overlays.forEach((overlay) => overlay.remove());
+    restoreFrames();
+    restorePosition();
+
+    // Restore canvases and videos
+    if (mediaBackup) {
+      restoreMediaSnapshots(mediaBackup);
+      mediaBackup = null;
+    }
 
     // Restore obfuscated text immediately
     if (obfuscationBackup) {
@@ -488,6 +974,11 @@ async function captureToDataURL(
       }
     });
     console.log("✅ Capture complete, data URL length:", dataUrl.length);
+    if (options.resourceCache) {
+      console.log(
+        `🗃️ Resource cache: ${options.resourceCache.describeStats()}`
+      );
+    }
 
     // Immediately restore excluded elements
     excludedElements.forEach(({ el, originalDisplay }) => {
@@ -511,10 +1002,10 @@ async function captureToDataURL(
       dataUrl.length < 200 && !dataUrl.includes("mockdata");
 
     if (is1x1Placeholder) {
-      console.warn(
+      libraryConsole.warn(
         "Captured image appears to be a 1x1 placeholder - element may not be visible or has no dimensions"
       );
-      console.warn("Element dimensions:", {
+      libraryConsole.warn("Element dimensions:", {
         offsetWidth: element.offsetWidth,
         offsetHeight: element.offsetHeight,
       });
@@ -524,12 +1015,30 @@ async function captureToDataURL(
 
     return dataUrl;
   } catch (error) {
+    markerElement?.remove();
+    highlightElement?.remove();
+    overlays.forEach((overlay) => overlay.remove());
+    restoreFrames();
+    restorePosition();
+
+    fixedElements.forEach(({ el, originalTransform }) => {
+      if (originalTransform) {
+        el.style.transform = originalTransform;
+      } else {
+        el.style.removeProperty("transform");
+      }
+    });
+
+    if (mediaBackup) {
+      restoreMediaSnapshots(mediaBackup);
+    }
+
     // Restore obfuscated text on error
     if (obfuscationBackup) {
       try {
         restoreObfuscation(obfuscationBackup);
       } catch (cleanupError) {
-        console.warn("Error restoring obfuscated text:", cleanupError);
+        libraryConsole.warn("Error restoring obfuscated text:", cleanupError);
       }
     }
 
@@ -542,7 +1051,7 @@ async function captureToDataURL(
       }
     });
 
-    console.error("Error capturing frame:", error);
+    libraryConsole.error("Error capturing frame:", error);
     throw new Error(
       `Failed to capture screenshot: ${error instanceof Error ? error.message : "Unknown error"}`
     );
@@ -557,6 +1066,10 @@ export async function captureToBlob(
   options: CaptureOptions
 ): Promise<Blob> {
   try {
+    if (options.resourceCache) {
+      await preloadImages(element, options.resourceCache);
+    }
+
     // Get the background color of the page/element
     const computedStyle = window.getComputedStyle(element);
     let backgroundColor = computedStyle.backgroundColor;
@@ -578,32 +1091,9 @@ export async function captureToBlob(
       backgroundColor = "#ffffff";
     }
 
-    // Get current scroll position to capture what's visible
-    const currentScrollX = window.scrollX || window.pageXOffset;
-    const currentScrollY = window.scrollY || window.pageYOffset;
-
-    // Find and counter-transform fixed-position elements
-    const fixedElements: Array<{
-      el: HTMLElement;
-      originalTransform: string;
-    }> = [];
-
-    const allElements = element.querySelectorAll("*");
-    allElements.forEach((el) => {
-      const htmlEl = el as HTMLElement;
-      const style = window.getComputedStyle(htmlEl);
-      if (style.position === "fixed") {
-        fixedElements.push({
-          el: htmlEl,
-          originalTransform: htmlEl.style.transform,
-        });
-        const currentTransform = htmlEl.style.transform || "";
-        const counterTransform = `translate(${currentScrollX}px, ${currentScrollY}px)`;
-        htmlEl.style.transform = currentTransform
-          ? `${currentTransform} ${counterTransform}`
-          : counterTransform;
-      }
-    });
+    // Work out the area to capture, then counter-transform fixed-position elements
+    const area = getCaptureArea(element, options);
+    const fixedElements = offsetFixedElements(element, area.fixedOffset);
 
     // Immediate capture - no delay to reduce flashing
     if (fixedElements.length > 0) {
@@ -629,31 +1119,28 @@ export async function captureToBlob(
       originalConsoleError.apply(console, args);
     };
 
-    let blob: Blob | null;
-    const captureOpts = {
-      quality: 0.95,
-      pixelRatio: options.scale || 2,
-      width: options.maxWidth || window.innerWidth,
-      height: options.maxHeight || window.innerHeight,
-      cacheBust: true,
+    let blob: Blob;
+    const rasterizer = getRasterizer(options);
+    const captureOpts: RasterizeOptions = {
+      pixelRatio: area.pixelRatio,
+      width: area.width,
+      height: area.height,
       backgroundColor, // Add background color to prevent transparency
-      style: {
-        transform: `translate(${-currentScrollX}px, ${-currentScrollY}px)`,
-        transformOrigin: "top left",
-      },
+      resourceCache: options.resourceCache,
+      ...(area.style && { style: area.style }),
     };
 
     try {
-      blob = await htmlToImage.toBlob(element, captureOpts);
+      blob = await rasterizer.rasterize(element, captureOpts);
     } catch (error) {
       // Handle CORS errors from external CSS stylesheets
       if (error instanceof Error && error.message.includes("cssRules")) {
-        console.warn(
+        libraryConsole.warn(
           "⚠️ CSS inlining failed during blob capture (likely CORS issue):",
           error.message
         );
         console.log("Retrying blob capture without font embedding...");
-        blob = await htmlToImage.toBlob(element, {
+        blob = await rasterizer.rasterize(element, {
           ...captureOpts,
           skipFonts: true,
         });
@@ -681,13 +1168,9 @@ export async function captureToBlob(
       }
     });
 
-    if (!blob) {
-      throw new Error("Failed to generate blob from element");
-    }
-
     return blob;
   } catch (error) {
-    console.error("Error capturing to blob:", error);
+    libraryConsole.error("Error capturing to blob:", error);
     throw new Error(
       `Failed to capture to blob: ${error instanceof Error ? error.message : "Unknown error"}`
     );
@@ -696,20 +1179,25 @@ export async function captureToBlob(
 
 /**
  * Converts a data URL to ImageData for comparison
+ * With maxWidth, wider images are downsampled to that width
  */
-export async function dataURLToImageData(dataUrl: string): Promise<ImageData> {
+export async function dataURLToImageData(
+  dataUrl: string,
+  maxWidth?: number
+): Promise<ImageData> {
   return new Promise((resolve, reject) => {
     const img = new Image();
     img.onload = () => {
+      const scale = maxWidth && img.width > maxWidth ? maxWidth / img.width : 1;
       const canvas = document.createElement('canvas');
-      canvas.width = img.width;
-      canvas.height = img.height;
+      canvas.width = Math.max(1, Math.round(img.width * scale));
+      canvas.height = Math.max(1, Math.round(img.height * scale));
       const ctx = canvas.getContext('2d');
       if (!ctx) {
         reject(new Error('Failed to get canvas context'));
         return;
       }
-      ctx.drawImage(img, 0, 0);
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
       const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
       resolve(imageData);
     };
@@ -725,6 +1213,167 @@ export function compareImages(dataUrl1: string, dataUrl2: string): boolean {
   return dataUrl1 === dataUrl2;
 }
 
+/**
+ * Area of a frame whose changes don't count towards settlement
+ * Stored as fractions of the image size, so it applies at any resolution
+ */
+export interface IgnoreRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Finds the areas settlement detection ignores: elements marked with
+ * data-screenshot-ignore-change or matching the selector
+ */
+export function getIgnoreRegions(
+  root: HTMLElement,
+  options: CaptureOptions,
+  selector?: string
+): IgnoreRegion[] {
+  const attributeSelector = `[${IGNORE_CHANGE_ATTRIBUTE}]`;
+  let elements: HTMLElement[];
+  try {
+    elements = querySelectorAllComposed(
+      root,
+      selector ? `${attributeSelector}, ${selector}` : attributeSelector
+    );
+  } catch (error) {
+    libraryConsole.warn(
+      `⚠️ Invalid settlement ignore selector "${selector}":`,
+      error
+    );
+    elements = querySelectorAllComposed(root, attributeSelector);
+  }
+
+  const area = getCaptureArea(root, options);
+  const rootOrigin = getRootOrigin(root);
+  if (area.width <= 0 || area.height <= 0) {
+    return [];
+  }
+
+  return elements
+    .map((el) => {
+      const rect = el.getBoundingClientRect();
+      const frameOffset = getFrameOffset(el);
+      return {
+        x:
+          (rect.left + frameOffset.x - rootOrigin.x - area.origin.x) /
+          area.width,
+        y:
+          (rect.top + frameOffset.y - rootOrigin.y - area.origin.y) /
+          area.height,
+        width: rect.width / area.width,
+        height: rect.height / area.height,
+      };
+    })
+    .filter((region) => region.width > 0 && region.height > 0);
+}
+
+/**
+ * Fraction (0-1) of pixels that changed between two images, skipping
+ * ignored regions. A pixel changed when any channel differs by more than
+ * the tolerance; images of different sizes count as fully changed
+ */
+export function getPixelChangeRatio(
+  before: ImageData,
+  after: ImageData,
+  ignoreRegions: IgnoreRegion[] = [],
+  tolerance: number = SETTLE_PIXEL_TOLERANCE
+): number {
+  const { width, height } = before;
+  if (width !== after.width || height !== after.height) {
+    return 1;
+  }
+
+  // Ignored regions in pixel coordinates
+  const ignored = ignoreRegions.map((region) => ({
+    left: Math.floor(region.x * width),
+    top: Math.floor(region.y * height),
+    right: Math.ceil((region.x + region.width) * width),
+    bottom: Math.ceil((region.y + region.height) * height),
+  }));
+
+  let compared = 0;
+  let changed = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (
+        ignored.some(
+          (box) =>
+            x >= box.left && x < box.right && y >= box.top && y < box.bottom
+        )
+      ) {
+        continue;
+      }
+
+      compared++;
+      const i = (y * width + x) * 4;
+      for (let channel = 0; channel < 4; channel++) {
+        if (
+          Math.abs(before.data[i + channel] - after.data[i + channel]) >
+          tolerance
+        ) {
+          changed++;
+          break;
+        }
+      }
+    }
+  }
+
+  return compared > 0 ? changed / compared : 0;
+}
+
+/**
+ * Measures how much a frame changed, comparing downsampled pixels
+ * Returns a fraction (0-1); falls back to exact data URL comparison when
+ * the images can't be decoded
+ */
+export async function measureImageChange(
+  before: string,
+  after: string,
+  ignoreRegions: IgnoreRegion[] = []
+): Promise<number> {
+  if (before === after) {
+    return 0;
+  }
+
+  try {
+    const [beforeData, afterData] = await Promise.all([
+      dataURLToImageData(before, SETTLE_SAMPLE_WIDTH),
+      dataURLToImageData(after, SETTLE_SAMPLE_WIDTH),
+    ]);
+    return getPixelChangeRatio(beforeData, afterData, ignoreRegions);
+  } catch (error) {
+    libraryConsole.warn(
+      "⚠️ Pixel comparison failed, treating frames as changed:",
+      error
+    );
+    return 1;
+  }
+}
+
+/**
+ * Serializes the captured root for a frame's DOM snapshot
+ * A snapshot that fails shouldn't lose the frame, so failures are logged
+ */
+function getDomSnapshot(
+  root: HTMLElement,
+  options: CaptureOptions
+): DomSnapshot | undefined {
+  try {
+    return serializeDOM(root, {
+      obfuscationEnabled: options.obfuscationEnabled,
+      excludeSelector: options.excludeSelector,
+    });
+  } catch (error) {
+    libraryConsole.warn("Failed to serialize DOM snapshot:", error);
+    return undefined;
+  }
+}
+
 /**
  * Sanitizes HTML for safe storage/export
  * Removes script tags and event handlers
@@ -784,6 +1433,8 @@ export async function captureManualFrame(
     viewportSize,
     scrollPosition,
     captureType: 'post-click', // Manual captures are like post-click frames
+    url: window.location.href,
+    pageTitle: document.title,
   };
 
   // Optionally collect HTML snapshot
@@ -791,6 +1442,10 @@ export async function captureManualFrame(
     metadata.htmlSnapshot = sanitizeHTML(root.outerHTML);
   }
 
+  if (options.collectDomSnapshot) {
+    metadata.domSnapshot = getDomSnapshot(root, options);
+  }
+
   const frame: Frame = {
     id: frameId,
     reelId,
@@ -802,3 +1457,476 @@ export async function captureManualFrame(
 
   return frame;
 }
+
+/**
+ * Selector strategies for a capture
+ * Accessible names can be personal data, so role selectors are left out
+ * while obfuscation is on
+ */
+function getSelectorStrategies(options: CaptureOptions): SelectorStrategy[] {
+  const strategies = options.selectorStrategies ?? DEFAULT_SELECTOR_STRATEGIES;
+  return options.obfuscationEnabled
+    ? strategies.filter((strategy) => strategy !== "role")
+    : strategies;
+}
+
+/**
+ * Picks the element's selector with the capture's strategies, keeping the
+ * other unique selectors as fallbacks
+ */
+export function getSelectorMetadata(
+  element: HTMLElement,
+  root: HTMLElement,
+  options: CaptureOptions
+): Pick<
+  FrameMetadata,
+  "elementPath" | "selectorStrategy" | "selectorFallbacks"
+> {
+  const [best, ...fallbacks] = getElementSelectors(
+    element,
+    root,
+    getSelectorStrategies(options)
+  );
+  return {
+    elementPath: best.selector,
+    selectorStrategy: best.strategy,
+    selectorFallbacks: fallbacks,
+  };
+}
+
+/**
+ * Describes the element a click or keystroke was aimed at
+ * The name and text are masked when obfuscation would hide the element's text
+ */
+export function getTargetInfo(
+  element: HTMLElement,
+  obfuscationEnabled: boolean
+): TargetInfo {
+  const target = getInteractiveTarget(element);
+  const rect = target.getBoundingClientRect();
+  const frameOffset = getFrameOffset(target);
+  const masked =
+    obfuscationEnabled &&
+    DEFAULT_OBFUSCATION_CONFIG.obfuscateText &&
+    shouldObfuscate(target, DEFAULT_OBFUSCATION_CONFIG);
+
+  const role = getElementRole(target);
+  const name = getAccessibleName(target);
+  const text = getVisibleText(target);
+  const testId = target.getAttribute("data-testid");
+  // Query strings and fragments often carry tokens
+  const href =
+    target.tagName === "A"
+      ? target.getAttribute("href")?.split(/[?#]/)[0]
+      : undefined;
+
+  return {
+    tag: target.tagName.toLowerCase(),
+    ...(role && { role }),
+    ...(name && { name: masked ? maskValue(name) : name }),
+    ...(text && { text: masked ? maskValue(text) : text }),
+    ...(testId && { testId }),
+    ...(href && { href }),
+    box: {
+      x: Math.round(rect.left + frameOffset.x),
+      y: Math.round(rect.top + frameOffset.y),
+      width: Math.round(rect.width),
+      height: Math.round(rect.height),
+    },
+    ...(masked && { masked }),
+  };
+}
+
+/**
+ * Builds keystroke details for a frame, masking the key and field value
+ * when the field is a password or is obfuscated
+ */
+export function getKeystrokeInfo(
+  target: HTMLElement,
+  keyEvent: KeyboardEvent | null,
+  obfuscationEnabled: boolean
+): KeystrokeInfo {
+  const masked = shouldMaskInput(target, obfuscationEnabled);
+  const isField =
+    target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement;
+
+  const info: KeystrokeInfo = {
+    trigger: keyEvent ? "key" : "input",
+    masked,
+  };
+
+  if (keyEvent) {
+    // Single printable characters typed into a masked field are masked too
+    info.key =
+      masked && keyEvent.key.length === 1
+        ? maskValue(keyEvent.key)
+        : keyEvent.key;
+    info.modifiers = {
+      ctrl: keyEvent.ctrlKey,
+      shift: keyEvent.shiftKey,
+      alt: keyEvent.altKey,
+      meta: keyEvent.metaKey,
+    };
+  }
+
+  if (isField) {
+    info.fieldTag = target.tagName.toLowerCase();
+    if (target instanceof HTMLInputElement) {
+      info.inputType = target.type;
+    }
+    info.value = masked ? maskValue(target.value) : target.value;
+  }
+
+  return info;
+}
+
+/**
+ * Captures a frame after typing into a field or pressing a key
+ * No marker is drawn; key/value details are stored in metadata
+ */
+export async function captureKeystrokeFrame(
+  root: HTMLElement,
+  target: HTMLElement,
+  keyEvent: KeyboardEvent | null,
+  options: CaptureOptions,
+  reelId: string,
+  order: number
+): Promise<Frame> {
+  const frameId = nanoid();
+  const timestamp = Date.now();
+
+  const keystroke = getKeystrokeInfo(
+    target,
+    keyEvent,
+    options.obfuscationEnabled || false
+  );
+
+  // Use the center of the focused element as the frame's point of interest
+  const rect = target.getBoundingClientRect();
+  const rootOrigin = getRootOrigin(root);
+  const viewportCoords = {
+    x: rect.left + rect.width / 2,
+    y: rect.top + rect.height / 2,
+  };
+
+  const metadata: FrameMetadata = {
+    viewportCoords,
+    relativeCoords: {
+      x: viewportCoords.x - rootOrigin.x,
+      y: viewportCoords.y - rootOrigin.y,
+    },
+    ...getSelectorMetadata(target, root, options),
+    buttonType: -1,
+    viewportSize: getViewportSize(),
+    scrollPosition: getScrollPosition(),
+    captureType: "keystroke",
+    keystroke,
+    target: getTargetInfo(target, options.obfuscationEnabled || false),
+  };
+
+  console.log("⌨️ Capturing keystroke frame:", {
+    trigger: keystroke.trigger,
+    key: keystroke.key,
+    masked: keystroke.masked,
+    elementPath: metadata.elementPath,
+  });
+
+  const dataUrl = await captureToDataURL(root, options);
+
+  return finishFrame(
+    root,
+    frameId,
+    reelId,
+    timestamp,
+    order,
+    dataUrl,
+    metadata,
+    options
+  );
+}
+
+/**
+ * Builds scroll details from the offsets before and after a scroll
+ * The dominant axis decides the direction
+ */
+export function getScrollInfo(
+  container: HTMLElement | null,
+  root: HTMLElement,
+  from: { x: number; y: number },
+  to: { x: number; y: number },
+  strategies: SelectorStrategy[] = DEFAULT_SELECTOR_STRATEGIES
+): ScrollInfo {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+
+  let direction: ScrollInfo["direction"];
+  if (Math.abs(dy) >= Math.abs(dx)) {
+    direction = dy >= 0 ? "down" : "up";
+  } else {
+    direction = dx >= 0 ? "right" : "left";
+  }
+
+  return {
+    direction,
+    from,
+    to,
+    containerPath: container
+      ? getElementPath(container, root, strategies)
+      : "document",
+  };
+}
+
+/**
+ * Captures a frame after scrolling settles, with a scroll-direction indicator
+ * container is null when the page itself was scrolled
+ */
+export async function captureScrollFrame(
+  root: HTMLElement,
+  container: HTMLElement | null,
+  from: { x: number; y: number },
+  to: { x: number; y: number },
+  options: CaptureOptions,
+  reelId: string,
+  order: number
+): Promise<Frame> {
+  const frameId = nanoid();
+  const timestamp = Date.now();
+
+  const scroll = getScrollInfo(
+    container,
+    root,
+    from,
+    to,
+    getSelectorStrategies(options)
+  );
+  const viewportSize = getViewportSize();
+  const scrollPosition = getScrollPosition();
+
+  // Place the indicator near the edge of the scrolled area, on the scroll axis
+  const area = container
+    ? container.getBoundingClientRect()
+    : {
+        left: 0,
+        top: 0,
+        width: viewportSize.width,
+        height: viewportSize.height,
+      };
+  const inset = Math.min(48, area.width / 2, area.height / 2);
+  const edgeCoords = {
+    up: { x: area.left + area.width / 2, y: area.top + inset },
+    down: { x: area.left + area.width / 2, y: area.top + area.height - inset },
+    left: { x: area.left + inset, y: area.top + area.height / 2 },
+    right: { x: area.left + area.width - inset, y: area.top + area.height / 2 },
+  };
+  const viewportCoords = edgeCoords[scroll.direction];
+
+  // Same root-relative positioning as the click marker (viewport + scroll for the page)
+  const rootOrigin = getRootOrigin(root);
+  const markerCoords = {
+    x: viewportCoords.x - rootOrigin.x,
+    y: viewportCoords.y - rootOrigin.y,
+  };
+
+  const metadata: FrameMetadata = {
+    viewportCoords,
+    relativeCoords: {
+      x: viewportCoords.x - rootOrigin.x,
+      y: viewportCoords.y - rootOrigin.y,
+    },
+    elementPath: scroll.containerPath,
+    buttonType: -1,
+    viewportSize,
+    scrollPosition,
+    captureType: "scroll",
+    markerCoords,
+    scroll,
+  };
+
+  console.log("📜 Capturing scroll frame:", scroll);
+
+  const indicator = createScrollIndicatorElement(
+    markerCoords,
+    scroll.direction,
+    { color: options.markerStyle?.color }
+  );
+  const dataUrl = await captureToDataURL(root, options, false, null, [
+    indicator,
+  ]);
+
+  return finishFrame(
+    root,
+    frameId,
+    reelId,
+    timestamp,
+    order,
+    dataUrl,
+    metadata,
+    options
+  );
+}
+
+/**
+ * Builds drag details from a sampled pointer path
+ */
+export function getDragInfo(
+  source: HTMLElement,
+  dropTarget: HTMLElement | null,
+  root: HTMLElement,
+  path: DragPoint[],
+  strategies: SelectorStrategy[] = DEFAULT_SELECTOR_STRATEGIES
+): DragInfo {
+  const start = path[0];
+  const end = path[path.length - 1];
+
+  return {
+    path,
+    distance: Math.round(Math.hypot(end.x - start.x, end.y - start.y)),
+    duration: end.t - start.t,
+    sourcePath: getElementPath(source, root, strategies),
+    ...(dropTarget && {
+      dropPath: getElementPath(dropTarget, root, strategies),
+    }),
+  };
+}
+
+/**
+ * Captures a frame after a drag gesture, with the pointer path drawn as a
+ * trail and the click marker at the release point
+ */
+export async function captureDragFrame(
+  root: HTMLElement,
+  source: HTMLElement,
+  path: DragPoint[],
+  buttonType: number,
+  options: CaptureOptions,
+  reelId: string,
+  order: number
+): Promise<Frame> {
+  const frameId = nanoid();
+  const timestamp = Date.now();
+
+  const end = path[path.length - 1];
+  const viewportCoords = { x: end.x, y: end.y };
+  const viewportSize = getViewportSize();
+  const scrollPosition = getScrollPosition();
+
+  // The element under the release point (the dropped item or its new container)
+  const hit = document.elementFromPoint?.(end.x, end.y) as HTMLElement | null;
+  const dropTarget = hit && root.contains(hit) ? hit : null;
+  const drag = getDragInfo(
+    source,
+    dropTarget,
+    root,
+    path,
+    getSelectorStrategies(options)
+  );
+
+  // Same root-relative positioning as the click marker (viewport + scroll for the page)
+  const rootOrigin = getRootOrigin(root);
+  const markerCoords = {
+    x: viewportCoords.x - rootOrigin.x,
+    y: viewportCoords.y - rootOrigin.y,
+  };
+
+  const metadata: FrameMetadata = {
+    viewportCoords,
+    relativeCoords: {
+      x: viewportCoords.x - rootOrigin.x,
+      y: viewportCoords.y - rootOrigin.y,
+    },
+    elementPath: drag.sourcePath,
+    buttonType,
+    viewportSize,
+    scrollPosition,
+    captureType: "drag",
+    markerCoords,
+    drag,
+  };
+
+  console.log("✋ Capturing drag frame:", {
+    points: path.length,
+    distance: drag.distance,
+    sourcePath: drag.sourcePath,
+    dropPath: drag.dropPath,
+  });
+
+  const markerAnchor = dropTarget || root;
+  const anchorRect = markerAnchor.getBoundingClientRect();
+  const markerInfo = {
+    targetElement: markerAnchor,
+    relativeOffset: {
+      x: viewportCoords.x - anchorRect.left,
+      y: viewportCoords.y - anchorRect.top,
+    },
+    viewportCoords,
+    scrollPosition,
+    buttonType,
+    style: {
+      ...DEFAULT_MARKER_STYLE,
+      ...options.markerStyle,
+    },
+  };
+
+  const trail = createDragTrailElement(
+    path.map((point) => ({
+      x: point.x - rootOrigin.x,
+      y: point.y - rootOrigin.y,
+    })),
+    { color: options.markerStyle?.color }
+  );
+  const dataUrl = await captureToDataURL(root, options, false, markerInfo, [
+    trail,
+  ]);
+
+  return finishFrame(
+    root,
+    frameId,
+    reelId,
+    timestamp,
+    order,
+    dataUrl,
+    metadata,
+    options
+  );
+}
+
+/**
+ * Captures a frame once a single-page app route change has rendered
+ * There is no marker; the frame's address and title tell where it went
+ */
+export async function captureNavigationFrame(
+  root: HTMLElement,
+  navigation: NavigationInfo,
+  options: CaptureOptions,
+  reelId: string,
+  order: number
+): Promise<Frame> {
+  const frameId = nanoid();
+  const timestamp = Date.now();
+
+  const metadata: FrameMetadata = {
+    viewportCoords: { x: 0, y: 0 },
+    relativeCoords: { x: 0, y: 0 },
+    elementPath: "document",
+    buttonType: -1,
+    viewportSize: getViewportSize(),
+    scrollPosition: getScrollPosition(),
+    captureType: "navigation",
+    navigation,
+  };
+
+  console.log("🧭 Capturing navigation frame:", navigation);
+
+  const dataUrl = await captureToDataURL(root, options);
+
+  return finishFrame(
+    root,
+    frameId,
+    reelId,
+    timestamp,
+    order,
+    dataUrl,
+    metadata,
+    options
+  );
+}
@@ -0,0 +1,165 @@
+/**
+ * Diagnostics collection
+ * Records console warnings and errors and uncaught errors while recording,
+ * so a reel showing broken UI also shows what went wrong
+ */
+
+import type { DiagnosticEntry } from "../types";
+import {
+  DIAGNOSTICS_MAX_ENTRIES,
+  DIAGNOSTICS_MAX_LENGTH,
+} from "../utils/constants";
+import { isLibraryLogging } from "../utils/library-console";
+
+/**
+ * An entry seen by the collector, with an absolute timestamp
+ */
+type CollectedEntry = Omit<DiagnosticEntry, "time"> & { timestamp: number };
+
+/**
+ * Shortens text to the recorded length
+ */
+function truncate(text: string): string {
+  return text.length > DIAGNOSTICS_MAX_LENGTH
+    ? `${text.slice(0, DIAGNOSTICS_MAX_LENGTH - 1)}…`
+    : text;
+}
+
+/**
+ * Turns a logged value into text, the way the console would show it
+ */
+function formatValue(value: unknown): string {
+  if (typeof value === "string") {
+    return value;
+  }
+  if (value instanceof Error) {
+    return `${value.name}: ${value.message}`;
+  }
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    // Circular structures and the like
+    return String(value);
+  }
+}
+
+/**
+ * Records console.error/console.warn calls, uncaught errors and unhandled
+ * promise rejections while installed
+ * Messages logged through libraryConsole, or while html-to-image renders a
+ * frame, are left out
+ */
+export class DiagnosticsCollector {
+  private entries: CollectedEntry[] = [];
+  private restore: (() => void) | null = null;
+
+  /**
+   * Whether the console and error listeners are currently in place
+   */
+  get installed(): boolean {
+    return this.restore !== null;
+  }
+
+  /**
+   * Wraps the window's console.error and console.warn and listens for
+   * uncaught errors
+   */
+  install(win: Window & typeof globalThis = window): void {
+    if (this.restore) {
+      return;
+    }
+
+    const record = this.record.bind(this);
+    const winConsole = win.console;
+
+    const originalError = winConsole.error;
+    const originalWarn = winConsole.warn;
+    // Click Reel's own messages (failed captures, uncacheable images) are
+    // not the page's, so they're passed on without recording
+    const trackedError = function (this: unknown, ...args: unknown[]) {
+      if (!isLibraryLogging()) {
+        record("console-error", args);
+      }
+      return originalError.apply(this, args);
+    };
+    const trackedWarn = function (this: unknown, ...args: unknown[]) {
+      if (!isLibraryLogging()) {
+        record("console-warn", args);
+      }
+      return originalWarn.apply(this, args);
+    };
+
+    // Errors from failed resource loads don't bubble, so only script
+    // errors reach a bubbling listener on the window
+    const onError = (event: ErrorEvent) => {
+      record("error", [event.error ?? event.message], {
+        ...(event.filename && { source: event.filename.split(/[?#]/)[0] }),
+        ...(event.lineno && { line: event.lineno }),
+        ...(event.colno && { column: event.colno }),
+      });
+    };
+    const onRejection = (event: PromiseRejectionEvent) => {
+      record("unhandled-rejection", [event.reason]);
+    };
+
+    winConsole.error = trackedError;
+    winConsole.warn = trackedWarn;
+    win.addEventListener("error", onError);
+    win.addEventListener("unhandledrejection", onRejection);
+
+    // Only unwrap what is still ours, in case something wrapped on top
+    this.restore = () => {
+      if (winConsole.error === trackedError) {
+        winConsole.error = originalError;
+      }
+      if (winConsole.warn === trackedWarn) {
+        winConsole.warn = originalWarn;
+      }
+      win.removeEventListener("error", onError);
+      win.removeEventListener("unhandledrejection", onRejection);
+    };
+
+    console.log("🩺 Diagnostics collection installed");
+  }
+
+  /**
+   * Restores the original console methods and removes the error listeners
+   */
+  uninstall(): void {
+    this.restore?.();
+    this.restore = null;
+  }
+
+  /**
+   * Hands over the entries collected since the last call, with times
+   * relative to the given click time, and forgets them
+   */
+  drain(since: number): DiagnosticEntry[] {
+    const entries = this.entries;
+    this.entries = [];
+    return entries.map(({ timestamp, ...entry }) => ({
+      ...entry,
+      time: timestamp - since,
+    }));
+  }
+
+  private record(
+    type: DiagnosticEntry["type"],
+    args: unknown[],
+    location: Pick<DiagnosticEntry, "source" | "line" | "column"> = {}
+  ): void {
+    const error = args.find((arg): arg is Error => arg instanceof Error);
+    this.entries.push({
+      type,
+      message: truncate(args.map(formatValue).join(" ")),
+      ...(error?.stack && { stack: truncate(error.stack) }),
+      ...location,
+      timestamp: Date.now(),
+    });
+
+    // A page logging in a loop shouldn't grow the reel without bound
+    if (this.entries.length > DIAGNOSTICS_MAX_ENTRIES) {
+      this.entries.shift();
+    }
+  }
+}
@@ -0,0 +1,333 @@
+/**
+ * DOM diffing
+ * Compares a click's pre-click and settled post-click snapshots, so a reel
+ * shows what the click changed in the DOM as well as how it looked
+ */
+
+import type { DomChange, DomDiff, FrameMetadata } from "../types";
+import {
+  DOM_DIFF_MAX_CHANGES,
+  DOM_DIFF_MAX_LENGTH,
+  SHADOW_PATH_SEPARATOR,
+  SNAPSHOT_SCROLL_ATTRIBUTE,
+} from "../utils/constants";
+
+/**
+ * Largest child list comparison (before × after children) that is matched
+ * up properly; longer lists only match their common start and end
+ */
+const MAX_MATCH_CELLS = 250_000;
+
+/**
+ * Collects changes, counting all of them but listing only so many
+ */
+class ChangeList {
+  readonly diff: DomDiff = {
+    changes: [],
+    counts: { added: 0, removed: 0, attribute: 0, text: 0 },
+  };
+
+  add(type: DomChange["type"], build: () => Omit<DomChange, "type">): void {
+    this.diff.counts[type]++;
+    if (this.diff.changes.length < DOM_DIFF_MAX_CHANGES) {
+      this.diff.changes.push({ type, ...build() });
+    } else {
+      this.diff.truncated = true;
+    }
+  }
+}
+
+/**
+ * Compares two HTML snapshots (documents or fragments) structurally
+ * Only the body is compared; styles in the head aren't page content
+ */
+export function diffDOM(before: string, after: string): DomDiff {
+  const parser = new DOMParser();
+  const list = new ChangeList();
+  compareChildren(
+    parser.parseFromString(before, "text/html").body,
+    parser.parseFromString(after, "text/html").body,
+    "",
+    list
+  );
+  return list.diff;
+}
+
+/**
+ * Diffs the snapshots of two frames, preferring DOM snapshots over HTML
+ * snapshots; null unless both frames have the same kind
+ */
+export function diffFrameSnapshots(
+  before: FrameMetadata,
+  after: FrameMetadata
+): DomDiff | null {
+  if (before.domSnapshot && after.domSnapshot) {
+    return diffDOM(before.domSnapshot.html, after.domSnapshot.html);
+  }
+  if (before.htmlSnapshot && after.htmlSnapshot) {
+    return diffDOM(before.htmlSnapshot, after.htmlSnapshot);
+  }
+  return null;
+}
+
+/**
+ * Whether a diff found any changes
+ */
+export function hasDomChanges(diff: DomDiff): boolean {
+  return Object.values(diff.counts).some((count) => count > 0);
+}
+
+/**
+ * Shortens recorded values and markup
+ */
+function shorten(text: string): string {
+  return text.length > DOM_DIFF_MAX_LENGTH
+    ? `${text.slice(0, DOM_DIFF_MAX_LENGTH - 1)}…`
+    : text;
+}
+
+/**
+ * Child nodes worth comparing: elements and text with something in it
+ * Declarative shadow roots are compared as their template's content
+ */
+function getChildren(parent: Node): Node[] {
+  const nodes =
+    parent instanceof HTMLTemplateElement
+      ? parent.content.childNodes
+      : parent.childNodes;
+  return Array.from(nodes).filter(
+    (node) =>
+      node.nodeType === Node.ELEMENT_NODE ||
+      (node.nodeType === Node.TEXT_NODE && !!node.textContent?.trim())
+  );
+}
+
+/**
+ * Key two nodes must share to be compared with each other
+ */
+function getKey(node: Node): string {
+  if (node.nodeType !== Node.ELEMENT_NODE) {
+    return "#text";
+  }
+  const el = node as Element;
+  return el.id ? `${el.localName}#${el.id}` : el.localName;
+}
+
+/**
+ * Path step for an element among its siblings
+ */
+function getStep(el: Element): string {
+  if (el.localName === "template" && el.hasAttribute("shadowrootmode")) {
+    return SHADOW_PATH_SEPARATOR;
+  }
+  if (/^[A-Za-z][\w-]*$/.test(el.id)) {
+    return `${el.localName}#${el.id}`;
+  }
+
+  const siblings = Array.from(el.parentNode?.children ?? []);
+  const sameTag = siblings.filter(
+    (sibling) => sibling.localName === el.localName
+  );
+  return sameTag.length > 1
+    ? `${el.localName}:nth-child(${siblings.indexOf(el) + 1})`
+    : el.localName;
+}
+
+/**
+ * Path to an element, from the path to its parent
+ */
+function getPath(el: Element, parentPath: string): string {
+  const step = getStep(el);
+  if (!parentPath) {
+    return step;
+  }
+  // Selectors inside a shadow root follow the separator without ">"
+  return parentPath.endsWith(SHADOW_PATH_SEPARATOR) ||
+    step === SHADOW_PATH_SEPARATOR
+    ? `${parentPath} ${step}`
+    : `${parentPath} > ${step}`;
+}
+
+/**
+ * Markup or text of a node, for added and removed nodes
+ */
+function describeNode(node: Node): string {
+  return shorten(
+    node.nodeType === Node.ELEMENT_NODE
+      ? (node as Element).outerHTML
+      : (node.textContent || "").trim()
+  );
+}
+
+/**
+ * Pairs up children that stay in place, by their keys
+ * The common start and end are matched first; the children in between are
+ * matched by their longest common subsequence
+ */
+function matchChildren(before: Node[], after: Node[]): Array<[number, number]> {
+  const beforeKeys = before.map(getKey);
+  const afterKeys = after.map(getKey);
+
+  let start = 0;
+  while (
+    start < before.length &&
+    start < after.length &&
+    beforeKeys[start] === afterKeys[start]
+  ) {
+    start++;
+  }
+
+  let beforeEnd = before.length;
+  let afterEnd = after.length;
+  while (
+    beforeEnd > start &&
+    afterEnd > start &&
+    beforeKeys[beforeEnd - 1] === afterKeys[afterEnd - 1]
+  ) {
+    beforeEnd--;
+    afterEnd--;
+  }
+
+  const pairs: Array<[number, number]> = [];
+  for (let i = 0; i < start; i++) {
+    pairs.push([i, i]);
+  }
+
+  const rows = beforeEnd - start;
+  const columns = afterEnd - start;
+  if (rows > 0 && columns > 0 && rows * columns <= MAX_MATCH_CELLS) {
+    // lengths[i][j]: common subsequence length of the rest from i and j
+    const lengths = Array.from({ length: rows + 1 }, () =>
+      new Array<number>(columns + 1).fill(0)
+    );
+    for (let i = rows - 1; i >= 0; i--) {
+      for (let j = columns - 1; j >= 0; j--) {
+        lengths[i][j] =
+          beforeKeys[start + i] === afterKeys[start + j]
+            ? lengths[i + 1][j + 1] + 1
+            : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < rows && j < columns) {
+      if (beforeKeys[start + i] === afterKeys[start + j]) {
+        pairs.push([start + i, start + j]);
+        i++;
+        j++;
+      } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+        i++;
+      } else {
+        j++;
+      }
+    }
+  }
+
+  for (let k = 0; beforeEnd + k < before.length; k++) {
+    pairs.push([beforeEnd + k, afterEnd + k]);
+  }
+
+  return pairs;
+}
+
+/**
+ * Compares the children of two matching elements
+ */
+function compareChildren(
+  before: Node,
+  after: Node,
+  parentPath: string,
+  list: ChangeList
+): void {
+  const beforeChildren = getChildren(before);
+  const afterChildren = getChildren(after);
+  const pairs = matchChildren(beforeChildren, afterChildren);
+
+  // Report the unmatched children between each pair as removed or added
+  let nextBefore = 0;
+  let nextAfter = 0;
+  const report = (beforeUntil: number, afterUntil: number) => {
+    for (; nextBefore < beforeUntil; nextBefore++) {
+      const node = beforeChildren[nextBefore];
+      list.add("removed", () => ({
+        path:
+          node.nodeType === Node.ELEMENT_NODE
+            ? getPath(node as Element, parentPath)
+            : parentPath || "body",
+        before: describeNode(node),
+      }));
+    }
+    for (; nextAfter < afterUntil; nextAfter++) {
+      const node = afterChildren[nextAfter];
+      list.add("added", () => ({
+        path:
+          node.nodeType === Node.ELEMENT_NODE
+            ? getPath(node as Element, parentPath)
+            : parentPath || "body",
+        after: describeNode(node),
+      }));
+    }
+  };
+
+  pairs.forEach(([i, j]) => {
+    report(i, j);
+    nextBefore = i + 1;
+    nextAfter = j + 1;
+
+    const beforeNode = beforeChildren[i];
+    const afterNode = afterChildren[j];
+    if (beforeNode.nodeType === Node.ELEMENT_NODE) {
+      compareElements(
+        beforeNode as Element,
+        afterNode as Element,
+        getPath(afterNode as Element, parentPath),
+        list
+      );
+      return;
+    }
+
+    const beforeText = (beforeNode.textContent || "").trim();
+    const afterText = (afterNode.textContent || "").trim();
+    if (beforeText !== afterText) {
+      list.add("text", () => ({
+        path: parentPath || "body",
+        before: shorten(beforeText),
+        after: shorten(afterText),
+      }));
+    }
+  });
+  report(beforeChildren.length, afterChildren.length);
+}
+
+/**
+ * Compares the attributes and children of two matching elements
+ */
+function compareElements(
+  before: Element,
+  after: Element,
+  path: string,
+  list: ChangeList
+): void {
+  const names = new Set([
+    ...before.getAttributeNames(),
+    ...after.getAttributeNames(),
+  ]);
+  // Scroll offsets are snapshot bookkeeping rather than page changes
+  names.delete(SNAPSHOT_SCROLL_ATTRIBUTE);
+
+  names.forEach((name) => {
+    const beforeValue = before.getAttribute(name);
+    const afterValue = after.getAttribute(name);
+    if (beforeValue !== afterValue) {
+      list.add("attribute", () => ({
+        path,
+        attribute: name,
+        ...(beforeValue !== null && { before: shorten(beforeValue) }),
+        ...(afterValue !== null && { after: shorten(afterValue) }),
+      }));
+    }
+  });
+
+  compareChildren(before, after, path, list);
+}
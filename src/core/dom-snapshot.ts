@@ -0,0 +1,526 @@
+/**
+ * DOM snapshots
+ * Serializes the captured DOM into a standalone, script-free HTML document
+ * with the page's styles, form state and scroll offsets, so any step can be
+ * re-rendered and inspected later
+ */
+
+import type { DomSnapshot, Frame, ObfuscationConfig } from "../types";
+import {
+  DEFAULT_OBFUSCATION_CONFIG,
+  shouldMaskInput,
+  shouldObfuscate,
+  maskValue,
+} from "../utils/obfuscation";
+import {
+  EXCLUDE_ATTRIBUTE,
+  SNAPSHOT_SCROLL_ATTRIBUTE,
+  SNAPSHOT_STYLES_ATTRIBUTE,
+} from "../utils/constants";
+import {
+  getScrollPosition,
+  getViewportSize,
+  querySelectorAllComposed,
+} from "../utils/dom-utils";
+
+/**
+ * Options for serializing a snapshot
+ */
+export interface DomSnapshotOptions {
+  /** Mask text, form values and images per the obfuscation rules */
+  obfuscationEnabled?: boolean;
+  /** CSS selector for elements to leave out (besides excluded ones) */
+  excludeSelector?: string;
+  /** Obfuscation rules (default: DEFAULT_OBFUSCATION_CONFIG) */
+  config?: ObfuscationConfig;
+}
+
+/**
+ * Elements left out of snapshots
+ * Stylesheets are collected separately, and noscript content would show
+ * in a viewer that runs no scripts
+ */
+const DROPPED_TAGS = new Set([
+  "script",
+  "noscript",
+  "template",
+  "style",
+  "link",
+  "meta",
+  "base",
+  "title",
+  "object",
+  "embed",
+]);
+
+/**
+ * Attributes holding URLs, which may hold javascript: URLs
+ */
+const URL_ATTRIBUTES = new Set([
+  "href",
+  "xlink:href",
+  "src",
+  "action",
+  "formaction",
+  "poster",
+  "data",
+]);
+
+/**
+ * Attributes masked on obfuscated elements, since they show or announce text
+ */
+const TEXT_ATTRIBUTES = ["title", "alt", "aria-label", "placeholder"];
+
+/**
+ * Serializes an element, or the whole page for the document element, into a
+ * snapshot that DomSnapshotViewer can re-render
+ */
+export function serializeDOM(
+  root: HTMLElement,
+  options: DomSnapshotOptions = {}
+): DomSnapshot {
+  const doc = root.ownerDocument;
+  return {
+    html: serializeDocument(
+      root === doc.documentElement ? doc.body : root,
+      options
+    ),
+    baseUrl: getBaseUrl(doc),
+    viewportSize: getViewportSize(),
+    scrollPosition: getScrollPosition(),
+  };
+}
+
+/**
+ * Puts back the scroll offsets recorded in a snapshot, once it has been
+ * rendered into the given document
+ */
+export function restoreSnapshotScroll(
+  doc: Document,
+  snapshot: Pick<DomSnapshot, "scrollPosition">
+): void {
+  querySelectorAllComposed(
+    doc.documentElement,
+    `[${SNAPSHOT_SCROLL_ATTRIBUTE}]`
+  ).forEach((el) => {
+    const [x, y] = (el.getAttribute(SNAPSHOT_SCROLL_ATTRIBUTE) || "")
+      .split(",")
+      .map(Number);
+    el.scrollLeft = x || 0;
+    el.scrollTop = y || 0;
+  });
+
+  doc.defaultView?.scrollTo(
+    snapshot.scrollPosition.x,
+    snapshot.scrollPosition.y
+  );
+}
+
+/**
+ * The page style element at the top of a snapshot (nested iframe documents
+ * come later, inside attributes). Its CSS can't contain "</style"
+ */
+const PAGE_STYLES_PATTERN = new RegExp(
+  `<style ${SNAPSHOT_STYLES_ATTRIBUTE}="([^"]*)">([\\s\\S]*?)</style>`
+);
+
+/**
+ * Short key for a stylesheet text (FNV-1a hash and length)
+ */
+function getStylesKey(css: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < css.length; i++) {
+    hash ^= css.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `${(hash >>> 0).toString(16)}-${css.length}`;
+}
+
+/**
+ * Moves the page CSS out of frames' DOM snapshots, so a reel stores each
+ * distinct stylesheet text once instead of once per frame. Snapshots keep
+ * the key of their CSS in its place
+ */
+export function packSnapshotStyles(frames: Frame[]): {
+  frames: Frame[];
+  styles: Record<string, string>;
+} {
+  const styles: Record<string, string> = {};
+  const packed = frames.map((frame) => {
+    const snapshot = frame.metadata.domSnapshot;
+    const match = snapshot?.html.match(PAGE_STYLES_PATTERN);
+    if (!snapshot || !match || match[1]) {
+      return frame;
+    }
+
+    const key = getStylesKey(match[2]);
+    styles[key] = match[2];
+    const html = snapshot.html.replace(
+      PAGE_STYLES_PATTERN,
+      () => `<style ${SNAPSHOT_STYLES_ATTRIBUTE}="${key}"></style>`
+    );
+    return {
+      ...frame,
+      metadata: { ...frame.metadata, domSnapshot: { ...snapshot, html } },
+    };
+  });
+  return { frames: packed, styles };
+}
+
+/**
+ * Puts the page CSS moved out by packSnapshotStyles back into snapshots
+ */
+export function unpackSnapshotStyles(
+  frames: Frame[],
+  styles: Record<string, string>
+): Frame[] {
+  return frames.map((frame) => {
+    const snapshot = frame.metadata.domSnapshot;
+    const key = snapshot?.html.match(PAGE_STYLES_PATTERN)?.[1];
+    if (!snapshot || !key || styles[key] === undefined) {
+      return frame;
+    }
+
+    const html = snapshot.html.replace(
+      PAGE_STYLES_PATTERN,
+      () => `<style ${SNAPSHOT_STYLES_ATTRIBUTE}="">${styles[key]}</style>`
+    );
+    return {
+      ...frame,
+      metadata: { ...frame.metadata, domSnapshot: { ...snapshot, html } },
+    };
+  });
+}
+
+/**
+ * Page address without query string or fragment, which may hold tokens
+ */
+function getBaseUrl(doc: Document): string {
+  return doc.location?.href.split(/[?#]/)[0] || "";
+}
+
+/**
+ * Builds the standalone HTML document for a snapshot
+ * The body's own content is kept for the body, otherwise the content element
+ * is placed inside an empty body
+ */
+function serializeDocument(
+  content: HTMLElement,
+  options: DomSnapshotOptions
+): string {
+  const source = content.ownerDocument;
+  const doc = document.implementation.createHTMLDocument("");
+  doc.head.innerHTML = "";
+
+  // Page scripts are removed, but a policy keeps exported snapshot files
+  // script-free when opened directly too
+  const policy = doc.createElement("meta");
+  policy.setAttribute("http-equiv", "Content-Security-Policy");
+  policy.setAttribute("content", "script-src 'none'; object-src 'none'");
+  const charset = doc.createElement("meta");
+  charset.setAttribute("charset", "utf-8");
+  const base = doc.createElement("base");
+  base.setAttribute("href", getBaseUrl(source));
+  const styles = createStyleElements(doc, source);
+  styles
+    .find((el) => el.localName === "style")
+    ?.setAttribute(SNAPSHOT_STYLES_ATTRIBUTE, "");
+  doc.head.append(charset, policy, base, ...styles);
+
+  // Themes and resets often hang off classes on <html> and <body>
+  copyAttributes(source.documentElement, doc.documentElement);
+  copyAttributes(source.body, doc.body);
+
+  const config = options.config || DEFAULT_OBFUSCATION_CONFIG;
+  const nodes =
+    content === source.body
+      ? Array.from(content.childNodes)
+      : [content as Node];
+  nodes.forEach((node) => {
+    const copy = serializeNode(node, doc, options, config);
+    if (copy) {
+      doc.body.appendChild(copy);
+    }
+  });
+
+  return `<!DOCTYPE html>\n${doc.documentElement.outerHTML}`;
+}
+
+/**
+ * Copies an element's attributes, leaving out event handlers and scripts
+ */
+function copyAttributes(from: Element, to: Element): void {
+  Array.from(from.attributes).forEach((attr) => {
+    to.setAttribute(attr.name, attr.value);
+  });
+  sanitizeAttributes(to);
+}
+
+/**
+ * Removes event handler attributes, javascript: URLs and inline documents
+ */
+function sanitizeAttributes(el: Element): void {
+  Array.from(el.attributes).forEach((attr) => {
+    const name = attr.name.toLowerCase();
+    if (
+      name.startsWith("on") ||
+      name === "srcdoc" ||
+      (URL_ATTRIBUTES.has(name) && /^\s*javascript:/i.test(attr.value))
+    ) {
+      el.removeAttribute(attr.name);
+    }
+  });
+}
+
+/**
+ * Turns a document's or shadow root's stylesheets into style elements
+ * Rules that can be read are inlined; cross-origin stylesheets can't be
+ * read, so they are linked instead
+ */
+function createStyleElements(
+  doc: Document,
+  scope: Document | ShadowRoot
+): Element[] {
+  // Not every environment has stylesheet lists on shadow roots
+  const sheets = [
+    ...Array.from(scope.styleSheets ?? []),
+    ...(scope.adoptedStyleSheets ?? []),
+  ];
+  const rules: string[] = [];
+  const links: Element[] = [];
+
+  sheets.forEach((sheet) => {
+    if (sheet.disabled) {
+      return;
+    }
+
+    let cssText: string;
+    try {
+      cssText = Array.from(sheet.cssRules)
+        .map((rule) => rule.cssText)
+        .join("\n");
+    } catch {
+      // Cross-origin stylesheets throw when their rules are read
+      if (sheet.href) {
+        const link = doc.createElement("link");
+        link.setAttribute("rel", "stylesheet");
+        link.setAttribute("href", sheet.href);
+        links.push(link);
+      }
+      return;
+    }
+
+    const media = sheet.media?.mediaText;
+    rules.push(media ? `@media ${media} {\n${cssText}\n}` : cssText);
+  });
+
+  if (rules.length === 0) {
+    return links;
+  }
+
+  const style = doc.createElement("style");
+  // Style content isn't escaped when serialized, so it mustn't close itself
+  style.textContent = rules.join("\n").replace(/<\/style/gi, "<\\/style");
+  return [...links, style];
+}
+
+/**
+ * Whether an element is left out of the snapshot
+ */
+function isDropped(el: Element, options: DomSnapshotOptions): boolean {
+  if (DROPPED_TAGS.has(el.localName) || el.hasAttribute(EXCLUDE_ATTRIBUTE)) {
+    return true;
+  }
+
+  if (options.excludeSelector) {
+    try {
+      return el.matches(options.excludeSelector);
+    } catch {
+      // Invalid selectors exclude nothing
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Copies a node into the snapshot document, with live state written into
+ * attributes and content masked per the obfuscation rules
+ */
+function serializeNode(
+  node: Node,
+  doc: Document,
+  options: DomSnapshotOptions,
+  config: ObfuscationConfig
+): Node | null {
+  if (node.nodeType === Node.TEXT_NODE) {
+    const text = node.textContent || "";
+    const parent = node.parentElement;
+    const masked =
+      !!options.obfuscationEnabled &&
+      config.obfuscateText &&
+      !!parent &&
+      shouldObfuscate(parent, config);
+    return doc.createTextNode(
+      masked ? text.replace(/\S/g, config.replacementChar) : text
+    );
+  }
+
+  if (node.nodeType !== Node.ELEMENT_NODE) {
+    // Comments and processing instructions
+    return null;
+  }
+
+  const el = node as HTMLElement;
+  if (isDropped(el, options)) {
+    return null;
+  }
+
+  const obfuscated =
+    !!options.obfuscationEnabled && shouldObfuscate(el, config);
+  const maskImage = obfuscated && config.obfuscateImages;
+
+  // Canvases keep their current pixels as an image
+  if (el.localName === "canvas" && !maskImage) {
+    const image = snapshotCanvas(el as HTMLCanvasElement, doc);
+    if (image) {
+      return image;
+    }
+  }
+
+  const copy = doc.importNode(el, false) as HTMLElement;
+  sanitizeAttributes(copy);
+
+  if (obfuscated) {
+    TEXT_ATTRIBUTES.forEach((name) => {
+      const value = copy.getAttribute(name);
+      if (value) {
+        copy.setAttribute(name, maskValue(value, config));
+      }
+    });
+  }
+
+  if (maskImage && ["img", "source", "video"].includes(el.localName)) {
+    ["src", "srcset", "poster"].forEach((name) => copy.removeAttribute(name));
+    copy.style.backgroundColor = "#cbd5e1";
+  }
+
+  if (el.localName === "iframe") {
+    snapshotFrame(el as HTMLIFrameElement, copy, options);
+  }
+
+  writeFormState(el, copy, options, config);
+
+  if (el.scrollLeft || el.scrollTop) {
+    copy.setAttribute(
+      SNAPSHOT_SCROLL_ATTRIBUTE,
+      `${Math.round(el.scrollLeft)},${Math.round(el.scrollTop)}`
+    );
+  }
+
+  // Textareas show their value, written by writeFormState
+  if (el.localName === "textarea") {
+    return copy;
+  }
+
+  // Open shadow roots become declarative shadow roots
+  if (el.shadowRoot) {
+    const template = doc.createElement("template");
+    template.setAttribute("shadowrootmode", el.shadowRoot.mode);
+    template.content.append(...createStyleElements(doc, el.shadowRoot));
+    el.shadowRoot.childNodes.forEach((child) => {
+      const childCopy = serializeNode(child, doc, options, config);
+      if (childCopy) {
+        template.content.appendChild(childCopy);
+      }
+    });
+    copy.appendChild(template);
+  }
+
+  el.childNodes.forEach((child) => {
+    const childCopy = serializeNode(child, doc, options, config);
+    if (childCopy) {
+      copy.appendChild(childCopy);
+    }
+  });
+
+  return copy;
+}
+
+/**
+ * Writes form fields' current values into attributes, which is all that
+ * serialized markup keeps
+ */
+function writeFormState(
+  el: HTMLElement,
+  copy: HTMLElement,
+  options: DomSnapshotOptions,
+  config: ObfuscationConfig
+): void {
+  const mask = (value: string) =>
+    shouldMaskInput(el, !!options.obfuscationEnabled, config)
+      ? maskValue(value, config)
+      : value;
+
+  if (el instanceof HTMLInputElement) {
+    if (el.type === "checkbox" || el.type === "radio") {
+      copy.toggleAttribute("checked", el.checked);
+    } else if (el.type === "file") {
+      copy.removeAttribute("value");
+    } else {
+      copy.setAttribute("value", mask(el.value));
+    }
+  } else if (el instanceof HTMLTextAreaElement) {
+    copy.textContent = mask(el.value);
+  } else if (el instanceof HTMLOptionElement) {
+    copy.toggleAttribute("selected", el.selected);
+  }
+}
+
+/**
+ * Copies a canvas's pixels into an image with the canvas's attributes
+ * Returns null for canvases that can't be read (cross-origin content)
+ */
+function snapshotCanvas(
+  canvas: HTMLCanvasElement,
+  doc: Document
+): HTMLElement | null {
+  let src: string;
+  try {
+    src = canvas.toDataURL();
+  } catch {
+    return null;
+  }
+  // Canvas rendering may be unavailable, which returns no data URL
+  if (!src?.startsWith("data:image/")) {
+    return null;
+  }
+
+  const image = doc.createElement("img");
+  copyAttributes(canvas, image);
+  image.setAttribute("src", src);
+  return image;
+}
+
+/**
+ * Same-origin iframes get their document inlined as a nested snapshot;
+ * others are left blank, since their content can't be read
+ */
+function snapshotFrame(
+  frame: HTMLIFrameElement,
+  copy: HTMLElement,
+  options: DomSnapshotOptions
+): void {
+  copy.removeAttribute("src");
+
+  let body: HTMLElement | null = null;
+  try {
+    body = frame.contentDocument?.body ?? null;
+  } catch {
+    // Cross-origin frames can throw instead of returning null
+  }
+
+  if (body) {
+    copy.setAttribute("srcdoc", serializeDocument(body, options));
+  }
+}
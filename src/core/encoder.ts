@@ -5,8 +5,15 @@
 import { GIFEncoder, quantize, applyPalette } from "gifenc";
 import UPNG from "upng-js";
 import type { Frame, GIFOptions, APNGOptions } from "../types";
-import { extractImageData, resizeImage } from "../utils/image-utils";
-import { DEFAULT_GIF_OPTIONS } from "../utils/constants";
+import {
+  extractImageData,
+  getImageDimensions,
+  insetImage,
+  resizeImage,
+} from "../utils/image-utils";
+import { DEFAULT_GIF_OPTIONS, ZOOM_FOCUS_INSET_SIZE } from "../utils/constants";
+import { renderAnnotations } from "./annotations";
+import { libraryConsole } from "../utils/library-console";
 
 /**
  * Progress callback for encoding operations
@@ -72,7 +79,7 @@ export async function encodeGIF(
         dispose: 2, // Restore to background
       });
     } catch (error) {
-      console.error(`Failed to process frame ${i}:`, error);
+      libraryConsole.error(`Failed to process frame ${i}:`, error);
       throw new Error(
         `Failed to encode frame ${i + 1}/${frames.length}: ${error instanceof Error ? error.message : String(error)}`
       );
@@ -233,6 +240,120 @@ export async function prepareFramesForEncoding(
   return preparedFrames;
 }
 
+/**
+ * Draws each frame's annotations over a copy of its image
+ * Stored frames keep their original images
+ */
+export async function applyAnnotations(
+  frames: Frame[],
+  onProgress?: ProgressCallback
+): Promise<Frame[]> {
+  if (!frames.some((frame) => frame.annotations?.length)) {
+    return frames;
+  }
+
+  const preparedFrames: Frame[] = [];
+
+  for (let i = 0; i < frames.length; i++) {
+    const frame = frames[i];
+    if (!frame.annotations?.length) {
+      preparedFrames.push(frame);
+      continue;
+    }
+
+    onProgress?.(
+      i,
+      frames.length,
+      `Annotating frame ${i + 1}/${frames.length}...`
+    );
+
+    const dataUrl =
+      typeof frame.image === "string"
+        ? frame.image
+        : await blobToDataURL(frame.image);
+
+    preparedFrames.push({
+      ...frame,
+      image: await renderAnnotations(dataUrl, frame.annotations),
+    });
+  }
+
+  return preparedFrames;
+}
+
+/**
+ * Renders recorded focus crops: an extra zoomed frame after each pre-click
+ * frame, or a picture-in-picture inset on it
+ */
+export async function applyFocusCrops(
+  frames: Frame[],
+  onProgress?: ProgressCallback
+): Promise<Frame[]> {
+  if (!frames.some((frame) => frame.metadata.focusCrop)) {
+    return frames;
+  }
+
+  const preparedFrames: Frame[] = [];
+
+  for (let i = 0; i < frames.length; i++) {
+    const frame = frames[i];
+    const crop = frame.metadata.focusCrop;
+    if (!crop) {
+      preparedFrames.push(frame);
+      continue;
+    }
+
+    onProgress?.(
+      i,
+      frames.length,
+      `Zooming frame ${i + 1}/${frames.length}...`
+    );
+
+    const dataUrl =
+      typeof frame.image === "string"
+        ? frame.image
+        : await blobToDataURL(frame.image);
+    const { width, height } = await getImageDimensions(dataUrl);
+
+    if (crop.mode === "frame") {
+      const zoomed = await resizeImage(dataUrl, width, height, crop);
+
+      // Split the time until the next frame between the frame and its zoom
+      const next = frames[i + 1];
+      const gap = next ? next.timestamp - frame.timestamp : 1000;
+
+      preparedFrames.push(frame, {
+        ...frame,
+        id: `${frame.id}-focus`,
+        image: zoomed,
+        timestamp: frame.timestamp + gap / 2,
+      });
+    } else {
+      const insetWidth = Math.round(width * ZOOM_FOCUS_INSET_SIZE);
+      const insetHeight = Math.round((insetWidth * crop.height) / crop.width);
+      const margin = Math.round(width * 0.02);
+
+      // Put the inset in the corner away from the click target
+      const cropCenterX = crop.x + crop.width / 2;
+      const cropCenterY = crop.y + crop.height / 2;
+      const box = {
+        x: cropCenterX < width / 2 ? width - insetWidth - margin : margin,
+        y: cropCenterY < height / 2 ? height - insetHeight - margin : margin,
+        width: insetWidth,
+        height: insetHeight,
+      };
+
+      const zoomed = await resizeImage(dataUrl, insetWidth, insetHeight, crop);
+      preparedFrames.push({
+        ...frame,
+        image: await insetImage(dataUrl, zoomed, box),
+      });
+    }
+  }
+
+  return preparedFrames;
+}
+
 /**
  * Converts a Blob to data URL
  */
@@ -275,9 +396,9 @@ async function getImageDataFromFrame(frame: Frame): Promise<ImageData> {
 
     return imageData;
   } catch (error) {
-    console.error(`Error processing frame ${frame.id}:`, error);
-    console.error("Frame image type:", typeof frame.image);
-    console.error(
+    libraryConsole.error(`Error processing frame ${frame.id}:`, error);
+    libraryConsole.error("Frame image type:", typeof frame.image);
+    libraryConsole.error(
       "Frame image preview:",
       typeof frame.image === "string" ? frame.image.substring(0, 100) : "Blob"
     );
@@ -3,14 +3,24 @@
  */
 
 import JSZip from "jszip";
-import type { Reel } from "../types";
-import { encodeGIF, encodeAPNG, type ProgressCallback } from "./encoder";
+import type { CaptureType, Reel } from "../types";
+import {
+  encodeGIF,
+  encodeAPNG,
+  applyAnnotations,
+  applyFocusCrops,
+  type ProgressCallback,
+} from "./encoder";
 import {
   generateReelMetadata,
   exportMetadataJSON,
+  exportDiagnosticsLog,
+  exportDomDiffLog,
   generateFilename,
 } from "./metadata";
 import { DEFAULT_GIF_OPTIONS, DEFAULT_APNG_OPTIONS } from "../utils/constants";
+import { describeTarget } from "../utils/element-semantics";
+import { formatRoute, getRouteChapters } from "./navigation";
 import { dataURLToBlob } from "../utils/image-utils";
 
 /**
@@ -34,6 +44,8 @@ export interface ExportOptions {
   gifOptions?: Parameters<typeof encodeGIF>[1];
   /** APNG encoding options (if format is 'apng' or 'zip') */
   apngOptions?: Parameters<typeof encodeAPNG>[1];
+  /** Frame capture types to leave out of the export (e.g. ["scroll"]) */
+  skipCaptureTypes?: CaptureType[];
   /** Progress callback */
   onProgress?: ProgressCallback;
 }
@@ -66,9 +78,25 @@ export async function exportReel(
     filename,
     gifOptions = DEFAULT_GIF_OPTIONS,
     apngOptions = DEFAULT_APNG_OPTIONS,
+    skipCaptureTypes = [],
     onProgress,
   } = options;
 
+  if (skipCaptureTypes.length > 0) {
+    reel = {
+      ...reel,
+      frames: reel.frames.filter(
+        (frame) => !skipCaptureTypes.includes(frame.metadata.captureType)
+      ),
+    };
+  }
+
+  // Draw annotations first, so zoomed frames and insets show them too
+  reel = { ...reel, frames: await applyAnnotations(reel.frames, onProgress) };
+
+  // Render zoom focus crops recorded with pre-click frames
+  reel = { ...reel, frames: await applyFocusCrops(reel.frames, onProgress) };
+
   const baseFilename =
     filename ||
     generateFilename(reel, "zip").replace(/\.(gif|png|zip|json)$/, "");
@@ -202,6 +230,20 @@ async function exportZIP(
   }
   currentStep += frameCount;
 
+  // Add DOM snapshots as standalone pages, named after their frames
+  if (reel.frames.some((frame) => frame.metadata.domSnapshot)) {
+    const domFolder = zip.folder("dom");
+    reel.frames.forEach((frame, i) => {
+      if (frame.metadata.domSnapshot) {
+        const paddedNum = String(i + 1).padStart(3, "0");
+        domFolder?.file(
+          `frame-${paddedNum}.html`,
+          frame.metadata.domSnapshot.html
+        );
+      }
+    });
+  }
+
   // Add metadata JSON
   if (options.includeMetadata) {
     onProgress?.(currentStep++, totalSteps, "Generating metadata...");
@@ -209,6 +251,18 @@ async function exportZIP(
     zip.file(`${filename}-metadata.json`, metadataJSON);
   }
 
+  // Add the console log (if anything was recorded)
+  const diagnosticsLog = exportDiagnosticsLog(reel);
+  if (diagnosticsLog) {
+    zip.file(`${filename}-console.log`, `${diagnosticsLog}\n`);
+  }
+
+  // Add what each click changed in the DOM (if snapshots were recorded)
+  const domDiffLog = exportDomDiffLog(reel);
+  if (domDiffLog) {
+    zip.file(`${filename}-dom-diff.txt`, `${domDiffLog}\n`);
+  }
+
   // Add HTML snapshot (if available and requested)
   if (options.includeHTML && reel.frames[0]?.metadata.htmlSnapshot) {
     onProgress?.(currentStep++, totalSteps, "Adding HTML snapshot...");
@@ -280,6 +334,66 @@ export async function exportAndDownload(
 function generateHTMLViewer(reel: Reel): string {
   const metadata = generateReelMetadata(reel);
 
+  // Where each route change starts, for reels that cross several
+  const chapters = getRouteChapters(reel.frames);
+  const routes =
+    chapters.length > 1
+      ? chapters.map(
+          (chapter) =>
+            `<li><strong>Frame ${chapter.frameIndex + 1}:</strong> ${escapeHTML(formatRoute(chapter.url))}${chapter.title ? ` (${escapeHTML(chapter.title)})` : ""}</li>`
+        )
+      : [];
+
+  // What each click or keystroke was aimed at, in words
+  const steps = reel.frames.flatMap((frame, index) => {
+    const { target, captureType } = frame.metadata;
+    if (
+      !target ||
+      (captureType !== "pre-click" && captureType !== "keystroke")
+    ) {
+      return [];
+    }
+    const action = captureType === "keystroke" ? "Typed in" : "Clicked";
+    const description = escapeHTML(`${action} ${describeTarget(target)}`);
+    const details = [
+      target.testId && `data-testid="${target.testId}"`,
+      target.href && `href="${target.href}"`,
+    ]
+      .filter(Boolean)
+      .join(" ");
+    return [
+      `<li><strong>Frame ${index + 1}:</strong> ${description}${details ? ` <code>${escapeHTML(details)}</code>` : ""}</li>`,
+    ];
+  });
+
+  // Callout text, listed so it can be read and searched outside the images
+  const notes = reel.frames.flatMap((frame, index) =>
+    (frame.annotations || [])
+      .filter((annotation) => annotation.type === "text" && annotation.text)
+      .map(
+        (annotation) =>
+          `<li><strong>Frame ${index + 1}:</strong> ${escapeHTML(annotation.text || "")}</li>`
+      )
+  );
+
+  // Console warnings and errors, next to the frame they were recorded with
+  const diagnostics = reel.frames.flatMap((frame, index) =>
+    (frame.metadata.diagnostics || []).map((entry) => {
+      const time = `${entry.time >= 0 ? "+" : ""}${entry.time}ms`;
+      return `<li class="${entry.type}"><strong>Frame ${index + 1} (${time}) ${entry.type}:</strong> ${escapeHTML(entry.message)}${
+        entry.stack ? `<pre>${escapeHTML(entry.stack)}</pre>` : ""
+      }</li>`;
+    })
+  );
+  const errorCount = reel.frames.reduce(
+    (count, frame) =>
+      count +
+      (frame.metadata.diagnostics || []).filter(
+        (entry) => entry.type !== "console-warn"
+      ).length,
+    0
+  );
+
   return `<!DOCTYPE html>
 <html lang="en">
 <head>
@@ -368,6 +482,35 @@ function generateHTMLViewer(reel: Reel): string {
     .tab-content.active {
       display: block;
     }
+    .routes, .steps, .notes, .diagnostics {
+      margin-top: 2rem;
+    }
+    .routes h2, .steps h2, .notes h2, .diagnostics h2 {
+      color: #555;
+      font-size: 1.2rem;
+      margin-bottom: 1rem;
+    }
+    .steps code {
+      color: #888;
+      font-size: 0.85rem;
+    }
+    .routes li, .steps li, .notes li, .diagnostics li {
+      margin: 0 0 0.5rem 1.5rem;
+      color: #444;
+      white-space: pre-line;
+    }
+    .diagnostics li.console-warn {
+      color: #8a6d00;
+    }
+    .diagnostics li:not(.console-warn) {
+      color: #b00020;
+    }
+    .diagnostics pre {
+      margin-top: 0.25rem;
+      color: #888;
+      font-size: 0.8rem;
+      white-space: pre-wrap;
+    }
   </style>
 </head>
 <body>
@@ -397,6 +540,11 @@ function generateHTMLViewer(reel: Reel): string {
         <dd>${metadata.viewportSize.width}x${metadata.viewportSize.height}</dd>
         
         ${metadata.url ? `<dt>URL:</dt><dd>${metadata.url}</dd>` : ""}
+        ${
+          reel.settings.diagnosticsCaptureEnabled
+            ? `<dt>Console:</dt><dd>${errorCount} errors, ${diagnostics.length - errorCount} warnings</dd>`
+            : ""
+        }
       </dl>
     </div>
 
@@ -412,6 +560,46 @@ function generateHTMLViewer(reel: Reel): string {
     <div id="apng-content" class="tab-content media-container">
       <img src="${reel.title}.png" alt="${reel.title} APNG">
     </div>
+    ${
+      routes.length > 0
+        ? `<div class="routes">
+      <h2>Routes</h2>
+      <ol>
+        ${routes.join("\n        ")}
+      </ol>
+    </div>`
+        : ""
+    }
+    ${
+      steps.length > 0
+        ? `<div class="steps">
+      <h2>Steps</h2>
+      <ol>
+        ${steps.join("\n        ")}
+      </ol>
+    </div>`
+        : ""
+    }
+    ${
+      notes.length > 0
+        ? `<div class="notes">
+      <h2>Notes</h2>
+      <ul>
+        ${notes.join("\n        ")}
+      </ul>
+    </div>`
+        : ""
+    }
+    ${
+      diagnostics.length > 0
+        ? `<div class="diagnostics">
+      <h2>Console</h2>
+      <ul>
+        ${diagnostics.join("\n        ")}
+      </ul>
+    </div>`
+        : ""
+    }
   </div>
 
   <script>
@@ -433,6 +621,17 @@ function generateHTMLViewer(reel: Reel): string {
 </html>`;
 }
 
+/**
+ * Escapes text for use in HTML content
+ */
+function escapeHTML(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
 /**
  * Create a shareable link from a reel (base64 encoded)
  */
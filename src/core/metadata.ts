@@ -3,7 +3,8 @@
  */
 
 import { format } from 'date-fns';
-import type { Reel, ReelMetadata, Frame } from '../types';
+import type { Reel, ReelMetadata, Frame, DomDiff } from '../types';
+import { describeTarget } from '../utils/element-semantics';
 
 /**
  * Generates comprehensive metadata for a reel
@@ -54,7 +55,13 @@ export function exportMetadataJSON(reel: Reel): string {
       order: frame.order,
       timestamp: format(frame.timestamp, 'yyyy-MM-dd HH:mm:ss.SSS'),
       captureType: frame.metadata.captureType,
+      ...(frame.metadata.url && { url: frame.metadata.url }),
+      ...(frame.metadata.pageTitle && { pageTitle: frame.metadata.pageTitle }),
       elementPath: frame.metadata.elementPath,
+      ...(frame.metadata.selectorStrategy && {
+        selectorStrategy: frame.metadata.selectorStrategy,
+        selectorFallbacks: frame.metadata.selectorFallbacks ?? [],
+      }),
       coordinates: {
         viewport: frame.metadata.viewportCoords,
         relative: frame.metadata.relativeCoords,
@@ -62,6 +69,25 @@ export function exportMetadataJSON(reel: Reel): string {
       buttonType: getButtonName(frame.metadata.buttonType),
       viewportSize: frame.metadata.viewportSize,
       scrollPosition: frame.metadata.scrollPosition,
+      ...(frame.metadata.keystroke && { keystroke: frame.metadata.keystroke }),
+      ...(frame.metadata.scroll && { scroll: frame.metadata.scroll }),
+      ...(frame.metadata.drag && { drag: frame.metadata.drag }),
+      ...(frame.metadata.navigation && {
+        navigation: frame.metadata.navigation,
+      }),
+      ...(frame.metadata.focusCrop && { focusCrop: frame.metadata.focusCrop }),
+      ...(frame.metadata.network && { network: frame.metadata.network }),
+      ...(frame.metadata.diagnostics && {
+        diagnostics: frame.metadata.diagnostics,
+      }),
+      ...(frame.metadata.domDiff && { domDiff: frame.metadata.domDiff }),
+      ...(frame.metadata.target && {
+        target: {
+          description: describeTarget(frame.metadata.target),
+          ...frame.metadata.target,
+        },
+      }),
+      ...(frame.annotations && { annotations: frame.annotations }),
     })),
     settings: reel.settings,
   };
@@ -69,6 +95,82 @@ export function exportMetadataJSON(reel: Reel): string {
   return JSON.stringify(exportData, null, 2);
 }
 
+/**
+ * Exports the reel's console warnings and errors as a plain-text log, one
+ * entry per line with stack traces indented below
+ * Empty when nothing was recorded
+ */
+export function exportDiagnosticsLog(reel: Reel): string {
+  return reel.frames
+    .flatMap((frame, index) =>
+      (frame.metadata.diagnostics || []).map((entry) => {
+        const time = `${entry.time >= 0 ? '+' : ''}${entry.time}ms`;
+        const location = entry.source
+          ? ` (${entry.source}:${entry.line ?? 0}:${entry.column ?? 0})`
+          : '';
+        const stack = (entry.stack || '')
+          .split('\n')
+          .filter((line) => line.trim())
+          .map((line) => `\n    ${line.trim()}`)
+          .join('');
+        return `[frame ${index + 1} ${time}] ${entry.type}: ${entry.message}${location}${stack}`;
+      })
+    )
+    .join('\n');
+}
+
+/**
+ * Summarizes a DOM diff's counts, e.g. "2 added, 1 attribute"
+ */
+export function summarizeDomDiff(diff: DomDiff): string {
+  const { added, removed, attribute, text } = diff.counts;
+  const parts = [
+    added && `${added} added`,
+    removed && `${removed} removed`,
+    attribute && `${attribute} attribute${attribute === 1 ? '' : 's'}`,
+    text && `${text} text`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : 'No changes';
+}
+
+/**
+ * Exports what each click changed in the DOM as plain text, one change per
+ * line ("+" added, "-" removed, "~" changed) with markup indented below
+ * Empty when no frame has a DOM diff
+ */
+export function exportDomDiffLog(reel: Reel): string {
+  return reel.frames
+    .flatMap((frame, index) => {
+      const diff = frame.metadata.domDiff;
+      if (!diff) {
+        return [];
+      }
+
+      const lines = diff.changes.map((change) => {
+        switch (change.type) {
+          case 'added':
+            return `+ ${change.path}\n    ${change.after}`;
+          case 'removed':
+            return `- ${change.path}\n    ${change.before}`;
+          case 'attribute':
+            return `~ ${change.path} [${change.attribute}]: ${JSON.stringify(change.before ?? null)} -> ${JSON.stringify(change.after ?? null)}`;
+          case 'text':
+            return `~ ${change.path} (text): ${JSON.stringify(change.before)} -> ${JSON.stringify(change.after)}`;
+        }
+      });
+      if (diff.truncated) {
+        const total = Object.values(diff.counts).reduce(
+          (sum, count) => sum + count,
+          0
+        );
+        lines.push(`  … ${total - diff.changes.length} more changes`);
+      }
+
+      return [`[frame ${index + 1}] ${summarizeDomDiff(diff)}`, ...lines];
+    })
+    .join('\n');
+}
+
 /**
  * Gets human-readable button name
  */
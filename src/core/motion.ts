@@ -0,0 +1,101 @@
+/**
+ * Motion capture
+ * Keeps a bounded, deduplicated set of intermediate post-click frames so
+ * exports show transitions (menu slide-ins, modal fades) instead of jumping
+ * straight to the settled state
+ */
+
+import type { Frame } from "../types";
+import { measureImageChange, type IgnoreRegion } from "./capture";
+
+/**
+ * Options for collecting intermediate frames
+ */
+export interface MotionCollectorOptions {
+  /** Most intermediate frames kept for one click */
+  maxFrames: number;
+  /** Percentage of compared pixels that must change for a frame to be kept */
+  threshold: number;
+  /** Regions whose changes don't count (spinners, clocks) */
+  getIgnoreRegions?: () => IgnoreRegion[];
+}
+
+/**
+ * Collects intermediate frames for one click
+ * Frames that barely differ from the last kept frame are dropped, and once
+ * the limit is reached the frame closest in time to its neighbours goes, so
+ * the kept frames stay spread across the whole transition
+ */
+export class MotionCollector {
+  private frames: Frame[] = [];
+
+  constructor(private options: MotionCollectorOptions) {}
+
+  /**
+   * Offers a frame; resolves to whether it was kept
+   */
+  async add(frame: Frame): Promise<boolean> {
+    const last = this.frames[this.frames.length - 1];
+    if (last && !(await this.differs(last, frame))) {
+      return false;
+    }
+
+    this.frames.push({
+      ...frame,
+      metadata: { ...frame.metadata, captureType: "motion" },
+    });
+    if (this.frames.length > this.options.maxFrames) {
+      this.frames.splice(this.getLeastUsefulIndex(), 1);
+    }
+    return true;
+  }
+
+  /**
+   * Returns the kept frames, oldest first, without the trailing frames that
+   * already look like the final frame
+   */
+  async finish(finalFrame: Frame): Promise<Frame[]> {
+    while (
+      this.frames.length > 0 &&
+      !(await this.differs(this.frames[this.frames.length - 1], finalFrame))
+    ) {
+      this.frames.pop();
+    }
+    return [...this.frames];
+  }
+
+  private async differs(before: Frame, after: Frame): Promise<boolean> {
+    // Only data URLs can be compared
+    if (typeof before.image !== "string" || typeof after.image !== "string") {
+      return true;
+    }
+
+    const change = await measureImageChange(
+      before.image,
+      after.image,
+      this.options.getIgnoreRegions?.() ?? []
+    );
+    return change * 100 > this.options.threshold;
+  }
+
+  /**
+   * Index of the frame whose neighbours are closest together in time
+   * The first and last frames are kept while there are others to drop
+   */
+  private getLeastUsefulIndex(): number {
+    if (this.frames.length < 3) {
+      return 0;
+    }
+
+    let bestIndex = 1;
+    let bestGap = Infinity;
+    for (let i = 1; i < this.frames.length - 1; i++) {
+      const gap = this.frames[i + 1].timestamp - this.frames[i - 1].timestamp;
+      if (gap < bestGap) {
+        bestGap = gap;
+        bestIndex = i;
+      }
+    }
+    return bestIndex;
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * Route change tracking
+ * Notices single-page app navigations while recording, so a reel that
+ * crosses several routes shows where each one starts
+ */
+
+import type { FrameMetadata, NavigationInfo } from "../types";
+
+/**
+ * Where a run of frames on the same page address starts
+ */
+export interface RouteChapter {
+  /** Index of the chapter's first frame */
+  frameIndex: number;
+  /** Page address of the chapter's frames */
+  url: string;
+  /** Document title at the chapter's first frame */
+  title?: string;
+}
+
+/**
+ * Reports history.pushState/replaceState calls and back/forward navigation
+ * while installed
+ */
+export class NavigationTracker {
+  private restore: (() => void) | null = null;
+
+  constructor(private readonly onNavigate: (info: NavigationInfo) => void) {}
+
+  /**
+   * Whether the history methods are currently wrapped
+   */
+  get installed(): boolean {
+    return this.restore !== null;
+  }
+
+  /**
+   * Wraps the window's history.pushState and history.replaceState and
+   * listens for popstate
+   */
+  install(win: Window & typeof globalThis = window): void {
+    if (this.restore) {
+      return;
+    }
+
+    const history = win.history;
+    let current = win.location.href;
+
+    // Replacing state without changing the address (scroll restoration,
+    // router bookkeeping) is not a route change
+    const report = (trigger: NavigationInfo["trigger"]) => {
+      const from = current;
+      current = win.location.href;
+      if (current !== from) {
+        this.onNavigate({ trigger, from, to: current });
+      }
+    };
+
+    const originalPushState = history.pushState;
+    const originalReplaceState = history.replaceState;
+    const trackedPushState = function (
+      this: History,
+      ...args: Parameters<History["pushState"]>
+    ) {
+      originalPushState.apply(this, args);
+      report("push");
+    };
+    const trackedReplaceState = function (
+      this: History,
+      ...args: Parameters<History["replaceState"]>
+    ) {
+      originalReplaceState.apply(this, args);
+      report("replace");
+    };
+    // Also fires for in-page anchor links, which change the fragment
+    const onPopState = () => report("pop");
+
+    history.pushState = trackedPushState;
+    history.replaceState = trackedReplaceState;
+    win.addEventListener("popstate", onPopState);
+
+    // Only unwrap what is still ours, in case something wrapped on top
+    this.restore = () => {
+      if (history.pushState === trackedPushState) {
+        history.pushState = originalPushState;
+      }
+      if (history.replaceState === trackedReplaceState) {
+        history.replaceState = originalReplaceState;
+      }
+      win.removeEventListener("popstate", onPopState);
+    };
+
+    console.log("🧭 Navigation tracking installed");
+  }
+
+  /**
+   * Restores the original history methods and removes the popstate listener
+   */
+  uninstall(): void {
+    this.restore?.();
+    this.restore = null;
+  }
+}
+
+/**
+ * Splits frames into chapters, one per run of frames on the same address
+ * Frames without a recorded address (older reels) stay in the chapter
+ * before them; reels without any addresses have no chapters
+ */
+export function getRouteChapters(
+  frames: Array<{ metadata?: Pick<FrameMetadata, "url" | "pageTitle"> }>
+): RouteChapter[] {
+  const chapters: RouteChapter[] = [];
+  frames.forEach(({ metadata }, index) => {
+    if (metadata?.url && metadata.url !== chapters[chapters.length - 1]?.url) {
+      chapters.push({
+        frameIndex: index,
+        url: metadata.url,
+        ...(metadata.pageTitle && { title: metadata.pageTitle }),
+      });
+    }
+  });
+  return chapters;
+}
+
+/**
+ * Shortens a page address for display to its path, query and fragment
+ * (history navigation can't leave the origin)
+ */
+export function formatRoute(url: string): string {
+  try {
+    const { pathname, search, hash } = new URL(url);
+    return `${pathname}${search}${hash}`;
+  } catch {
+    return url;
+  }
+}
@@ -0,0 +1,270 @@
+/**
+ * Network activity tracking
+ * Wraps fetch and XMLHttpRequest while recording so post-click capture can
+ * wait for the requests a click started to finish
+ */
+
+import type { NetworkActivity, NetworkRequestInfo } from "../types";
+import {
+  NETWORK_IDLE_PERIOD,
+  NETWORK_MAX_TRACKED_REQUESTS,
+  SETTLE_CHECK_INTERVAL,
+} from "../utils/constants";
+
+/**
+ * A request seen by the tracker, with absolute timestamps
+ */
+interface TrackedRequest {
+  type: NetworkRequestInfo["type"];
+  method: string;
+  url: string;
+  startTime: number;
+  endTime?: number;
+  status?: number;
+}
+
+// fetch as it was before a tracker wrapped it
+let nativeFetch: typeof fetch | null = null;
+
+/**
+ * Request options that mark a fetch as the recorder's own (html-to-image's
+ * fetchRequestInit); an installed tracker passes it on without recording it
+ */
+export const UNTRACKED_REQUEST: NonNullable<Parameters<typeof fetch>[1]> =
+  Object.freeze({});
+
+/**
+ * Fetches without being seen by an installed tracker, so the recorder's own
+ * requests (e.g. cached images) don't count as page activity
+ */
+export function untrackedFetch(
+  ...args: Parameters<typeof fetch>
+): ReturnType<typeof fetch> {
+  return (nativeFetch ?? fetch)(...args);
+}
+
+/**
+ * Drops the query string and fragment, which often carry tokens
+ */
+function stripQuery(url: string): string {
+  return url.split(/[?#]/)[0];
+}
+
+/**
+ * Reads the method and URL from fetch arguments
+ */
+function describeFetch([input, init]: Parameters<typeof fetch>): {
+  method: string;
+  url: string;
+} {
+  if (typeof input === "string") {
+    return { method: init?.method ?? "GET", url: input };
+  }
+  if (input instanceof URL) {
+    return { method: init?.method ?? "GET", url: input.href };
+  }
+  return { method: init?.method ?? input.method, url: input.url };
+}
+
+/**
+ * Records fetch and XMLHttpRequest calls while installed
+ */
+export class NetworkTracker {
+  private requests: TrackedRequest[] = [];
+  private restore: (() => void) | null = null;
+
+  /**
+   * Whether fetch and XMLHttpRequest are currently wrapped
+   */
+  get installed(): boolean {
+    return this.restore !== null;
+  }
+
+  /**
+   * Wraps fetch and XMLHttpRequest on the window
+   */
+  install(win: Window & typeof globalThis = window): void {
+    if (this.restore) {
+      return;
+    }
+
+    const start = this.start.bind(this);
+    const finish = this.finish.bind(this);
+
+    const originalFetch = win.fetch;
+    const trackedFetch: typeof fetch = (...args) => {
+      if (args[1] === UNTRACKED_REQUEST) {
+        return originalFetch.apply(win, args);
+      }
+
+      const { method, url } = describeFetch(args);
+      const request = start("fetch", method, url);
+      return originalFetch.apply(win, args).then(
+        (response) => {
+          finish(request, response.status);
+          return response;
+        },
+        (error) => {
+          finish(request, 0);
+          throw error;
+        }
+      );
+    };
+
+    const xhrPrototype = win.XMLHttpRequest.prototype;
+    const originalOpen = xhrPrototype.open;
+    const originalSend = xhrPrototype.send;
+    const openedRequests = new WeakMap<
+      XMLHttpRequest,
+      { method: string; url: string }
+    >();
+    const trackedOpen = function (
+      this: XMLHttpRequest,
+      method: string,
+      url: string | URL,
+      ...rest: unknown[]
+    ) {
+      openedRequests.set(this, { method, url: String(url) });
+      return (originalOpen as (...args: unknown[]) => void).apply(this, [
+        method,
+        url,
+        ...rest,
+      ]);
+    };
+    const trackedSend = function (
+      this: XMLHttpRequest,
+      ...args: Parameters<XMLHttpRequest["send"]>
+    ) {
+      const opened = openedRequests.get(this);
+      if (opened) {
+        const request = start("xhr", opened.method, opened.url);
+        this.addEventListener("loadend", () => finish(request, this.status), {
+          once: true,
+        });
+      }
+      return originalSend.apply(this, args);
+    };
+
+    win.fetch = trackedFetch;
+    xhrPrototype.open = trackedOpen;
+    xhrPrototype.send = trackedSend;
+    nativeFetch = originalFetch;
+
+    // Only unwrap what is still ours, in case something wrapped on top
+    this.restore = () => {
+      if (win.fetch === trackedFetch) {
+        win.fetch = originalFetch;
+      }
+      if (xhrPrototype.open === trackedOpen) {
+        xhrPrototype.open = originalOpen;
+      }
+      if (xhrPrototype.send === trackedSend) {
+        xhrPrototype.send = originalSend;
+      }
+      nativeFetch = null;
+    };
+
+    console.log("🌐 Network tracking installed");
+  }
+
+  /**
+   * Restores the original fetch and XMLHttpRequest
+   */
+  uninstall(): void {
+    this.restore?.();
+    this.restore = null;
+  }
+
+  /**
+   * Number of requests started since the given time that are still in flight
+   */
+  getPendingCount(since: number): number {
+    return this.requests.filter(
+      (request) => request.startTime >= since && request.endTime === undefined
+    ).length;
+  }
+
+  /**
+   * Requests started since the given time, with times relative to it
+   */
+  getRequestsSince(since: number): NetworkRequestInfo[] {
+    return this.requests
+      .filter((request) => request.startTime >= since)
+      .map((request) => ({
+        type: request.type,
+        method: request.method,
+        url: request.url,
+        start: request.startTime - since,
+        ...(request.endTime !== undefined && {
+          duration: request.endTime - request.startTime,
+          status: request.status,
+        }),
+      }));
+  }
+
+  /**
+   * Waits until no request started since the given time is in flight, or the
+   * timeout passes. Requests that were already running (e.g. long polling)
+   * don't hold up the wait
+   */
+  waitForIdle(since: number, timeout: number): Promise<NetworkActivity> {
+    const startTime = Date.now();
+    let lastBusy = startTime;
+
+    return new Promise((resolve) => {
+      const interval = setInterval(() => {
+        const now = Date.now();
+        if (this.getPendingCount(since) > 0) {
+          lastBusy = now;
+        }
+
+        // Stay idle for a moment so chained requests are caught too
+        const idle = now - lastBusy >= NETWORK_IDLE_PERIOD;
+        if (!idle && now - startTime < timeout) {
+          return;
+        }
+
+        clearInterval(interval);
+        const requests = this.getRequestsSince(since);
+        resolve({
+          idle,
+          waitDuration: now - startTime,
+          requestCount: requests.length,
+          requests,
+        });
+      }, SETTLE_CHECK_INTERVAL);
+    });
+  }
+
+  private start(
+    type: TrackedRequest["type"],
+    method: string,
+    url: string
+  ): TrackedRequest {
+    const request: TrackedRequest = {
+      type,
+      method: method.toUpperCase(),
+      url: stripQuery(url),
+      startTime: Date.now(),
+    };
+    this.requests.push(request);
+
+    // Forget the oldest finished requests once the list grows too long
+    while (this.requests.length > NETWORK_MAX_TRACKED_REQUESTS) {
+      const index = this.requests.findIndex(
+        (tracked) => tracked.endTime !== undefined
+      );
+      if (index === -1) {
+        break;
+      }
+      this.requests.splice(index, 1);
+    }
+
+    return request;
+  }
+
+  private finish(request: TrackedRequest, status: number): void {
+    request.endTime = Date.now();
+    request.status = status;
+  }
+}
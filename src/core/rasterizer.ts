@@ -0,0 +1,144 @@
+/**
+ * Rasterizer adapters for the capture engine
+ * The engine prepares the DOM and a rasterizer turns it into an image
+ */
+
+import * as htmlToImage from "html-to-image";
+import type { RasterizeOptions, Rasterizer } from "../types";
+import type { ResourceCache } from "./resource-cache";
+import { UNTRACKED_REQUEST } from "./network";
+import { runAsLibrary } from "../utils/library-console";
+
+/**
+ * Runs an html-to-image call with its requests kept out of network tracking
+ * and cached images served in place of fetching them again
+ * Resource and font requests carry UNTRACKED_REQUEST; stylesheets read for
+ * web fonts are fetched without options, so they are recognised by address.
+ * The page's own requests during the render go through unchanged
+ */
+async function withRenderFetch<T>(
+  element: HTMLElement,
+  resourceCache: ResourceCache | undefined,
+  render: () => Promise<T>
+): Promise<T> {
+  const pageFetch = window.fetch;
+  const stylesheets = new Set(
+    Array.from(element.ownerDocument.styleSheets, (sheet) => sheet.href)
+  );
+  const renderFetch: typeof window.fetch = async (input, init) => {
+    const isRenderRequest =
+      typeof input === "string" &&
+      (init === UNTRACKED_REQUEST ||
+        (init === undefined && stylesheets.has(input)));
+    if (!isRenderRequest) {
+      return pageFetch(input, init);
+    }
+
+    const cached = await resourceCache?.getImageResponse(input);
+    return cached ?? pageFetch(input, UNTRACKED_REQUEST);
+  };
+
+  window.fetch = renderFetch;
+  try {
+    return await render();
+  } finally {
+    // Only unwrap what is still ours, in case something wrapped on top
+    if (window.fetch === renderFetch) {
+      window.fetch = pageFetch;
+    }
+  }
+}
+
+/**
+ * Default rasterizer backed by html-to-image
+ */
+export const htmlToImageRasterizer: Rasterizer = {
+  name: "html-to-image",
+  async rasterize(element, { resourceCache, ...options }) {
+    const renderOptions = {
+      ...options,
+      quality: 0.95,
+      cacheBust: true,
+      fetchRequestInit: UNTRACKED_REQUEST,
+    };
+
+    // html-to-image logs resources it can't load; that's not page output
+    const blob = await runAsLibrary(() =>
+      withRenderFetch(element, resourceCache, async () => {
+        // Reading every stylesheet and embedding fonts is the slowest part of
+        // a render, so reuse the result across a recording
+        const fontEmbedCSS =
+          resourceCache && !options.skipFonts
+            ? await resourceCache.getFontCSS(element, () =>
+                htmlToImage.getFontEmbedCSS(element, renderOptions)
+              )
+            : undefined;
+
+        return htmlToImage.toBlob(element, { ...renderOptions, fontEmbedCSS });
+      })
+    );
+
+    if (!blob) {
+      throw new Error("Failed to generate blob from element");
+    }
+
+    return blob;
+  },
+};
+
+/**
+ * Picks the rasterizer from capture options, falling back to html-to-image
+ */
+export function getRasterizer(options: {
+  rasterizer?: Rasterizer;
+}): Rasterizer {
+  return options.rasterizer ?? htmlToImageRasterizer;
+}
+
+/**
+ * A render recorded by the in-memory rasterizer
+ */
+export interface RasterizeCall {
+  element: HTMLElement;
+  options: RasterizeOptions;
+}
+
+/**
+ * In-memory rasterizer that records every render
+ */
+export interface MemoryRasterizer extends Rasterizer {
+  /** Renders so far, oldest first */
+  calls: RasterizeCall[];
+}
+
+/**
+ * Creates an in-memory rasterizer for deterministic tests
+ * By default each render is a stand-in Blob built from the output size and
+ * the element's markup, so identical DOM states produce identical images
+ * and any DOM change produces a different one. Pass render to return
+ * specific images instead
+ */
+export function createMemoryRasterizer(
+  render?: (
+    element: HTMLElement,
+    options: RasterizeOptions
+  ) => Blob | string | Promise<Blob | string>
+): MemoryRasterizer {
+  const calls: RasterizeCall[] = [];
+
+  return {
+    name: "memory",
+    calls,
+    async rasterize(element, options) {
+      calls.push({ element, options });
+
+      const image = render
+        ? await render(element, options)
+        : `${options.width ?? element.clientWidth}x${options.height ?? element.clientHeight}@${options.pixelRatio}:${element.outerHTML}`;
+
+      return typeof image === "string"
+        ? new Blob([image], { type: "image/png" })
+        : image;
+    },
+  };
+}
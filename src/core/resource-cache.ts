@@ -0,0 +1,257 @@
+/**
+ * Per-recording cache for resources that captures inline into each frame
+ * Embedded font CSS and image data URLs are loaded once and reused by every
+ * capture in a reel until the document changes
+ */
+
+import { blobToDataURL } from "../utils/image-utils";
+import { untrackedFetch } from "./network";
+import {
+  closestComposed,
+  getSameOriginFrames,
+  querySelectorAllComposed,
+} from "../utils/dom-utils";
+import { EXCLUDE_ATTRIBUTE } from "../utils/constants";
+import { libraryConsole } from "../utils/library-console";
+
+/**
+ * Hit/miss counts for one kind of cached resource
+ */
+export interface ResourceCacheCounter {
+  hits: number;
+  misses: number;
+}
+
+/**
+ * Cache effectiveness since the recording started
+ */
+export interface ResourceCacheStats {
+  /** Font CSS (stylesheet @font-face rules with fonts embedded) */
+  fonts: ResourceCacheCounter;
+  /** Image data URLs */
+  images: ResourceCacheCounter;
+  /** Times cached resources were dropped because the document changed */
+  invalidations: number;
+}
+
+/**
+ * Identifies the resources a document can pull in: its URL, stylesheets and
+ * loaded font faces. Any change means cached resources may be stale
+ */
+export function getDocumentSignature(doc: Document): string {
+  const sheets = Array.from(doc.styleSheets).map(
+    (sheet) =>
+      sheet.href || `inline:${sheet.ownerNode?.textContent?.length ?? 0}`
+  );
+  return [doc.URL, doc.fonts?.size ?? 0, ...sheets].join("|");
+}
+
+/**
+ * Font families a capture root renders with, as html-to-image sees them when
+ * it picks the @font-face rules to embed
+ */
+function getUsedFontFamilies(element: HTMLElement): Set<string> {
+  const families = new Set<string>();
+  [element, ...querySelectorAllComposed(element, "*")].forEach((node) => {
+    const view = node.ownerDocument.defaultView ?? window;
+    view
+      .getComputedStyle(node)
+      .fontFamily.split(",")
+      .forEach((family) => {
+        const name = family.trim().replace(/["']/g, "");
+        if (name) {
+          families.add(name);
+        }
+      });
+  });
+  return families;
+}
+
+/**
+ * Font CSS cached for a capture root, with the families it was built for
+ */
+interface CachedFontCSS {
+  families: Set<string>;
+  css: Promise<string>;
+}
+
+/**
+ * Caches embedded fonts, inlined CSS and image data URLs across the captures
+ * of a single recording
+ */
+export class ResourceCache {
+  private signatures = new WeakMap<Document, string>();
+  private fontCSS = new WeakMap<HTMLElement, CachedFontCSS>();
+  private images = new Map<string, Promise<string | null>>();
+  private stats: ResourceCacheStats = {
+    fonts: { hits: 0, misses: 0 },
+    images: { hits: 0, misses: 0 },
+    invalidations: 0,
+  };
+
+  /**
+   * Drops cached resources for a document whose signature changed since the
+   * last capture. Changes to the top-level document also drop cached images
+   */
+  validate(doc: Document): void {
+    const signature = getDocumentSignature(doc);
+    const previous = this.signatures.get(doc);
+    this.signatures.set(doc, signature);
+
+    if (previous === undefined || previous === signature) {
+      return;
+    }
+
+    console.log("🗃️ Document changed, invalidating resource cache");
+    this.stats.invalidations++;
+    // Font CSS is keyed by element, so replace the whole map
+    this.fontCSS = new WeakMap();
+    if (doc === document) {
+      this.images.clear();
+    }
+  }
+
+  /**
+   * Returns the font CSS for a capture root, loading it on a miss
+   * html-to-image only embeds the fonts in use, so cached CSS is reused
+   * while the root renders with no family it wasn't built for (content
+   * shown after a click can bring in new fonts)
+   */
+  getFontCSS(
+    element: HTMLElement,
+    load: () => Promise<string>
+  ): Promise<string> {
+    this.validate(element.ownerDocument);
+
+    const families = getUsedFontFamilies(element);
+    const cached = this.fontCSS.get(element);
+    if (
+      cached &&
+      Array.from(families).every((family) => cached.families.has(family))
+    ) {
+      this.stats.fonts.hits++;
+      return cached.css;
+    }
+
+    this.stats.fonts.misses++;
+    const entry = { families, css: load() };
+    this.fontCSS.set(element, entry);
+    // Failed loads are retried on the next capture
+    entry.css.catch(() => {
+      if (this.fontCSS.get(element) === entry) {
+        this.fontCSS.delete(element);
+      }
+    });
+    return entry.css;
+  }
+
+  /**
+   * Returns an image as a data URL, fetching it on a miss
+   * Resolves to null when the image can't be fetched (e.g. CORS)
+   */
+  getImageDataURL(url: string): Promise<string | null> {
+    const cached = this.images.get(url);
+    if (cached) {
+      this.stats.images.hits++;
+      return cached;
+    }
+
+    this.stats.images.misses++;
+    const dataUrl = untrackedFetch(url)
+      .then((response) => {
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+        return response.blob();
+      })
+      .then(blobToDataURL)
+      .catch((error) => {
+        libraryConsole.warn(`🗃️ Could not cache image ${url}:`, error);
+        return null;
+      });
+    this.images.set(url, dataUrl);
+    return dataUrl;
+  }
+
+  /**
+   * Returns an already cached image without counting or fetching it
+   * Also matches the address with html-to-image's cache-busting timestamp
+   * (?123 or &123) appended
+   */
+  peekImageDataURL(url: string): Promise<string | null> | undefined {
+    return this.images.get(url) ?? this.images.get(url.replace(/[?&]\d+$/, ""));
+  }
+
+  /**
+   * Answers a request for an already cached image without fetching it, or
+   * resolves to null when the image isn't cached
+   */
+  async getImageResponse(url: string): Promise<Response | null> {
+    const dataUrl = await this.peekImageDataURL(url);
+    if (!dataUrl) {
+      return null;
+    }
+
+    // Decode the (base64) data URL rather than fetching it
+    const [header, data] = dataUrl.split(",");
+    const type = header.slice("data:".length).split(";")[0];
+    const bytes = Uint8Array.from(atob(data), (char) => char.charCodeAt(0));
+    return new Response(bytes, { headers: { "Content-Type": type } });
+  }
+
+  /**
+   * Current hit/miss counts
+   */
+  getStats(): ResourceCacheStats {
+    return {
+      fonts: { ...this.stats.fonts },
+      images: { ...this.stats.images },
+      invalidations: this.stats.invalidations,
+    };
+  }
+
+  /**
+   * One-line summary of hit rates for debug output
+   */
+  describeStats(): string {
+    const rate = ({ hits, misses }: ResourceCacheCounter) => {
+      const total = hits + misses;
+      return total > 0
+        ? `${hits}/${total} hits (${Math.round((hits / total) * 100)}%)`
+        : "unused";
+    };
+    return `fonts ${rate(this.stats.fonts)}, images ${rate(this.stats.images)}, ${this.stats.invalidations} invalidation(s)`;
+  }
+}
+
+/**
+ * Loads the images a capture will render into the cache, including those
+ * inside same-origin iframes. Called before the page is prepared for the
+ * capture, so images are read from the page as it is
+ */
+export async function preloadImages(
+  element: HTMLElement,
+  cache: ResourceCache
+): Promise<void> {
+  const roots = [
+    element,
+    ...getSameOriginFrames(element).map(
+      (frame) => (frame.contentDocument as Document).documentElement
+    ),
+  ];
+
+  const urls = new Set<string>();
+  for (const root of roots) {
+    cache.validate(root.ownerDocument);
+
+    querySelectorAllComposed<HTMLImageElement>(root, "img[src]")
+      .filter(
+        (img) =>
+          !img.src.startsWith("data:") &&
+          !closestComposed(img, `[${EXCLUDE_ATTRIBUTE}]`)
+      )
+      .forEach((img) => urls.add(img.src));
+  }
+
+  await Promise.all(Array.from(urls, (url) => cache.getImageDataURL(url)));
+}
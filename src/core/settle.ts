@@ -0,0 +1,223 @@
+/**
+ * Event-driven settlement detection
+ * Instead of rasterizing repeatedly, watches DOM mutations, running
+ * animations and transitions, and pending loads of visible images under the
+ * capture root, and resolves once all of them have been quiet for a while
+ */
+
+import {
+  closestComposed,
+  containsComposed,
+  getOpenShadowRoots,
+  getSameOriginFrames,
+  querySelectorAllComposed,
+} from "../utils/dom-utils";
+import {
+  EXCLUDE_ATTRIBUTE,
+  IGNORE_CHANGE_ATTRIBUTE,
+  SETTLE_CHECK_INTERVAL,
+} from "../utils/constants";
+import { libraryConsole } from "../utils/library-console";
+
+/**
+ * Options for waiting until the page settles
+ */
+export interface SettleWatchOptions {
+  /** How long everything must stay quiet (ms) */
+  quietPeriod: number;
+  /** Give up after this long (ms) */
+  timeout: number;
+  /** CSS selector for regions whose activity is ignored (spinners, clocks) */
+  ignoreSelector?: string;
+}
+
+/**
+ * Outcome of waiting for the page to settle
+ */
+export interface SettleResult {
+  /** Whether the page went quiet before the timeout */
+  settled: boolean;
+  /** Time spent waiting (ms) */
+  duration: number;
+  /** DOM mutations seen while waiting (ignored regions excluded) */
+  mutations: number;
+}
+
+/**
+ * Builds the selector for regions whose activity doesn't count: excluded
+ * elements (e.g. the recorder UI), marked regions and the user's selector
+ */
+function getIgnoredSelector(ignoreSelector?: string): string {
+  const builtIn = `[${EXCLUDE_ATTRIBUTE}], [${IGNORE_CHANGE_ATTRIBUTE}]`;
+  if (!ignoreSelector) {
+    return builtIn;
+  }
+
+  try {
+    document.createDocumentFragment().querySelector(ignoreSelector);
+    return `${builtIn}, ${ignoreSelector}`;
+  } catch (error) {
+    libraryConsole.warn(
+      `⚠️ Invalid settlement ignore selector "${ignoreSelector}":`,
+      error
+    );
+    return builtIn;
+  }
+}
+
+/**
+ * Whether an element is the root or inside it, crossing shadow boundaries
+ * Elements in same-origin iframes under the root count as inside
+ */
+function isUnderRoot(element: Element, root: HTMLElement): boolean {
+  return (
+    element.ownerDocument !== root.ownerDocument ||
+    containsComposed(root, element)
+  );
+}
+
+/**
+ * Whether an image is still loading something the frame will show
+ * Lazy images and images outside the viewport may never load while the page
+ * is left alone, so they don't hold up settlement
+ */
+function isLoadingVisibleImage(img: HTMLImageElement): boolean {
+  if (img.complete || img.loading === "lazy") {
+    return false;
+  }
+
+  const view = img.ownerDocument.defaultView ?? window;
+  const rect = img.getBoundingClientRect();
+  return (
+    rect.bottom >= 0 &&
+    rect.right >= 0 &&
+    rect.top <= view.innerHeight &&
+    rect.left <= view.innerWidth
+  );
+}
+
+/**
+ * Waits until the capture root has been quiet for the quiet period, or the
+ * timeout passes. Infinite animations (spinners) never finish, so they
+ * don't hold up settlement
+ */
+export function waitForSettle(
+  root: HTMLElement,
+  options: SettleWatchOptions
+): Promise<SettleResult> {
+  const ignoredSelector = getIgnoredSelector(options.ignoreSelector);
+  const isIgnored = (node: Node | null): boolean => {
+    const element = node instanceof Element ? node : node?.parentElement;
+    return !element || !!closestComposed(element, ignoredSelector);
+  };
+
+  // Everything under the root that can be observed: the root itself, open
+  // shadow roots and same-origin iframe documents
+  const frameRoots = getSameOriginFrames(root).map(
+    (frame) => (frame.contentDocument as Document).documentElement
+  );
+  const documents = [
+    root.ownerDocument,
+    ...frameRoots.map((frameRoot) => frameRoot.ownerDocument),
+  ];
+  const scopes: Node[] = [root, ...getOpenShadowRoots(root), ...frameRoots];
+
+  const startTime = Date.now();
+  let lastActivity = startTime;
+  let mutations = 0;
+
+  const observer = new MutationObserver((records) => {
+    const relevant = records.filter((record) => !isIgnored(record.target));
+    if (relevant.length > 0) {
+      mutations += relevant.length;
+      lastActivity = Date.now();
+    }
+  });
+  scopes.forEach((scope) =>
+    observer.observe(scope, {
+      subtree: true,
+      childList: true,
+      attributes: true,
+      characterData: true,
+    })
+  );
+
+  // CSS transitions in progress, tracked by element and property
+  const transitions = new Map<EventTarget, Set<string>>();
+  const handleTransitionStart = (event: Event) => {
+    if (!event.target || isIgnored(event.target as Node)) {
+      return;
+    }
+    const properties = transitions.get(event.target) || new Set<string>();
+    properties.add((event as TransitionEvent).propertyName || "all");
+    transitions.set(event.target, properties);
+  };
+  const handleTransitionEnd = (event: Event) => {
+    if (!event.target) {
+      return;
+    }
+    const properties = transitions.get(event.target);
+    properties?.delete((event as TransitionEvent).propertyName || "all");
+    if (properties?.size === 0) {
+      transitions.delete(event.target);
+    }
+    lastActivity = Date.now();
+  };
+  scopes.forEach((scope) => {
+    scope.addEventListener("transitionrun", handleTransitionStart, true);
+    scope.addEventListener("transitionend", handleTransitionEnd, true);
+    scope.addEventListener("transitioncancel", handleTransitionEnd, true);
+  });
+
+  const hasRunningAnimations = () =>
+    documents
+      .flatMap((doc) => doc.getAnimations?.() ?? [])
+      .some((animation) => {
+        if (animation.playState !== "running") {
+          return false;
+        }
+        if (animation.effect?.getComputedTiming().iterations === Infinity) {
+          return false;
+        }
+        const target = (animation.effect as { target?: Element | null } | null)
+          ?.target;
+        return !!target && isUnderRoot(target, root) && !isIgnored(target);
+      });
+
+  const hasPendingImages = () =>
+    [root, ...frameRoots]
+      .flatMap((scope) =>
+        querySelectorAllComposed<HTMLImageElement>(scope, "img")
+      )
+      .some((img) => isLoadingVisibleImage(img) && !isIgnored(img));
+
+  return new Promise((resolve) => {
+    const interval = setInterval(() => {
+      const now = Date.now();
+      const busy =
+        transitions.size > 0 || hasRunningAnimations() || hasPendingImages();
+      if (busy) {
+        lastActivity = now;
+      }
+
+      const settled = now - lastActivity >= options.quietPeriod;
+      if (!settled && now - startTime < options.timeout) {
+        return;
+      }
+
+      clearInterval(interval);
+      observer.disconnect();
+      scopes.forEach((scope) => {
+        scope.removeEventListener("transitionrun", handleTransitionStart, true);
+        scope.removeEventListener("transitionend", handleTransitionEnd, true);
+        scope.removeEventListener(
+          "transitioncancel",
+          handleTransitionEnd,
+          true
+        );
+      });
+
+      resolve({ settled, duration: now - startTime, mutations });
+    }, SETTLE_CHECK_INTERVAL);
+  });
+}
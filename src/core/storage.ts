@@ -3,7 +3,8 @@
  */
 
 import { openDB, type IDBPDatabase } from "idb";
-import type { Frame, Reel, ReelSummary, StorageInfo } from "../types";
+import type { Annotation, Frame, Reel, ReelSummary, StorageInfo } from "../types";
+import { packSnapshotStyles, unpackSnapshotStyles } from "./dom-snapshot";
 
 const DB_NAME = "click-reel-storage";
 const DB_VERSION = 1;
@@ -23,6 +24,7 @@ const FRAMES_STORE = "frames";
  *   frameCount: number
  *   duration: number
  *   settings: CaptureOptions
+ *   snapshotStyles?: Record<string, string> (DOM snapshot CSS by key)
  * }
  * 
  * frames: {
@@ -100,6 +102,9 @@ export class StorageService {
             : URL.createObjectURL(firstFrame.image);
       }
 
+      // Frames' DOM snapshots share the page CSS, so it is stored once
+      const { frames, styles } = packSnapshotStyles(reel.frames);
+
       // Save reel metadata
       const reelData = {
         id: reel.id,
@@ -112,13 +117,14 @@ export class StorageService {
         settings: reel.settings,
         metadata: reel.metadata,
         thumbnailUrl,
+        snapshotStyles: styles,
       };
 
       await tx.objectStore(REELS_STORE).put(reelData);
 
       // Save frames
       const framesStore = tx.objectStore(FRAMES_STORE);
-      for (const frame of reel.frames) {
+      for (const frame of frames) {
         await framesStore.put(frame);
       }
 
@@ -202,9 +208,13 @@ export class StorageService {
     try {
       const index = db.transaction(FRAMES_STORE).objectStore(FRAMES_STORE).index("reelId");
       const frames = await index.getAll(reelId);
-      
+      const reelData = await db.get(REELS_STORE, reelId);
+
       // Sort frames by order
-      return frames.sort((a, b) => a.order - b.order);
+      return unpackSnapshotStyles(
+        frames.sort((a, b) => a.order - b.order),
+        reelData?.snapshotStyles ?? {}
+      );
     } catch (error) {
       throw new Error(`Failed to load frames: ${error instanceof Error ? error.message : String(error)}`);
     }
@@ -255,6 +265,24 @@ export class StorageService {
     }
   }
 
+  /**
+   * Replace the annotations drawn over a frame (the image is left as captured)
+   */
+  async updateFrameAnnotations(frameId: string, annotations: Annotation[]): Promise<void> {
+    const db = await this.ensureDB();
+
+    try {
+      const frame = await db.get(FRAMES_STORE, frameId);
+      if (!frame) {
+        throw new Error(`Frame not found: ${frameId}`);
+      }
+
+      await db.put(FRAMES_STORE, { ...frame, annotations });
+    } catch (error) {
+      throw new Error(`Failed to update frame annotations: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
   /**
    * Delete a reel and all its frames
    */
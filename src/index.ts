@@ -24,11 +24,16 @@ export { EmptyState } from "./react/components/EmptyState";
 export { MarkerDebugDialog } from "./react/components/MarkerDebugDialog";
 export { CaptureDebugDialog } from "./react/components/CaptureDebugDialog";
 export { SettingsPanel } from "./react/components/SettingsPanel";
+export { AnnotationLayer } from "./react/components/AnnotationLayer";
+export { DomSnapshotViewer } from "./react/components/DomSnapshotViewer";
 
 // Export React hooks
 export { useRecorder } from "./react/hooks/useRecorder";
 export { useStorage } from "./react/hooks/useStorage";
 export { useClickCapture } from "./react/hooks/useClickCapture";
+export { useKeystrokeCapture } from "./react/hooks/useKeystrokeCapture";
+export { useScrollCapture } from "./react/hooks/useScrollCapture";
+export { useNavigationCapture } from "./react/hooks/useNavigationCapture";
 export { useKeyboardShortcuts } from "./react/hooks/useKeyboardShortcuts";
 export {
   usePreferences,
@@ -51,12 +56,23 @@ export {
   DEFAULT_OBFUSCATION_CONFIG,
 } from "./utils/obfuscation";
 
+// Export element semantics utilities
+export {
+  getInteractiveTarget,
+  getElementRole,
+  getAccessibleName,
+  getVisibleText,
+  describeTarget,
+} from "./utils/element-semantics";
+
 // Export core functions
 export {
   encodeGIF,
   encodeAPNG,
   estimateEncodedSize,
   prepareFramesForEncoding,
+  applyFocusCrops,
+  applyAnnotations,
   optimizeFrames,
   createPreviewGIF,
   type ProgressCallback,
@@ -65,12 +81,77 @@ export {
 export {
   captureFrame,
   captureManualFrame,
+  captureKeystrokeFrame,
+  captureScrollFrame,
+  captureDragFrame,
+  captureNavigationFrame,
   compareImages,
+  measureImageChange,
+  getIgnoreRegions,
+  getTargetInfo,
+  getSelectorMetadata,
+  type IgnoreRegion,
 } from "./core/capture";
 
+export {
+  htmlToImageRasterizer,
+  createMemoryRasterizer,
+  type MemoryRasterizer,
+  type RasterizeCall,
+} from "./core/rasterizer";
+
+export {
+  ResourceCache,
+  type ResourceCacheStats,
+  type ResourceCacheCounter,
+} from "./core/resource-cache";
+
+export {
+  waitForSettle,
+  type SettleWatchOptions,
+  type SettleResult,
+} from "./core/settle";
+
+export { NetworkTracker } from "./core/network";
+
+export { DiagnosticsCollector } from "./core/diagnostics";
+
+export {
+  NavigationTracker,
+  getRouteChapters,
+  formatRoute,
+  type RouteChapter,
+} from "./core/navigation";
+
+export {
+  serializeDOM,
+  restoreSnapshotScroll,
+  type DomSnapshotOptions,
+} from "./core/dom-snapshot";
+
+export { diffDOM, diffFrameSnapshots, hasDomChanges } from "./core/dom-diff";
+
+export { MotionCollector, type MotionCollectorOptions } from "./core/motion";
+
+export {
+  stepAnimations,
+  getSteppableAnimations,
+  type AnimationStepOptions,
+  type AnimationStepResult,
+} from "./core/animation-stepper";
+
+export {
+  createAnnotation,
+  drawAnnotations,
+  renderAnnotations,
+} from "./core/annotations";
+
 export {
   generateReelMetadata,
   exportMetadataJSON,
+  exportDiagnosticsLog,
+  exportDomDiffLog,
+  summarizeDomDiff,
   generateFilename,
 } from "./core/metadata";
 
@@ -14,6 +14,7 @@ import { ClickReelRecorder } from "./ClickReelRecorder";
 import { ClickReelSettings } from "./ClickReelSettings";
 import { ClickReelInventory } from "./ClickReelInventory";
 import { useClickReelContext } from "./context/ClickReelContext";
+import { libraryConsole } from "../utils/library-console";
 
 /**
  * Sanitize recorder position to ensure it's within the viewport
@@ -121,7 +122,7 @@ export function ClickReelComplete({
           JSON.stringify(newPosition)
         );
       } catch (err) {
-        console.warn("Failed to save recorder position:", err);
+        libraryConsole.warn("Failed to save recorder position:", err);
       }
     }
   };
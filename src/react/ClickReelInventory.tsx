@@ -12,8 +12,9 @@ import { useClickReelContext } from "./context/ClickReelContext";
 import { StorageService } from "../core/storage";
 import { exportReel, downloadBlob } from "../core/export";
 import { ActionType } from "../types";
-import type { ReelSummary, Frame } from "../types";
+import type { ReelSummary, Frame, CaptureType, Annotation } from "../types";
 import { X } from "lucide-react";
+import { libraryConsole } from "../utils/library-console";
 
 export interface ClickReelInventoryProps {
   /** Storage service instance to use */
@@ -41,6 +42,7 @@ interface ReelPlayerFrame {
     elementPath: string;
     elementText?: string;
   };
+  annotations?: Annotation[];
 }
 
 /**
@@ -90,7 +92,7 @@ export function ClickReelInventory({
           : await storage.loadAllReels();
       setReels(summaries);
     } catch (error) {
-      console.error("Failed to load reels:", error);
+      libraryConsole.error("Failed to load reels:", error);
     } finally {
       setLoading(false);
     }
@@ -119,13 +121,28 @@ export function ClickReelInventory({
             scrollPosition: frame.metadata.scrollPosition,
             markerCoords: frame.metadata.markerCoords,
             viewportSize: frame.metadata.viewportSize,
+            captureType: frame.metadata.captureType,
+            keystroke: frame.metadata.keystroke,
+            scroll: frame.metadata.scroll,
+            drag: frame.metadata.drag,
+            navigation: frame.metadata.navigation,
+            url: frame.metadata.url,
+            pageTitle: frame.metadata.pageTitle,
+            target: frame.metadata.target,
+            selectorStrategy: frame.metadata.selectorStrategy,
+            selectorFallbacks: frame.metadata.selectorFallbacks,
+            diagnostics: frame.metadata.diagnostics,
+            domSnapshot: frame.metadata.domSnapshot,
+            domDiff: frame.metadata.domDiff,
           },
           clickEvent: {
             x: frame.metadata.viewportCoords.x,
             y: frame.metadata.viewportCoords.y,
             elementPath: frame.metadata.elementPath,
-            elementText: undefined, // Not stored in current Frame type
+            elementText:
+              frame.metadata.target?.name ?? frame.metadata.target?.text,
           },
+          annotations: frame.annotations,
         })
       );
 
@@ -133,13 +150,14 @@ export function ClickReelInventory({
       setViewingReelFrames(capturedFrames);
       setViewingReelTitle(reel.title);
     } catch (error) {
-      console.error("Failed to load reel:", error);
+      libraryConsole.error("Failed to load reel:", error);
     }
   };
 
   const handleExportReel = async (
     reelId: string,
-    format: "gif" | "apng" | "zip"
+    format: "gif" | "apng" | "zip",
+    skipCaptureTypes?: CaptureType[]
   ) => {
     if (!storage || exportingReelId) return;
 
@@ -153,6 +171,7 @@ export function ClickReelInventory({
       const result = await exportReel(reel, {
         format,
         filename: reel.title,
+        skipCaptureTypes,
         onProgress: (current, total, message) => {
           const percent = Math.round((current / total) * 100);
           console.log(`Export progress: ${percent}% - ${message || ""}`);
@@ -164,7 +183,7 @@ export function ClickReelInventory({
 
       console.log(`✅ Exported ${reel.title} as ${format.toUpperCase()}`);
     } catch (error) {
-      console.error("❌ Failed to export reel:", error);
+      libraryConsole.error("❌ Failed to export reel:", error);
       alert(
         `Export failed: ${error instanceof Error ? error.message : "Unknown error"}`
       );
@@ -184,13 +203,36 @@ export function ClickReelInventory({
       );
       console.log(`✅ Updated reel title: "${newTitle}"`);
     } catch (error) {
-      console.error("❌ Failed to update reel title:", error);
+      libraryConsole.error("❌ Failed to update reel title:", error);
       alert(
         `Failed to update title: ${error instanceof Error ? error.message : "Unknown error"}`
       );
     }
   };
 
+  const handleUpdateAnnotations = async (
+    frameId: string,
+    annotations: Annotation[]
+  ) => {
+    if (!storage) return;
+
+    // Show the change right away; the stored frame image is never touched
+    setViewingReelFrames((prev) =>
+      prev.map((frame) =>
+        frame.id === frameId ? { ...frame, annotations } : frame
+      )
+    );
+
+    try {
+      await storage.updateFrameAnnotations(frameId, annotations);
+    } catch (error) {
+      libraryConsole.error("❌ Failed to save annotations:", error);
+      alert(
+        `Failed to save annotations: ${error instanceof Error ? error.message : "Unknown error"}`
+      );
+    }
+  };
+
   const handleDeleteReel = async () => {
     if (!storage || !deletingReel) return;
 
@@ -200,7 +242,7 @@ export function ClickReelInventory({
       setDeletingReel(null);
       console.log(`Deleted reel: ${deletingReel.title}`);
     } catch (error) {
-      console.error("Failed to delete reel:", error);
+      libraryConsole.error("Failed to delete reel:", error);
     }
   };
 
@@ -214,7 +256,7 @@ export function ClickReelInventory({
       setShowDeleteAllConfirm(false);
       console.log(`✅ Deleted all ${reels.length} reels`);
     } catch (error) {
-      console.error("❌ Failed to delete all reels:", error);
+      libraryConsole.error("❌ Failed to delete all reels:", error);
       alert(
         `Failed to delete all reels: ${error instanceof Error ? error.message : "Unknown error"}`
       );
@@ -368,11 +410,12 @@ export function ClickReelInventory({
           title={viewingReelTitle}
           frames={viewingReelFrames}
           fps={1}
-          onExport={(format) => {
+          onExport={(format, skipCaptureTypes) => {
             if (viewingReelId) {
-              handleExportReel(viewingReelId, format);
+              handleExportReel(viewingReelId, format, skipCaptureTypes);
             }
           }}
+          onAnnotationsChange={handleUpdateAnnotations}
         />
 
         {/* Delete Confirmation Dialog */}
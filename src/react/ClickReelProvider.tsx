@@ -6,16 +6,22 @@ import { type ReactNode, useReducer, useEffect } from "react";
 import { ClickReelContext } from "./context/ClickReelContext";
 import { clickReelReducer, getInitialState } from "./context/reducer";
 import { getStorageService } from "../core/storage";
-import { ActionType } from "../types";
+import { ActionType, type CaptureRootTarget } from "../types";
+import { libraryConsole } from "../utils/library-console";
 
 export interface ClickReelProviderProps {
   children: ReactNode;
+  /**
+   * Element, ref or selector to record (defaults to the whole document)
+   * Recorders can override this with their own root prop
+   */
+  root?: CaptureRootTarget;
 }
 
 /**
  * Provider component for Click Reel context
  */
-export function ClickReelProvider({ children }: ClickReelProviderProps) {
+export function ClickReelProvider({ children, root }: ClickReelProviderProps) {
   // Use lazy initialization to load preferences fresh from localStorage on every mount
   const [state, dispatch] = useReducer(clickReelReducer, null, getInitialState);
 
@@ -34,7 +40,7 @@ export function ClickReelProvider({ children }: ClickReelProviderProps) {
         state.preferences
       );
     } catch (error) {
-      console.warn("Failed to save Click Reel preferences:", error);
+      libraryConsole.warn("Failed to save Click Reel preferences:", error);
     }
   }, [state.preferences]);
 
@@ -62,7 +68,7 @@ export function ClickReelProvider({ children }: ClickReelProviderProps) {
   }, []);
 
   return (
-    <ClickReelContext.Provider value={{ state, dispatch }}>
+    <ClickReelContext.Provider value={{ state, dispatch, root }}>
       {children}
     </ClickReelContext.Provider>
   );
@@ -24,7 +24,11 @@ import {
 import { useRecorder } from "./hooks/useRecorder";
 import { useClickReelContext } from "./context/ClickReelContext";
 import { useKeyboardShortcuts } from "./hooks/useKeyboardShortcuts";
-import { ActionType } from "../types";
+import {
+  ActionType,
+  type CaptureRootTarget,
+  type Rasterizer,
+} from "../types";
 import {
   obfuscateInPlace,
   restoreObfuscation,
@@ -33,8 +37,10 @@ import {
 } from "../utils/obfuscation";
 
 export interface ClickReelRecorderProps {
-  /** The root element to capture */
-  root?: HTMLElement;
+  /** Element, ref or selector to capture (overrides the provider's root) */
+  root?: CaptureRootTarget;
+  /** Renders captured frames (default: html-to-image) */
+  rasterizer?: Rasterizer;
   /** Current position (controlled by parent) */
   position?: { x: number; y: number };
   /** Whether the recorder is visible */
@@ -55,6 +61,8 @@ export interface ClickReelRecorderProps {
  * The main recorder component with floating controls
  */
 export function ClickReelRecorder({
+  root,
+  rasterizer,
   position = { x: window.innerWidth - 280, y: 20 },
   visible: visibleProp,
   initialCollapsed = false,
@@ -63,7 +71,7 @@ export function ClickReelRecorder({
   onSettingsClick,
   onPreviewObfuscationToggle,
 }: ClickReelRecorderProps) {
-  const recorder = useRecorder();
+  const recorder = useRecorder({ root, rasterizer });
   const { state, dispatch } = useClickReelContext();
   const [isCollapsed, setIsCollapsed] = useState(initialCollapsed);
 
@@ -571,7 +579,7 @@ export function ClickReelRecorder({
                 <Maximize2 size={16} />
               </button>
             </div>
-          );
+          )
         }
 
         {
@@ -1047,7 +1055,7 @@ export function ClickReelRecorder({
                 </div>
               )}
             </div>
-          );
+          )
         }
       </div>
 
@@ -0,0 +1,226 @@
+/**
+ * Annotation layer - shows a frame's annotations over its image and, with a
+ * tool selected, lets the user draw new ones
+ */
+
+import { useState, useRef } from "react";
+import type { Annotation, AnnotationType } from "../../types";
+import {
+  createAnnotation,
+  getAnnotationBox,
+  getArrowHead,
+  getCalloutLayout,
+  isDrawableAnnotation,
+} from "../../core/annotations";
+
+type Point = { x: number; y: number };
+
+export interface AnnotationLayerProps {
+  /** Annotations to show */
+  annotations: Annotation[];
+  /** Frame image width in pixels (the layer's coordinate space) */
+  width: number;
+  /** Frame image height in pixels */
+  height: number;
+  /** Tool for drawing new annotations (omit to only display them) */
+  tool?: AnnotationType;
+  /** Color for new annotations */
+  color?: string;
+  /** Line width for new annotations, in image pixels */
+  strokeWidth?: number;
+  /** Label for new text callouts */
+  text?: string;
+  /** Callback with the updated list when an annotation is drawn */
+  onChange?: (annotations: Annotation[]) => void;
+}
+
+/**
+ * Renders one annotation as SVG, matching the export renderer
+ */
+function AnnotationShape({ annotation }: { annotation: Annotation }) {
+  const { points, color, strokeWidth } = annotation;
+  const stroke = {
+    stroke: color,
+    strokeWidth,
+    strokeLinecap: "round" as const,
+    strokeLinejoin: "round" as const,
+    fill: "none",
+  };
+
+  switch (annotation.type) {
+    case "arrow": {
+      const [tail, tip] = points;
+      const [left, right] = getArrowHead(tail, tip, strokeWidth);
+      return (
+        <g>
+          <line x1={tail.x} y1={tail.y} x2={tip.x} y2={tip.y} {...stroke} />
+          <polygon
+            points={`${tip.x},${tip.y} ${left.x},${left.y} ${right.x},${right.y}`}
+            fill={color}
+          />
+        </g>
+      );
+    }
+
+    case "rectangle": {
+      const box = getAnnotationBox(points[0], points[1]);
+      return <rect {...box} {...stroke} />;
+    }
+
+    case "ellipse": {
+      const box = getAnnotationBox(points[0], points[1]);
+      return (
+        <ellipse
+          cx={box.x + box.width / 2}
+          cy={box.y + box.height / 2}
+          rx={box.width / 2}
+          ry={box.height / 2}
+          {...stroke}
+        />
+      );
+    }
+
+    case "freehand":
+      return (
+        <polyline
+          points={points.map((point) => `${point.x},${point.y}`).join(" ")}
+          {...stroke}
+        />
+      );
+
+    case "text": {
+      const layout = getCalloutLayout(annotation);
+      const { box } = layout;
+      return (
+        <g>
+          {layout.target && (
+            <line
+              x1={box.x + box.width / 2}
+              y1={box.y + box.height / 2}
+              x2={layout.target.x}
+              y2={layout.target.y}
+              {...stroke}
+            />
+          )}
+          <rect {...box} fill={color} />
+          <text
+            x={box.x + box.width / 2}
+            fill="#ffffff"
+            fontSize={layout.fontSize}
+            fontWeight="bold"
+            fontFamily="sans-serif"
+            textAnchor="middle"
+            dominantBaseline="central"
+          >
+            {layout.lines.map((line, index) => (
+              <tspan
+                key={index}
+                x={box.x + box.width / 2}
+                y={box.y + layout.padding + layout.lineHeight * (index + 0.5)}
+              >
+                {line}
+              </tspan>
+            ))}
+          </text>
+        </g>
+      );
+    }
+  }
+}
+
+/**
+ * SVG overlay sized to cover the frame image it annotates
+ */
+export function AnnotationLayer({
+  annotations,
+  width,
+  height,
+  tool,
+  color = "#ef4444",
+  strokeWidth = 4,
+  text = "",
+  onChange,
+}: AnnotationLayerProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [path, setPath] = useState<Point[] | null>(null);
+
+  // Maps a pointer position to image pixels
+  const toImagePoint = (event: { clientX: number; clientY: number }): Point => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return {
+      x: Math.round(((event.clientX - rect.left) * width) / rect.width),
+      y: Math.round(((event.clientY - rect.top) * height) / rect.height),
+    };
+  };
+
+  // The annotation being drawn, from the pointer path so far
+  const buildDraft = (): Annotation | null => {
+    if (!tool || !path) {
+      return null;
+    }
+
+    const start = path[0];
+    const end = path[path.length - 1];
+    let points: Point[];
+    if (tool === "freehand") {
+      points = path;
+    } else if (tool === "text") {
+      // Dragging away from the start draws a leader line back to it
+      const dragged =
+        Math.hypot(end.x - start.x, end.y - start.y) >= strokeWidth * 2;
+      points = dragged ? [end, start] : [start];
+    } else {
+      points = [start, end];
+    }
+
+    return createAnnotation(tool, points, { color, strokeWidth, text });
+  };
+
+  const draft = buildDraft();
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox={`0 0 ${width} ${height}`}
+      preserveAspectRatio="none"
+      style={{
+        position: "absolute",
+        inset: 0,
+        width: "100%",
+        height: "100%",
+        pointerEvents: tool ? "auto" : "none",
+        cursor: tool ? "crosshair" : "default",
+        touchAction: "none",
+      }}
+      onPointerDown={(e) => {
+        if (!tool) return;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        setPath([toImagePoint(e)]);
+      }}
+      onPointerMove={(e) => {
+        if (!path) return;
+        const point = toImagePoint(e);
+        setPath(
+          (prev) =>
+            prev && (tool === "freehand" ? [...prev, point] : [prev[0], point])
+        );
+      }}
+      onPointerUp={() => {
+        if (draft && isDrawableAnnotation(draft)) {
+          onChange?.([...annotations, draft]);
+        }
+        setPath(null);
+      }}
+      onPointerCancel={() => setPath(null)}
+    >
+      {annotations.filter(isDrawableAnnotation).map((annotation) => (
+        <AnnotationShape key={annotation.id} annotation={annotation} />
+      ))}
+      {draft && isDrawableAnnotation(draft) && (
+        <g opacity={0.7}>
+          <AnnotationShape annotation={draft} />
+        </g>
+      )}
+    </svg>
+  );
+}
@@ -0,0 +1,91 @@
+/**
+ * DOM diff panel - lists what a click changed in the DOM, for the player
+ */
+
+import type { DomChange, DomDiff } from "../../types";
+import { summarizeDomDiff } from "../../core/metadata";
+
+export interface DomDiffPanelProps {
+  /** Diff to list */
+  diff: DomDiff;
+}
+
+/**
+ * Sign and color per change type, like a text diff
+ */
+const CHANGE_STYLES: Record<
+  DomChange["type"],
+  { sign: string; color: string }
+> = {
+  added: { sign: "+", color: "#4ade80" },
+  removed: { sign: "-", color: "#f87171" },
+  attribute: { sign: "~", color: "#fbbf24" },
+  text: { sign: "~", color: "#fbbf24" },
+};
+
+/**
+ * Shows a value the way it changed, or "(none)" for absent attributes
+ */
+function formatValue(value: string | undefined): string {
+  return value === undefined ? "(none)" : JSON.stringify(value);
+}
+
+/**
+ * Overlay listing a frame's DOM changes
+ */
+export function DomDiffPanel({ diff }: DomDiffPanelProps) {
+  const total = Object.values(diff.counts).reduce(
+    (sum, count) => sum + count,
+    0
+  );
+
+  return (
+    <div
+      style={{
+        position: "absolute",
+        top: "1rem",
+        left: "1rem",
+        background: "rgba(0, 0, 0, 0.9)",
+        color: "white",
+        padding: "1rem",
+        borderRadius: "8px",
+        fontSize: "12px",
+        fontFamily: "monospace",
+        width: "420px",
+        maxWidth: "calc(100% - 2rem)",
+        maxHeight: "60%",
+        overflowY: "auto",
+      }}
+    >
+      <div style={{ marginBottom: "0.5rem" }}>
+        <strong>DOM changes:</strong> {summarizeDomDiff(diff)}
+      </div>
+      {diff.changes.map((change, index) => {
+        const { sign, color } = CHANGE_STYLES[change.type];
+        return (
+          <div
+            key={index}
+            style={{ marginBottom: "0.5rem", wordBreak: "break-all" }}
+          >
+            <div style={{ color }}>
+              {sign} {change.path}
+              {change.type === "attribute" && ` [${change.attribute}]`}
+              {change.type === "text" && " (text)"}
+            </div>
+            <div style={{ paddingLeft: "1rem", color: "#cbd5e1" }}>
+              {change.type === "added" && change.after}
+              {change.type === "removed" && change.before}
+              {(change.type === "attribute" || change.type === "text") &&
+                `${formatValue(change.before)} → ${formatValue(change.after)}`}
+            </div>
+          </div>
+        );
+      })}
+      {diff.truncated && (
+        <div style={{ color: "#94a3b8" }}>
+          … {total - diff.changes.length} more changes (see the ZIP export)
+        </div>
+      )}
+    </div>
+  );
+}
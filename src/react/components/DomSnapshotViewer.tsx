@@ -0,0 +1,124 @@
+/**
+ * DOM snapshot viewer - re-renders a frame's DOM snapshot in a sandboxed
+ * iframe so its markup can be inspected with the browser's dev tools
+ */
+
+import { useRef } from "react";
+import { X } from "lucide-react";
+import type { DomSnapshot } from "../../types";
+import { restoreSnapshotScroll } from "../../core/dom-snapshot";
+
+export interface DomSnapshotViewerProps {
+  /** Whether the viewer is open */
+  isOpen: boolean;
+  /** Callback to close the viewer */
+  onClose: () => void;
+  /** Snapshot to render */
+  snapshot: DomSnapshot;
+  /** Heading, e.g. the step the snapshot belongs to */
+  title?: string;
+}
+
+/**
+ * Modal that renders a snapshot at its captured viewport size
+ * The iframe gets no allow-scripts, so nothing in the snapshot can run;
+ * allow-same-origin only lets this page put back the scroll offsets
+ */
+export function DomSnapshotViewer({
+  isOpen,
+  onClose,
+  snapshot,
+  title = "DOM Snapshot",
+}: DomSnapshotViewerProps) {
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+
+  if (!isOpen) return null;
+
+  const { width, height } = snapshot.viewportSize;
+
+  return (
+    <div
+      className="pii-disable"
+      style={{
+        position: "fixed",
+        inset: 0,
+        background: "rgba(0, 0, 0, 0.9)",
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+        zIndex: 10000,
+        padding: "2rem",
+      }}
+      onClick={onClose}
+    >
+      <div
+        style={{
+          background: "white",
+          borderRadius: "12px",
+          maxWidth: "95vw",
+          maxHeight: "95vh",
+          display: "flex",
+          flexDirection: "column",
+          overflow: "hidden",
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div
+          style={{
+            padding: "1rem 1.5rem",
+            borderBottom: "1px solid #e2e8f0",
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "space-between",
+            gap: "1rem",
+          }}
+        >
+          <div>
+            <h2 style={{ margin: 0, fontSize: "18px", fontWeight: 600 }}>
+              {title}
+            </h2>
+            <div style={{ fontSize: "12px", color: "#64748b" }}>
+              {snapshot.baseUrl} · {width}×{height} · scripts disabled
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            style={{
+              background: "transparent",
+              border: "none",
+              cursor: "pointer",
+              padding: "4px",
+              display: "flex",
+              alignItems: "center",
+            }}
+            title="Close"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div style={{ overflow: "auto", background: "#f1f5f9" }}>
+          <iframe
+            ref={iframeRef}
+            title={title}
+            sandbox="allow-same-origin"
+            srcDoc={snapshot.html}
+            onLoad={() => {
+              const doc = iframeRef.current?.contentDocument;
+              if (doc) {
+                restoreSnapshotScroll(doc, snapshot);
+              }
+            }}
+            style={{
+              display: "block",
+              width: `${width}px`,
+              height: `${height}px`,
+              border: "none",
+              background: "white",
+            }}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -14,9 +14,33 @@ import {
   ChevronRight,
   Bug,
   Target,
+  Pencil,
+  Undo2,
+  Code,
+  GitCompare,
 } from "lucide-react";
+import { AnnotationLayer } from "./AnnotationLayer";
 import { CaptureDebugDialog } from "./CaptureDebugDialog";
 import { MarkerDebugDialog } from "./MarkerDebugDialog";
+import { DomSnapshotViewer } from "./DomSnapshotViewer";
+import { DomDiffPanel } from "./DomDiffPanel";
+import type {
+  Annotation,
+  AnnotationType,
+  CaptureType,
+  DiagnosticEntry,
+  DomDiff,
+  DomSnapshot,
+  DragInfo,
+  ElementSelector,
+  KeystrokeInfo,
+  NavigationInfo,
+  ScrollInfo,
+  SelectorStrategy,
+  TargetInfo,
+} from "../../types";
+import { describeTarget } from "../../utils/element-semantics";
+import { formatRoute, getRouteChapters } from "../../core/navigation";
 
 /**
  * Frame format for the ReelPlayer
@@ -39,7 +63,22 @@ export interface ReelPlayerFrame {
     scrollPosition: { x: number; y: number };
     markerCoords?: { x: number; y: number };
     viewportSize: { width: number; height: number };
+    captureType?: CaptureType;
+    keystroke?: KeystrokeInfo;
+    scroll?: ScrollInfo;
+    drag?: DragInfo;
+    navigation?: NavigationInfo;
+    url?: string;
+    pageTitle?: string;
+    target?: TargetInfo;
+    selectorStrategy?: SelectorStrategy;
+    selectorFallbacks?: ElementSelector[];
+    diagnostics?: DiagnosticEntry[];
+    domSnapshot?: DomSnapshot;
+    domDiff?: DomDiff;
   };
+  /** Marks drawn over the frame after recording */
+  annotations?: Annotation[];
 }
 
 export interface ReelPlayerProps {
@@ -53,8 +92,26 @@ export interface ReelPlayerProps {
   frames: ReelPlayerFrame[];
   /** Playback speed in FPS (default: 1 for 1 second per frame) */
   fps?: number;
-  /** Callback when export is requested */
-  onExport?: (format: "gif" | "apng" | "zip") => void;
+  /** Callback when export is requested (skipped frame types follow playback) */
+  onExport?: (
+    format: "gif" | "apng" | "zip",
+    skipCaptureTypes?: CaptureType[]
+  ) => void;
+  /** Callback when a frame's annotations are edited (enables the editor) */
+  onAnnotationsChange?: (frameId: string, annotations: Annotation[]) => void;
+}
+
+/**
+ * Format a keystroke as a key combination (e.g. "Ctrl+Enter")
+ */
+function formatKeyCombo(keystroke: KeystrokeInfo): string {
+  const parts: string[] = [];
+  if (keystroke.modifiers?.ctrl) parts.push("Ctrl");
+  if (keystroke.modifiers?.alt) parts.push("Alt");
+  if (keystroke.modifiers?.shift) parts.push("Shift");
+  if (keystroke.modifiers?.meta) parts.push("Meta");
+  parts.push(keystroke.key || "");
+  return parts.join("+");
 }
 
 /**
@@ -64,22 +121,48 @@ export function ReelPlayer({
   isOpen,
   onClose,
   title,
-  frames,
+  frames: allFrames,
   fps = 1, // Default to 1 second per frame
   onExport,
+  onAnnotationsChange,
 }: ReelPlayerProps) {
   const [currentFrame, setCurrentFrame] = useState(0);
   const [isPlaying, setIsPlaying] = useState(false);
   const [showMetadata, setShowMetadata] = useState(false);
   const [showDiagnostics, setShowDiagnostics] = useState(false);
   const [showMarkerDebug, setShowMarkerDebug] = useState(false);
+  const [showDomSnapshot, setShowDomSnapshot] = useState(false);
+  const [showDomDiff, setShowDomDiff] = useState(false);
+  const [showScrollFrames, setShowScrollFrames] = useState(true);
+  const [isAnnotating, setIsAnnotating] = useState(false);
+  const [annotationTool, setAnnotationTool] = useState<AnnotationType>("arrow");
+  const [annotationColor, setAnnotationColor] = useState("#ef4444");
+  const [annotationText, setAnnotationText] = useState("");
+  const [imageSize, setImageSize] = useState<{
+    width: number;
+    height: number;
+  } | null>(null);
   const intervalRef = useRef<number | null>(null);
 
+  const hasScrollFrames = allFrames.some(
+    (frame) => frame.metadata?.captureType === "scroll"
+  );
+  const nonScrollFrames = allFrames.filter(
+    (frame) => frame.metadata?.captureType !== "scroll"
+  );
+  // Never skip down to an empty reel - there would be nothing left to show
+  const skippingScrollFrames = !showScrollFrames && nonScrollFrames.length > 0;
+  const frames = skippingScrollFrames ? nonScrollFrames : allFrames;
+  const skipCaptureTypes: CaptureType[] | undefined = skippingScrollFrames
+    ? ["scroll"]
+    : undefined;
+
   // Stop playback when closing
   useEffect(() => {
     if (!isOpen) {
       setIsPlaying(false);
       setCurrentFrame(0);
+      setIsAnnotating(false);
     }
   }, [isOpen]);
 
@@ -115,6 +198,20 @@ export function ReelPlayer({
     if (!isOpen) return;
 
     const handleKeyDown = (e: KeyboardEvent) => {
+      // Leave keys alone while typing a callout
+      if (e.target instanceof HTMLInputElement && e.target.type === "text") {
+        return;
+      }
+
+      // The snapshot viewer only closes, so the player stays on its frame
+      if (showDomSnapshot) {
+        if (e.key === "Escape") {
+          e.preventDefault();
+          setShowDomSnapshot(false);
+        }
+        return;
+      }
+
       switch (e.key) {
         case " ":
           e.preventDefault();
@@ -148,16 +245,35 @@ export function ReelPlayer({
           e.preventDefault();
           setShowMetadata((prev) => !prev);
           break;
+        case "d":
+          e.preventDefault();
+          setShowDomDiff((prev) => !prev);
+          break;
       }
     };
 
     window.addEventListener("keydown", handleKeyDown);
     return () => window.removeEventListener("keydown", handleKeyDown);
-  }, [isOpen, frames.length, onClose]);
+  }, [isOpen, frames.length, onClose, showDomSnapshot]);
 
   if (!isOpen || frames.length === 0) return null;
 
   const currentFrameData = frames[currentFrame];
+  // Route changes split the reel into chapters; a single route has none
+  const chapters = getRouteChapters(frames);
+  const currentChapter = chapters.reduce(
+    (current, chapter, index) =>
+      chapter.frameIndex <= currentFrame ? index : current,
+    -1
+  );
+  const currentAnnotations = currentFrameData.annotations || [];
+  // Lines scale with the image so they read the same at any capture scale
+  const annotationStrokeWidth = imageSize
+    ? Math.max(2, Math.round(imageSize.width / 300))
+    : 4;
+  const updateAnnotations = (annotations: Annotation[]) =>
+    onAnnotationsChange?.(currentFrameData.id, annotations);
+
   const formatTimestamp = (timestamp: number) => {
     const date = new Date(timestamp);
     return date.toLocaleTimeString() + "." + date.getMilliseconds();
@@ -254,15 +370,43 @@ export function ReelPlayer({
             position: "relative",
           }}
         >
-          <img
-            src={currentFrameData.dataUrl}
-            alt={`Frame ${currentFrame + 1}`}
+          <div
             style={{
+              position: "relative",
+              display: "flex",
               maxWidth: "100%",
               maxHeight: "100%",
-              objectFit: "contain",
             }}
-          />
+          >
+            <img
+              src={currentFrameData.dataUrl}
+              alt={`Frame ${currentFrame + 1}`}
+              onLoad={(e) =>
+                setImageSize({
+                  width: e.currentTarget.naturalWidth,
+                  height: e.currentTarget.naturalHeight,
+                })
+              }
+              style={{
+                display: "block",
+                maxWidth: "100%",
+                maxHeight: "100%",
+                objectFit: "contain",
+              }}
+            />
+            {imageSize && (
+              <AnnotationLayer
+                annotations={currentAnnotations}
+                width={imageSize.width}
+                height={imageSize.height}
+                tool={isAnnotating ? annotationTool : undefined}
+                color={annotationColor}
+                strokeWidth={annotationStrokeWidth}
+                text={annotationText}
+                onChange={updateAnnotations}
+              />
+            )}
+          </div>
 
           {/* Frame counter overlay */}
           <div
@@ -281,6 +425,11 @@ export function ReelPlayer({
             Frame {currentFrame + 1} / {frames.length}
           </div>
 
+          {/* DOM changes overlay */}
+          {showDomDiff && currentFrameData?.metadata?.domDiff && (
+            <DomDiffPanel diff={currentFrameData.metadata.domDiff} />
+          )}
+
           {/* Metadata overlay */}
           {showMetadata && currentFrameData && (
             <div
@@ -295,6 +444,8 @@ export function ReelPlayer({
                 fontSize: "12px",
                 fontFamily: "monospace",
                 maxWidth: "400px",
+                maxHeight: "60%",
+                overflowY: "auto",
               }}
             >
               <div style={{ marginBottom: "0.5rem", fontWeight: "bold" }}>
@@ -304,6 +455,14 @@ export function ReelPlayer({
               <div>
                 Size: {currentFrameData.width}x{currentFrameData.height}
               </div>
+              {currentFrameData.metadata?.url && (
+                <div style={{ wordBreak: "break-all" }}>
+                  Page: {currentFrameData.metadata.url}
+                </div>
+              )}
+              {currentFrameData.metadata?.pageTitle && (
+                <div>Title: {currentFrameData.metadata.pageTitle}</div>
+              )}
               {currentFrameData.clickEvent && (
                 <>
                   <div style={{ marginTop: "0.5rem", fontWeight: "bold" }}>
@@ -313,12 +472,140 @@ export function ReelPlayer({
                     Position: ({currentFrameData.clickEvent.x},{" "}
                     {currentFrameData.clickEvent.y})
                   </div>
-                  <div>Target: {currentFrameData.clickEvent.elementPath}</div>
+                  <div>
+                    Target: {currentFrameData.clickEvent.elementPath}
+                    {currentFrameData.metadata?.selectorStrategy &&
+                      ` (${currentFrameData.metadata.selectorStrategy})`}
+                  </div>
+                  {currentFrameData.metadata?.selectorFallbacks?.map(
+                    (fallback) => (
+                      <div key={fallback.selector}>
+                        Or: {fallback.selector} ({fallback.strategy})
+                      </div>
+                    )
+                  )}
                   {currentFrameData.clickEvent.elementText && (
                     <div>Text: "{currentFrameData.clickEvent.elementText}"</div>
                   )}
                 </>
               )}
+              {currentFrameData.metadata?.target && (
+                <>
+                  <div style={{ marginTop: "0.5rem", fontWeight: "bold" }}>
+                    Element
+                    {currentFrameData.metadata.target.masked ? " (masked)" : ""}
+                    :
+                  </div>
+                  <div>{describeTarget(currentFrameData.metadata.target)}</div>
+                  <div>
+                    Tag: {currentFrameData.metadata.target.tag}
+                    {currentFrameData.metadata.target.role &&
+                      ` (role: ${currentFrameData.metadata.target.role})`}
+                  </div>
+                  {currentFrameData.metadata.target.testId && (
+                    <div>
+                      Test ID: {currentFrameData.metadata.target.testId}
+                    </div>
+                  )}
+                  {currentFrameData.metadata.target.href && (
+                    <div>Link: {currentFrameData.metadata.target.href}</div>
+                  )}
+                  <div>
+                    Box: ({currentFrameData.metadata.target.box.x},{" "}
+                    {currentFrameData.metadata.target.box.y}){" "}
+                    {currentFrameData.metadata.target.box.width}x
+                    {currentFrameData.metadata.target.box.height}
+                  </div>
+                </>
+              )}
+              {currentFrameData.metadata?.keystroke && (
+                <>
+                  <div style={{ marginTop: "0.5rem", fontWeight: "bold" }}>
+                    Keystroke
+                    {currentFrameData.metadata.keystroke.masked
+                      ? " (masked)"
+                      : ""}
+                    :
+                  </div>
+                  {currentFrameData.metadata.keystroke.key && (
+                    <div>
+                      Key: {formatKeyCombo(currentFrameData.metadata.keystroke)}
+                    </div>
+                  )}
+                  {currentFrameData.metadata.keystroke.value !== undefined && (
+                    <div>
+                      Value: "{currentFrameData.metadata.keystroke.value}"
+                    </div>
+                  )}
+                </>
+              )}
+              {currentFrameData.metadata?.scroll && (
+                <>
+                  <div style={{ marginTop: "0.5rem", fontWeight: "bold" }}>
+                    Scroll:
+                  </div>
+                  <div>
+                    Direction: {currentFrameData.metadata.scroll.direction}
+                  </div>
+                  <div>
+                    From: ({currentFrameData.metadata.scroll.from.x},{" "}
+                    {currentFrameData.metadata.scroll.from.y}) To: (
+                    {currentFrameData.metadata.scroll.to.x},{" "}
+                    {currentFrameData.metadata.scroll.to.y})
+                  </div>
+                  <div>
+                    Container: {currentFrameData.metadata.scroll.containerPath}
+                  </div>
+                </>
+              )}
+              {currentFrameData.metadata?.diagnostics && (
+                <>
+                  <div style={{ marginTop: "0.5rem", fontWeight: "bold" }}>
+                    Console ({currentFrameData.metadata.diagnostics.length}):
+                  </div>
+                  {currentFrameData.metadata.diagnostics.map((entry, index) => (
+                    <div
+                      key={index}
+                      style={{
+                        color:
+                          entry.type === "console-warn" ? "#fbbf24" : "#f87171",
+                      }}
+                    >
+                      {entry.time >= 0 ? "+" : ""}
+                      {entry.time}ms {entry.type}: {entry.message}
+                    </div>
+                  ))}
+                </>
+              )}
+              {currentFrameData.metadata?.drag && (
+                <>
+                  <div style={{ marginTop: "0.5rem", fontWeight: "bold" }}>
+                    Drag:
+                  </div>
+                  <div>
+                    Distance: {currentFrameData.metadata.drag.distance}px in{" "}
+                    {currentFrameData.metadata.drag.duration}ms (
+                    {currentFrameData.metadata.drag.path.length} points)
+                  </div>
+                  <div>From: {currentFrameData.metadata.drag.sourcePath}</div>
+                  {currentFrameData.metadata.drag.dropPath && (
+                    <div>To: {currentFrameData.metadata.drag.dropPath}</div>
+                  )}
+                </>
+              )}
+              {currentFrameData.metadata?.navigation && (
+                <>
+                  <div style={{ marginTop: "0.5rem", fontWeight: "bold" }}>
+                    Navigation ({currentFrameData.metadata.navigation.trigger}):
+                  </div>
+                  <div style={{ wordBreak: "break-all" }}>
+                    From: {currentFrameData.metadata.navigation.from}
+                  </div>
+                  <div style={{ wordBreak: "break-all" }}>
+                    To: {currentFrameData.metadata.navigation.to}
+                  </div>
+                </>
+              )}
             </div>
           )}
         </div>
@@ -333,6 +620,116 @@ export function ReelPlayer({
             gap: "1rem",
           }}
         >
+          {/* Annotation tools */}
+          {isAnnotating && (
+            <div
+              style={{
+                display: "flex",
+                gap: "0.5rem",
+                alignItems: "center",
+                flexWrap: "wrap",
+              }}
+            >
+              {(
+                [
+                  ["arrow", "Arrow"],
+                  ["rectangle", "Box"],
+                  ["ellipse", "Ellipse"],
+                  ["freehand", "Pen"],
+                  ["text", "Callout"],
+                ] as const
+              ).map(([tool, label]) => (
+                <button
+                  key={tool}
+                  onClick={() => setAnnotationTool(tool)}
+                  style={{
+                    padding: "6px 10px",
+                    background: annotationTool === tool ? "#3b82f6" : "#f1f5f9",
+                    color: annotationTool === tool ? "white" : "#475569",
+                    border: "none",
+                    borderRadius: "6px",
+                    cursor: "pointer",
+                    fontSize: "13px",
+                  }}
+                >
+                  {label}
+                </button>
+              ))}
+              <input
+                type="color"
+                value={annotationColor}
+                onChange={(e) => setAnnotationColor(e.target.value)}
+                style={{
+                  width: "36px",
+                  height: "30px",
+                  border: "1px solid #cbd5e1",
+                  borderRadius: "6px",
+                  cursor: "pointer",
+                }}
+                title="Annotation color"
+              />
+              {annotationTool === "text" && (
+                <input
+                  type="text"
+                  value={annotationText}
+                  onChange={(e) => setAnnotationText(e.target.value)}
+                  placeholder="Callout text, then click or drag from the spot"
+                  style={{
+                    flex: 1,
+                    minWidth: "200px",
+                    padding: "6px 10px",
+                    border: "1px solid #cbd5e1",
+                    borderRadius: "6px",
+                    fontSize: "13px",
+                  }}
+                />
+              )}
+              <button
+                onClick={() =>
+                  updateAnnotations(currentAnnotations.slice(0, -1))
+                }
+                disabled={currentAnnotations.length === 0}
+                style={{
+                  marginLeft: "auto",
+                  padding: "6px 10px",
+                  background: "#f1f5f9",
+                  color: "#475569",
+                  border: "none",
+                  borderRadius: "6px",
+                  cursor:
+                    currentAnnotations.length === 0 ? "not-allowed" : "pointer",
+                  opacity: currentAnnotations.length === 0 ? 0.5 : 1,
+                  display: "flex",
+                  alignItems: "center",
+                  gap: "4px",
+                  fontSize: "13px",
+                }}
+                title="Remove the last annotation on this frame"
+              >
+                <Undo2 size={14} />
+                Undo
+              </button>
+              <button
+                onClick={() => updateAnnotations([])}
+                disabled={currentAnnotations.length === 0}
+                style={{
+                  padding: "6px 10px",
+                  background: "#f1f5f9",
+                  color: "#475569",
+                  border: "none",
+                  borderRadius: "6px",
+                  cursor:
+                    currentAnnotations.length === 0 ? "not-allowed" : "pointer",
+                  opacity: currentAnnotations.length === 0 ? 0.5 : 1,
+                  fontSize: "13px",
+                }}
+                title="Remove all annotations on this frame"
+              >
+                Clear
+              </button>
+            </div>
+          )}
+
           {/* Timeline scrubber */}
           <div style={{ display: "flex", alignItems: "center", gap: "1rem" }}>
             <span
@@ -361,6 +758,47 @@ export function ReelPlayer({
             </span>
           </div>
 
+          {/* Route chapters */}
+          {chapters.length > 1 && (
+            <div
+              style={{
+                display: "flex",
+                gap: "0.5rem",
+                alignItems: "center",
+                overflowX: "auto",
+              }}
+            >
+              <span style={{ fontSize: "12px", color: "#64748b" }}>
+                Routes:
+              </span>
+              {chapters.map((chapter, index) => (
+                <button
+                  key={chapter.frameIndex}
+                  onClick={() => {
+                    setCurrentFrame(chapter.frameIndex);
+                    setIsPlaying(false);
+                  }}
+                  style={{
+                    padding: "4px 10px",
+                    background:
+                      index === currentChapter ? "#3b82f6" : "#f1f5f9",
+                    color: index === currentChapter ? "white" : "#475569",
+                    border: "none",
+                    borderRadius: "6px",
+                    cursor: "pointer",
+                    fontSize: "12px",
+                    whiteSpace: "nowrap",
+                  }}
+                  title={`Frame ${chapter.frameIndex + 1}${
+                    chapter.title ? `: ${chapter.title}` : ""
+                  }`}
+                >
+                  {index + 1}. {formatRoute(chapter.url)}
+                </button>
+              ))}
+            </div>
+          )}
+
           {/* Playback controls */}
           <div
             style={{
@@ -484,25 +922,120 @@ export function ReelPlayer({
               justifyContent: "space-between",
             }}
           >
-            <button
-              onClick={() => setShowMetadata(!showMetadata)}
-              style={{
-                padding: "8px 12px",
-                background: showMetadata ? "#3b82f6" : "#f1f5f9",
-                color: showMetadata ? "white" : "#475569",
-                border: "none",
-                borderRadius: "6px",
-                cursor: "pointer",
-                fontSize: "14px",
-              }}
-              title="Toggle metadata (M)"
-            >
-              {showMetadata ? "Hide" : "Show"} Metadata
-            </button>
+            <div style={{ display: "flex", gap: "0.5rem" }}>
+              <button
+                onClick={() => setShowMetadata(!showMetadata)}
+                style={{
+                  padding: "8px 12px",
+                  background: showMetadata ? "#3b82f6" : "#f1f5f9",
+                  color: showMetadata ? "white" : "#475569",
+                  border: "none",
+                  borderRadius: "6px",
+                  cursor: "pointer",
+                  fontSize: "14px",
+                }}
+                title="Toggle metadata (M)"
+              >
+                {showMetadata ? "Hide" : "Show"} Metadata
+              </button>
+
+              {hasScrollFrames && (
+                <button
+                  onClick={() => {
+                    setShowScrollFrames(!showScrollFrames);
+                    setCurrentFrame(0);
+                  }}
+                  style={{
+                    padding: "8px 12px",
+                    background: showScrollFrames ? "#3b82f6" : "#f1f5f9",
+                    color: showScrollFrames ? "white" : "#475569",
+                    border: "none",
+                    borderRadius: "6px",
+                    cursor: "pointer",
+                    fontSize: "14px",
+                  }}
+                  title="Toggle scroll frames"
+                >
+                  {showScrollFrames ? "Skip" : "Show"} Scroll Frames
+                </button>
+              )}
+
+              {onAnnotationsChange && (
+                <button
+                  onClick={() => {
+                    setIsAnnotating(!isAnnotating);
+                    setIsPlaying(false);
+                  }}
+                  style={{
+                    padding: "8px 12px",
+                    background: isAnnotating ? "#3b82f6" : "#f1f5f9",
+                    color: isAnnotating ? "white" : "#475569",
+                    border: "none",
+                    borderRadius: "6px",
+                    cursor: "pointer",
+                    display: "flex",
+                    alignItems: "center",
+                    gap: "6px",
+                    fontSize: "14px",
+                  }}
+                  title="Draw arrows, shapes and callouts on frames"
+                >
+                  <Pencil size={16} />
+                  {isAnnotating ? "Done" : "Annotate"}
+                </button>
+              )}
+
+              {currentFrameData?.metadata?.domDiff && (
+                <button
+                  onClick={() => setShowDomDiff(!showDomDiff)}
+                  style={{
+                    padding: "8px 12px",
+                    background: showDomDiff ? "#3b82f6" : "#f1f5f9",
+                    color: showDomDiff ? "white" : "#475569",
+                    border: "none",
+                    borderRadius: "6px",
+                    cursor: "pointer",
+                    display: "flex",
+                    alignItems: "center",
+                    gap: "6px",
+                    fontSize: "14px",
+                  }}
+                  title="Toggle what the click changed in the DOM (D)"
+                >
+                  <GitCompare size={16} />
+                  DOM Changes
+                </button>
+              )}
+
+              {currentFrameData?.metadata?.domSnapshot && (
+                <button
+                  onClick={() => {
+                    setShowDomSnapshot(true);
+                    setIsPlaying(false);
+                  }}
+                  style={{
+                    padding: "8px 12px",
+                    background: "#f1f5f9",
+                    color: "#475569",
+                    border: "none",
+                    borderRadius: "6px",
+                    cursor: "pointer",
+                    display: "flex",
+                    alignItems: "center",
+                    gap: "6px",
+                    fontSize: "14px",
+                  }}
+                  title="Re-render this frame's DOM for inspection"
+                >
+                  <Code size={16} />
+                  Inspect DOM
+                </button>
+              )}
+            </div>
 
             <div style={{ display: "flex", gap: "0.5rem" }}>
               <button
-                onClick={() => onExport?.("gif")}
+                onClick={() => onExport?.("gif", skipCaptureTypes)}
                 style={{
                   padding: "8px 12px",
                   background: "#10b981",
@@ -521,7 +1054,7 @@ export function ReelPlayer({
                 Export GIF
               </button>
               <button
-                onClick={() => onExport?.("apng")}
+                onClick={() => onExport?.("apng", skipCaptureTypes)}
                 style={{
                   padding: "8px 12px",
                   background: "#10b981",
@@ -576,6 +1109,16 @@ export function ReelPlayer({
         onClose={() => setShowDiagnostics(false)}
       />
 
+      {/* DOM Snapshot Viewer */}
+      {showDomSnapshot && currentFrameData?.metadata?.domSnapshot && (
+        <DomSnapshotViewer
+          isOpen={showDomSnapshot}
+          onClose={() => setShowDomSnapshot(false)}
+          snapshot={currentFrameData.metadata.domSnapshot}
+          title={`DOM Snapshot - Frame ${currentFrame + 1}`}
+        />
+      )}
+
       {/* Marker Debug Dialog */}
       {showMarkerDebug && frames[currentFrame]?.metadata && (
         <MarkerDebugDialog
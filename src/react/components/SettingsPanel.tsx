@@ -3,9 +3,18 @@
  * Allows users to configure preferences
  */
 
-import { useState, useEffect } from "react";
-import { UserPreferences } from "../../types/config";
-import { Settings, X, RotateCcw, Check } from "lucide-react";
+import { useState, useEffect, useRef } from "react";
+import { SelectorStrategy, UserPreferences } from "../../types/config";
+import {
+  Settings,
+  X,
+  RotateCcw,
+  Check,
+  ChevronUp,
+  ChevronDown,
+} from "lucide-react";
+import { MOTION_MAX_FRAMES } from "../../utils/constants";
+import { createMarkerElement } from "../../utils/dom-utils";
 
 export interface SettingsPanelProps {
   /** Whether the panel is open */
@@ -20,6 +29,19 @@ export interface SettingsPanelProps {
   onReset: () => void;
 }
 
+/**
+ * Selector strategies that can be turned off and reordered (structural paths
+ * are always tried last)
+ */
+type OptionalSelectorStrategy = Exclude<SelectorStrategy, "structural">;
+
+const SELECTOR_STRATEGY_LABELS: Record<OptionalSelectorStrategy, string> = {
+  "test-id": "Test ID (data-testid, data-cy)",
+  id: "Element ID",
+  role: "Role and accessible name",
+  class: "Unique class",
+};
+
 /**
  * Convert milliseconds to logarithmic slider position (0-100)
  */
@@ -60,6 +82,34 @@ export function SettingsPanel({
     setHasChanges(false);
   }, [preferences, isOpen]);
 
+  // Live preview drawn with the same markers captures use, one per button
+  const markerPreviewRef = useRef<HTMLDivElement>(null);
+  const { markerShape, markerSize, markerColor, markerButtonColors } =
+    localPreferences;
+  useEffect(() => {
+    const container = markerPreviewRef.current;
+    if (!container) {
+      return;
+    }
+
+    const spacing = markerSize + 24;
+    container.replaceChildren(
+      ...[0, 1, 2].map((buttonType) =>
+        createMarkerElement(
+          { x: spacing * (buttonType + 0.5), y: markerSize / 2 + 12 },
+          buttonType,
+          {
+            shape: markerShape,
+            size: markerSize,
+            color: markerColor,
+            buttonColors: markerButtonColors,
+          },
+          buttonType + 1
+        )
+      )
+    );
+  }, [isOpen, markerShape, markerSize, markerColor, markerButtonColors]);
+
   const handleChange = <K extends keyof UserPreferences>(
     key: K,
     value: UserPreferences[K]
@@ -68,6 +118,19 @@ export function SettingsPanel({
     setHasChanges(true);
   };
 
+  // Structural paths stay last, as the fallback every element has
+  const selectorStrategies = localPreferences.selectorStrategies.filter(
+    (strategy): strategy is OptionalSelectorStrategy =>
+      strategy !== "structural"
+  );
+  const setSelectorStrategies = (strategies: OptionalSelectorStrategy[]) =>
+    handleChange("selectorStrategies", [...strategies, "structural"]);
+  const moveSelectorStrategy = (index: number, offset: number) => {
+    const next = [...selectorStrategies];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    setSelectorStrategies(next);
+  };
+
   const handleSave = () => {
     onSave(localPreferences);
     setHasChanges(false);
@@ -169,6 +232,69 @@ export function SettingsPanel({
             <div
               style={{ display: "flex", flexDirection: "column", gap: "1rem" }}
             >
+              {/* Marker Shape */}
+              <div>
+                <label
+                  style={{
+                    display: "block",
+                    fontSize: "0.875rem",
+                    fontWeight: 500,
+                    color: "#475569",
+                    marginBottom: "0.5rem",
+                  }}
+                >
+                  Shape
+                </label>
+                <div
+                  style={{ display: "flex", flexWrap: "wrap", gap: "0.5rem" }}
+                >
+                  {(
+                    [
+                      ["circle", "Circle"],
+                      ["ripple", "Ripple"],
+                      ["crosshair", "Crosshair"],
+                      ["arrow", "Arrow"],
+                      ["badge", "Numbered"],
+                    ] as const
+                  ).map(([shape, label]) => (
+                    <label
+                      key={shape}
+                      style={{
+                        flex: 1,
+                        padding: "0.75rem",
+                        border: `2px solid ${
+                          markerShape === shape ? "#3b82f6" : "#cbd5e1"
+                        }`,
+                        borderRadius: "8px",
+                        cursor: "pointer",
+                        textAlign: "center",
+                        fontSize: "0.875rem",
+                        background: markerShape === shape ? "#eff6ff" : "white",
+                      }}
+                    >
+                      <input
+                        type="radio"
+                        name="markerShape"
+                        value={shape}
+                        checked={markerShape === shape}
+                        onChange={() => handleChange("markerShape", shape)}
+                        style={{ marginRight: "0.5rem" }}
+                      />
+                      {label}
+                    </label>
+                  ))}
+                </div>
+                <p
+                  style={{
+                    fontSize: "0.75rem",
+                    color: "#64748b",
+                    margin: "0.25rem 0 0",
+                  }}
+                >
+                  Numbered badges count the clicks in each recording
+                </p>
+              </div>
+
               {/* Marker Size */}
               <div>
                 <label
@@ -263,6 +389,179 @@ export function SettingsPanel({
                 </p>
               </div>
 
+              {/* Per-Button Colors */}
+              <div>
+                <label
+                  style={{
+                    display: "block",
+                    fontSize: "0.875rem",
+                    fontWeight: 500,
+                    color: "#475569",
+                    marginBottom: "0.5rem",
+                  }}
+                >
+                  Button Colors
+                </label>
+                <div
+                  style={{
+                    display: "flex",
+                    gap: "1rem",
+                    alignItems: "center",
+                  }}
+                >
+                  {(
+                    [
+                      ["left", "Left"],
+                      ["middle", "Middle"],
+                      ["right", "Right"],
+                    ] as const
+                  ).map(([button, label]) => (
+                    <label
+                      key={button}
+                      style={{
+                        display: "flex",
+                        alignItems: "center",
+                        gap: "0.5rem",
+                        fontSize: "0.875rem",
+                        color: "#475569",
+                      }}
+                    >
+                      <input
+                        type="color"
+                        value={markerButtonColors[button] || markerColor}
+                        onChange={(e) =>
+                          handleChange("markerButtonColors", {
+                            ...markerButtonColors,
+                            [button]: e.target.value,
+                          })
+                        }
+                        style={{
+                          width: "40px",
+                          height: "32px",
+                          border: "1px solid #cbd5e1",
+                          borderRadius: "6px",
+                          cursor: "pointer",
+                        }}
+                      />
+                      {label}
+                    </label>
+                  ))}
+                  {Object.keys(markerButtonColors).length > 0 && (
+                    <button
+                      onClick={() => handleChange("markerButtonColors", {})}
+                      style={{
+                        marginLeft: "auto",
+                        padding: "0.25rem 0.75rem",
+                        border: "1px solid #cbd5e1",
+                        borderRadius: "6px",
+                        background: "white",
+                        color: "#475569",
+                        fontSize: "0.75rem",
+                        cursor: "pointer",
+                      }}
+                    >
+                      Use marker color
+                    </button>
+                  )}
+                </div>
+                <p
+                  style={{
+                    fontSize: "0.75rem",
+                    color: "#64748b",
+                    margin: "0.25rem 0 0",
+                  }}
+                >
+                  Marker color for each mouse button (defaults to the color
+                  above)
+                </p>
+              </div>
+
+              {/* Clicked Element Highlight */}
+              <div>
+                <label
+                  style={{
+                    display: "block",
+                    fontSize: "0.875rem",
+                    fontWeight: 500,
+                    color: "#475569",
+                    marginBottom: "0.5rem",
+                  }}
+                >
+                  Clicked Element
+                </label>
+                <div style={{ display: "flex", gap: "0.5rem" }}>
+                  {(
+                    [
+                      ["off", "Marker only"],
+                      ["outline", "Outline"],
+                      ["spotlight", "Spotlight"],
+                    ] as const
+                  ).map(([mode, label]) => (
+                    <label
+                      key={mode}
+                      style={{
+                        flex: 1,
+                        padding: "0.75rem",
+                        border: `2px solid ${
+                          localPreferences.targetHighlight === mode
+                            ? "#3b82f6"
+                            : "#cbd5e1"
+                        }`,
+                        borderRadius: "8px",
+                        cursor: "pointer",
+                        textAlign: "center",
+                        fontSize: "0.875rem",
+                        background:
+                          localPreferences.targetHighlight === mode
+                            ? "#eff6ff"
+                            : "white",
+                      }}
+                    >
+                      <input
+                        type="radio"
+                        name="targetHighlight"
+                        value={mode}
+                        checked={localPreferences.targetHighlight === mode}
+                        onChange={() => handleChange("targetHighlight", mode)}
+                        style={{ marginRight: "0.5rem" }}
+                      />
+                      {label}
+                    </label>
+                  ))}
+                </div>
+                <label
+                  style={{
+                    display: "flex",
+                    alignItems: "center",
+                    gap: "0.75rem",
+                    cursor: "pointer",
+                    marginTop: "0.75rem",
+                  }}
+                >
+                  <input
+                    type="checkbox"
+                    checked={localPreferences.dimOutsideTarget}
+                    onChange={(e) =>
+                      handleChange("dimOutsideTarget", e.target.checked)
+                    }
+                    style={{ width: "20px", height: "20px" }}
+                  />
+                  <span style={{ fontSize: "0.875rem", color: "#475569" }}>
+                    Dim the rest of the page
+                  </span>
+                </label>
+                <p
+                  style={{
+                    fontSize: "0.75rem",
+                    color: "#64748b",
+                    margin: "0.25rem 0 0",
+                  }}
+                >
+                  Marks the clicked element's box in pre-click frames, so it's
+                  clear which element was hit when the marker sits on an edge
+                </p>
+              </div>
+
               {/* Live Preview */}
               <div
                 style={{
@@ -276,15 +575,13 @@ export function SettingsPanel({
                 }}
               >
                 <div
+                  ref={markerPreviewRef}
                   style={{
-                    width: `${localPreferences.markerSize}px`,
-                    height: `${localPreferences.markerSize}px`,
-                    borderRadius: "50%",
-                    background: localPreferences.markerColor,
-                    opacity: 0.5,
-                    border: "2px solid white",
+                    position: "relative",
+                    width: `${(localPreferences.markerSize + 24) * 3}px`,
+                    height: `${localPreferences.markerSize + 24}px`,
                   }}
-                  title="Marker preview"
+                  title="Marker preview (left, middle and right click)"
                 />
               </div>
             </div>
@@ -529,6 +826,302 @@ export function SettingsPanel({
                   logarithmic)
                 </p>
               </div>
+
+              {/* Settlement Detection */}
+              <div>
+                <label
+                  style={{
+                    display: "block",
+                    fontSize: "0.875rem",
+                    fontWeight: 500,
+                    color: "#475569",
+                    marginBottom: "0.5rem",
+                  }}
+                >
+                  Settlement Detection
+                </label>
+                <div style={{ display: "flex", gap: "0.75rem" }}>
+                  {(
+                    [
+                      ["events", "Watch Events"],
+                      ["polling", "Compare Frames"],
+                    ] as const
+                  ).map(([strategy, label]) => (
+                    <label
+                      key={strategy}
+                      style={{
+                        flex: 1,
+                        padding: "0.75rem",
+                        border: `2px solid ${
+                          localPreferences.settleStrategy === strategy
+                            ? "#3b82f6"
+                            : "#cbd5e1"
+                        }`,
+                        borderRadius: "8px",
+                        cursor: "pointer",
+                        textAlign: "center",
+                        fontSize: "0.875rem",
+                        background:
+                          localPreferences.settleStrategy === strategy
+                            ? "#eff6ff"
+                            : "white",
+                      }}
+                    >
+                      <input
+                        type="radio"
+                        name="settleStrategy"
+                        value={strategy}
+                        checked={localPreferences.settleStrategy === strategy}
+                        onChange={() =>
+                          handleChange("settleStrategy", strategy)
+                        }
+                        style={{ marginRight: "0.5rem" }}
+                      />
+                      {label}
+                    </label>
+                  ))}
+                </div>
+                <p
+                  style={{
+                    fontSize: "0.75rem",
+                    color: "#64748b",
+                    margin: "0.25rem 0 0",
+                  }}
+                >
+                  Watch Events waits until DOM changes, animations and image
+                  loads stop, then captures once; Compare Frames captures at
+                  each interval until frames stop changing
+                </p>
+              </div>
+
+              {localPreferences.settleStrategy === "polling" && (
+                <>
+                  {/* Settle Threshold */}
+                  <div>
+                    <label
+                      style={{
+                        display: "block",
+                        fontSize: "0.875rem",
+                        fontWeight: 500,
+                        color: "#475569",
+                        marginBottom: "0.5rem",
+                      }}
+                    >
+                      Settle Threshold: {localPreferences.settleThreshold}%
+                    </label>
+                    <input
+                      type="range"
+                      min="0"
+                      max="5"
+                      step="0.1"
+                      value={localPreferences.settleThreshold}
+                      onChange={(e) =>
+                        handleChange(
+                          "settleThreshold",
+                          parseFloat(e.target.value)
+                        )
+                      }
+                      style={{ width: "100%" }}
+                    />
+                    <p
+                      style={{
+                        fontSize: "0.75rem",
+                        color: "#64748b",
+                        margin: "0.25rem 0 0",
+                      }}
+                    >
+                      Share of pixels that may still change when the page counts
+                      as settled (0-5%), so carets and small animations don't
+                      delay it
+                    </p>
+                  </div>
+
+                  {/* Stable Frames */}
+                  <div>
+                    <label
+                      style={{
+                        display: "block",
+                        fontSize: "0.875rem",
+                        fontWeight: 500,
+                        color: "#475569",
+                        marginBottom: "0.5rem",
+                      }}
+                    >
+                      Stable Frames: {localPreferences.settleStableFrames}
+                    </label>
+                    <input
+                      type="range"
+                      min="1"
+                      max="5"
+                      step="1"
+                      value={localPreferences.settleStableFrames}
+                      onChange={(e) =>
+                        handleChange(
+                          "settleStableFrames",
+                          parseInt(e.target.value)
+                        )
+                      }
+                      style={{ width: "100%" }}
+                    />
+                    <p
+                      style={{
+                        fontSize: "0.75rem",
+                        color: "#64748b",
+                        margin: "0.25rem 0 0",
+                      }}
+                    >
+                      Consecutive unchanged post-click frames needed before the
+                      page counts as settled (1-5)
+                    </p>
+                  </div>
+                </>
+              )}
+
+              {/* Ignore Changes In */}
+              <div>
+                <label
+                  style={{
+                    display: "block",
+                    fontSize: "0.875rem",
+                    fontWeight: 500,
+                    color: "#475569",
+                    marginBottom: "0.5rem",
+                  }}
+                >
+                  Ignore Changes In
+                </label>
+                <input
+                  type="text"
+                  value={localPreferences.settleIgnoreSelector}
+                  placeholder=".spinner, .clock"
+                  onChange={(e) =>
+                    handleChange("settleIgnoreSelector", e.target.value)
+                  }
+                  style={{
+                    width: "100%",
+                    padding: "0.5rem",
+                    border: "1px solid #cbd5e1",
+                    borderRadius: "6px",
+                    fontFamily: "monospace",
+                    boxSizing: "border-box",
+                  }}
+                />
+                <p
+                  style={{
+                    fontSize: "0.75rem",
+                    color: "#64748b",
+                    margin: "0.25rem 0 0",
+                  }}
+                >
+                  CSS selector for regions whose changes don't delay settlement.
+                  Elements with data-screenshot-ignore-change are always ignored
+                </p>
+              </div>
+
+              {/* Network Idle Wait */}
+              <div>
+                <label
+                  style={{
+                    display: "flex",
+                    alignItems: "center",
+                    gap: "0.75rem",
+                    cursor: "pointer",
+                  }}
+                >
+                  <input
+                    type="checkbox"
+                    checked={localPreferences.networkIdleWait}
+                    onChange={(e) =>
+                      handleChange("networkIdleWait", e.target.checked)
+                    }
+                    style={{ width: "20px", height: "20px" }}
+                  />
+                  <span style={{ fontSize: "0.875rem", color: "#475569" }}>
+                    Wait for network requests
+                  </span>
+                </label>
+                <p
+                  style={{
+                    fontSize: "0.75rem",
+                    color: "#64748b",
+                    margin: "0.5rem 0 0 2rem",
+                  }}
+                >
+                  Waits for fetch and XHR requests started by a click to finish
+                  (up to the max duration) before capturing the settled frame.
+                  Request timings are saved with the frame.
+                </p>
+              </div>
+
+              {/* Motion Capture */}
+              <div>
+                <label
+                  style={{
+                    display: "flex",
+                    alignItems: "center",
+                    gap: "0.75rem",
+                    cursor: "pointer",
+                  }}
+                >
+                  <input
+                    type="checkbox"
+                    checked={localPreferences.motionCaptureEnabled}
+                    onChange={(e) =>
+                      handleChange("motionCaptureEnabled", e.target.checked)
+                    }
+                    style={{ width: "20px", height: "20px" }}
+                  />
+                  <span style={{ fontSize: "0.875rem", color: "#475569" }}>
+                    Keep transition frames
+                  </span>
+                </label>
+                <p
+                  style={{
+                    fontSize: "0.75rem",
+                    color: "#64748b",
+                    margin: "0.5rem 0 0 2rem",
+                  }}
+                >
+                  Keeps up to {MOTION_MAX_FRAMES} distinct frames between the
+                  click and the settled state so exports show slide-ins and
+                  fades. Settlement is then detected by comparing frames.
+                </p>
+              </div>
+
+              {/* Animation Stepping */}
+              <div>
+                <label
+                  style={{
+                    display: "flex",
+                    alignItems: "center",
+                    gap: "0.75rem",
+                    cursor: "pointer",
+                  }}
+                >
+                  <input
+                    type="checkbox"
+                    checked={localPreferences.animationSteppingEnabled}
+                    onChange={(e) =>
+                      handleChange("animationSteppingEnabled", e.target.checked)
+                    }
+                    style={{ width: "20px", height: "20px" }}
+                  />
+                  <span style={{ fontSize: "0.875rem", color: "#475569" }}>
+                    Step animations frame by frame
+                  </span>
+                </label>
+                <p
+                  style={{
+                    fontSize: "0.75rem",
+                    color: "#64748b",
+                    margin: "0.5rem 0 0 2rem",
+                  }}
+                >
+                  Pauses the animations and transitions a click starts and
+                  captures one frame per interval, so recordings come out the
+                  same on every run however slow capturing is.
+                </p>
+              </div>
             </div>
           </section>
 
@@ -578,6 +1171,465 @@ export function SettingsPanel({
                 Higher scale = better quality but larger file size (1-3x)
               </p>
             </div>
+
+            <div style={{ marginTop: "1rem" }}>
+              <label
+                style={{
+                  display: "block",
+                  fontSize: "0.875rem",
+                  fontWeight: 500,
+                  color: "#475569",
+                  marginBottom: "0.5rem",
+                }}
+              >
+                Capture Area
+              </label>
+              <div style={{ display: "flex", gap: "0.75rem" }}>
+                {(
+                  [
+                    ["viewport", "Viewport"],
+                    ["full-page", "Full Page"],
+                    ["root", "Root Bounds"],
+                  ] as const
+                ).map(([mode, label]) => (
+                  <label
+                    key={mode}
+                    style={{
+                      flex: 1,
+                      padding: "0.75rem",
+                      border: `2px solid ${
+                        localPreferences.captureMode === mode
+                          ? "#3b82f6"
+                          : "#cbd5e1"
+                      }`,
+                      borderRadius: "8px",
+                      cursor: "pointer",
+                      textAlign: "center",
+                      fontSize: "0.875rem",
+                      background:
+                        localPreferences.captureMode === mode
+                          ? "#eff6ff"
+                          : "white",
+                    }}
+                  >
+                    <input
+                      type="radio"
+                      name="captureMode"
+                      value={mode}
+                      checked={localPreferences.captureMode === mode}
+                      onChange={() => handleChange("captureMode", mode)}
+                      style={{ marginRight: "0.5rem" }}
+                    />
+                    {label}
+                  </label>
+                ))}
+              </div>
+              <p
+                style={{
+                  fontSize: "0.75rem",
+                  color: "#64748b",
+                  margin: "0.25rem 0 0",
+                }}
+              >
+                Viewport captures what is on screen; Full Page captures the
+                whole scrollable page with markers at their document position
+              </p>
+            </div>
+
+            <div style={{ marginTop: "1rem" }}>
+              <label
+                style={{
+                  display: "block",
+                  fontSize: "0.875rem",
+                  fontWeight: 500,
+                  color: "#475569",
+                  marginBottom: "0.5rem",
+                }}
+              >
+                Zoom Focus
+              </label>
+              <div style={{ display: "flex", gap: "0.75rem" }}>
+                {(
+                  [
+                    ["off", "Off"],
+                    ["frame", "Extra Frame"],
+                    ["inset", "Inset"],
+                  ] as const
+                ).map(([mode, label]) => (
+                  <label
+                    key={mode}
+                    style={{
+                      flex: 1,
+                      padding: "0.75rem",
+                      border: `2px solid ${
+                        localPreferences.zoomFocus === mode
+                          ? "#3b82f6"
+                          : "#cbd5e1"
+                      }`,
+                      borderRadius: "8px",
+                      cursor: "pointer",
+                      textAlign: "center",
+                      fontSize: "0.875rem",
+                      background:
+                        localPreferences.zoomFocus === mode
+                          ? "#eff6ff"
+                          : "white",
+                    }}
+                  >
+                    <input
+                      type="radio"
+                      name="zoomFocus"
+                      value={mode}
+                      checked={localPreferences.zoomFocus === mode}
+                      onChange={() => handleChange("zoomFocus", mode)}
+                      style={{ marginRight: "0.5rem" }}
+                    />
+                    {label}
+                  </label>
+                ))}
+              </div>
+              <p
+                style={{
+                  fontSize: "0.75rem",
+                  color: "#64748b",
+                  margin: "0.25rem 0 0",
+                }}
+              >
+                Exports zoom in on the clicked element so it stays readable in
+                small GIFs, as a frame of its own or a picture-in-picture inset
+              </p>
+            </div>
+          </section>
+
+          {/* Capture Modes */}
+          <section style={{ marginBottom: "2rem" }}>
+            <h3
+              style={{
+                fontSize: "1.125rem",
+                fontWeight: 600,
+                color: "#1e293b",
+                marginBottom: "1rem",
+              }}
+            >
+              Capture Modes
+            </h3>
+
+            <label
+              style={{
+                display: "flex",
+                alignItems: "center",
+                gap: "0.75rem",
+                cursor: "pointer",
+              }}
+            >
+              <input
+                type="checkbox"
+                checked={localPreferences.keystrokeCaptureEnabled}
+                onChange={(e) =>
+                  handleChange("keystrokeCaptureEnabled", e.target.checked)
+                }
+                style={{ width: "20px", height: "20px" }}
+              />
+              <span style={{ fontSize: "0.875rem", color: "#475569" }}>
+                Capture typing and key presses
+              </span>
+            </label>
+            <p
+              style={{
+                fontSize: "0.75rem",
+                color: "#64748b",
+                margin: "0.5rem 0 0 2rem",
+              }}
+            >
+              Records a frame when typing pauses or Enter, Escape, Tab or a
+              shortcut is pressed. Password values are always masked.
+            </p>
+
+            <label
+              style={{
+                display: "flex",
+                alignItems: "center",
+                gap: "0.75rem",
+                cursor: "pointer",
+                marginTop: "1rem",
+              }}
+            >
+              <input
+                type="checkbox"
+                checked={localPreferences.scrollCaptureEnabled}
+                onChange={(e) =>
+                  handleChange("scrollCaptureEnabled", e.target.checked)
+                }
+                style={{ width: "20px", height: "20px" }}
+              />
+              <span style={{ fontSize: "0.875rem", color: "#475569" }}>
+                Capture scrolling
+              </span>
+            </label>
+            <p
+              style={{
+                fontSize: "0.75rem",
+                color: "#64748b",
+                margin: "0.5rem 0 0 2rem",
+              }}
+            >
+              Records a frame with a direction indicator once scrolling stops.
+              Scroll frames can be skipped in the player and on export.
+            </p>
+
+            <label
+              style={{
+                display: "flex",
+                alignItems: "center",
+                gap: "0.75rem",
+                cursor: "pointer",
+                marginTop: "1rem",
+              }}
+            >
+              <input
+                type="checkbox"
+                checked={localPreferences.dragCaptureEnabled}
+                onChange={(e) =>
+                  handleChange("dragCaptureEnabled", e.target.checked)
+                }
+                style={{ width: "20px", height: "20px" }}
+              />
+              <span style={{ fontSize: "0.875rem", color: "#475569" }}>
+                Capture drag gestures
+              </span>
+            </label>
+            <p
+              style={{
+                fontSize: "0.75rem",
+                color: "#64748b",
+                margin: "0.5rem 0 0 2rem",
+              }}
+            >
+              Lets presses reach the page so drag and drop works while armed,
+              and records a frame with the pointer path once the drag ends.
+              Buttons that react on press may look pressed in click frames.
+            </p>
+
+            <label
+              style={{
+                display: "flex",
+                alignItems: "center",
+                gap: "0.75rem",
+                cursor: "pointer",
+                marginTop: "1rem",
+              }}
+            >
+              <input
+                type="checkbox"
+                checked={localPreferences.diagnosticsCaptureEnabled}
+                onChange={(e) =>
+                  handleChange("diagnosticsCaptureEnabled", e.target.checked)
+                }
+                style={{ width: "20px", height: "20px" }}
+              />
+              <span style={{ fontSize: "0.875rem", color: "#475569" }}>
+                Record console errors
+              </span>
+            </label>
+            <p
+              style={{
+                fontSize: "0.75rem",
+                color: "#64748b",
+                margin: "0.5rem 0 0 2rem",
+              }}
+            >
+              Records console warnings and errors, uncaught errors and unhandled
+              promise rejections with the click that caused them. Messages are
+              stored as logged, so they may contain page data.
+            </p>
+
+            <label
+              style={{
+                display: "flex",
+                alignItems: "center",
+                gap: "0.75rem",
+                cursor: "pointer",
+                marginTop: "1rem",
+              }}
+            >
+              <input
+                type="checkbox"
+                checked={localPreferences.domSnapshotsEnabled}
+                onChange={(e) =>
+                  handleChange("domSnapshotsEnabled", e.target.checked)
+                }
+                style={{ width: "20px", height: "20px" }}
+              />
+              <span style={{ fontSize: "0.875rem", color: "#475569" }}>
+                Record DOM snapshots
+              </span>
+            </label>
+            <p
+              style={{
+                fontSize: "0.75rem",
+                color: "#64748b",
+                margin: "0.5rem 0 0 2rem",
+              }}
+            >
+              Stores the page's markup, styles and form state with each frame,
+              so the player can re-render the DOM of any step for inspection and
+              show what each click changed in the DOM. Scripts are removed and
+              content is masked while obfuscating. Snapshots make reels
+              considerably larger.
+            </p>
+
+            <label
+              style={{
+                display: "flex",
+                alignItems: "center",
+                gap: "0.75rem",
+                cursor: "pointer",
+                marginTop: "1rem",
+              }}
+            >
+              <input
+                type="checkbox"
+                checked={localPreferences.navigationCaptureEnabled}
+                onChange={(e) =>
+                  handleChange("navigationCaptureEnabled", e.target.checked)
+                }
+                style={{ width: "20px", height: "20px" }}
+              />
+              <span style={{ fontSize: "0.875rem", color: "#475569" }}>
+                Capture route changes
+              </span>
+            </label>
+            <p
+              style={{
+                fontSize: "0.75rem",
+                color: "#64748b",
+                margin: "0.5rem 0 0 2rem",
+              }}
+            >
+              Captures a frame when a single-page app changes its address
+              between clicks (history.pushState, replaceState, back and
+              forward), once the new route has rendered. Every frame records its
+              address and title either way, so the player can mark where each
+              route starts.
+            </p>
+
+            {/* Selector Strategies */}
+            <div style={{ marginTop: "1.5rem" }}>
+              <label
+                style={{
+                  display: "block",
+                  fontSize: "0.875rem",
+                  fontWeight: 500,
+                  color: "#475569",
+                  marginBottom: "0.5rem",
+                }}
+              >
+                Element Selectors
+              </label>
+              {[
+                ...selectorStrategies,
+                ...(
+                  Object.keys(
+                    SELECTOR_STRATEGY_LABELS
+                  ) as OptionalSelectorStrategy[]
+                ).filter((strategy) => !selectorStrategies.includes(strategy)),
+              ].map((strategy) => {
+                const index = selectorStrategies.indexOf(strategy);
+                const enabled = index !== -1;
+                return (
+                  <div
+                    key={strategy}
+                    style={{
+                      display: "flex",
+                      alignItems: "center",
+                      gap: "0.75rem",
+                      padding: "0.25rem 0",
+                    }}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={enabled}
+                      onChange={(e) =>
+                        setSelectorStrategies(
+                          e.target.checked
+                            ? [...selectorStrategies, strategy]
+                            : selectorStrategies.filter(
+                                (other) => other !== strategy
+                              )
+                        )
+                      }
+                      style={{ width: "20px", height: "20px" }}
+                    />
+                    <span
+                      style={{
+                        flex: 1,
+                        fontSize: "0.875rem",
+                        color: enabled ? "#475569" : "#94a3b8",
+                      }}
+                    >
+                      {SELECTOR_STRATEGY_LABELS[strategy]}
+                    </span>
+                    {enabled &&
+                      (
+                        [
+                          [-1, "Try earlier", ChevronUp],
+                          [1, "Try later", ChevronDown],
+                        ] as const
+                      ).map(([offset, title, Icon]) => (
+                        <button
+                          key={offset}
+                          onClick={() => moveSelectorStrategy(index, offset)}
+                          disabled={!selectorStrategies[index + offset]}
+                          title={title}
+                          style={{
+                            display: "flex",
+                            padding: "0.25rem",
+                            border: "1px solid #cbd5e1",
+                            borderRadius: "6px",
+                            background: "white",
+                            color: "#475569",
+                            cursor: "pointer",
+                            opacity: selectorStrategies[index + offset]
+                              ? 1
+                              : 0.4,
+                          }}
+                        >
+                          <Icon size={14} />
+                        </button>
+                      ))}
+                  </div>
+                );
+              })}
+              <div
+                style={{
+                  display: "flex",
+                  alignItems: "center",
+                  gap: "0.75rem",
+                  padding: "0.25rem 0",
+                }}
+              >
+                <input
+                  type="checkbox"
+                  checked
+                  disabled
+                  style={{ width: "20px", height: "20px" }}
+                />
+                <span style={{ fontSize: "0.875rem", color: "#475569" }}>
+                  Structural path (always tried last)
+                </span>
+              </div>
+              <p
+                style={{
+                  fontSize: "0.75rem",
+                  color: "#64748b",
+                  margin: "0.25rem 0 0",
+                }}
+              >
+                Tried in order: the first selector that matches only the clicked
+                element becomes its path, and the others are kept as fallbacks.
+                Role selectors are skipped while obfuscation is on.
+              </p>
+            </div>
           </section>
 
           {/* Privacy */}
@@ -3,7 +3,7 @@
  */
 
 import { createContext, useContext, type Dispatch } from "react";
-import type { ClickReelState, Action } from "../../types";
+import type { ClickReelState, Action, CaptureRootTarget } from "../../types";
 
 /**
  * Context value type
@@ -11,6 +11,8 @@ import type { ClickReelState, Action } from "../../types";
 export interface ClickReelContextValue {
   state: ClickReelState;
   dispatch: Dispatch<Action>;
+  /** Element, ref or selector to record (defaults to the whole document) */
+  root?: CaptureRootTarget;
 }
 
 /**
@@ -4,6 +4,7 @@
 
 import type { ClickReelState, Action, UserPreferences } from "../../types";
 import { ActionType } from "../../types";
+import { libraryConsole } from "../../utils/library-console";
 
 /**
  * Default preferences (fallback if nothing in localStorage)
@@ -11,14 +12,34 @@ import { ActionType } from "../../types";
 const DEFAULT_PREFERENCES: UserPreferences = {
   markerSize: 20,
   markerColor: "#ff0000",
+  markerShape: "circle",
+  markerButtonColors: {},
+  targetHighlight: "off",
+  dimOutsideTarget: false,
+  selectorStrategies: ["test-id", "id", "role", "class", "structural"],
   exportFormat: "gif",
   postClickDelay: 100,
   postClickInterval: 50,
   maxCaptureDuration: 30000,
+  settleStrategy: "events",
+  settleThreshold: 0.5,
+  settleStableFrames: 1,
+  settleIgnoreSelector: "",
+  networkIdleWait: false,
+  motionCaptureEnabled: false,
+  animationSteppingEnabled: false,
   scale: 1,
+  captureMode: "viewport",
+  zoomFocus: "off",
   maxWidth: undefined,
   maxHeight: undefined,
   obfuscationEnabled: false,
+  keystrokeCaptureEnabled: false,
+  scrollCaptureEnabled: false,
+  dragCaptureEnabled: false,
+  diagnosticsCaptureEnabled: false,
+  domSnapshotsEnabled: false,
+  navigationCaptureEnabled: false,
   keyboardShortcuts: {
     toggleRecorder: "ctrl+shift+r",
     toggleObfuscation: "ctrl+shift+o",
@@ -52,7 +73,7 @@ function createInitialState(): ClickReelState {
         recorderVisible = preferences.recorderUI?.showOnStartup !== false;
       }
     } catch (error) {
-      console.warn("Failed to load Click Reel preferences:", error);
+      libraryConsole.warn("Failed to load Click Reel preferences:", error);
     }
   }
 
@@ -125,7 +146,7 @@ export function clickReelReducer(
     case ActionType.ADD_FRAME:
       // Add frame to current reel
       if (!state.currentReel) {
-        console.warn("ADD_FRAME: No current reel");
+        libraryConsole.warn("ADD_FRAME: No current reel");
         return state;
       }
 
@@ -4,6 +4,19 @@
  */
 
 import { useEffect, useRef } from "react";
+import type { DragPoint } from "../../types";
+import {
+  DRAG_MAX_POINTS,
+  DRAG_MIN_POINT_DISTANCE,
+  DRAG_THRESHOLD,
+} from "../../utils/constants";
+import {
+  closestComposed,
+  getEventTarget,
+  getFrameOffset,
+  getSameOriginFrames,
+} from "../../utils/dom-utils";
+import { libraryConsole } from "../../utils/library-console";
 
 export interface ClickCaptureOptions {
   /** Whether the recorder is armed and ready to capture */
@@ -14,6 +27,73 @@ export interface ClickCaptureOptions {
   onCapture: (event: PointerEvent) => void;
   /** Whether recording is active */
   isRecording: boolean;
+  /**
+   * Whether to let presses reach the page and track drag gestures
+   * Presses are reported through onPress as they start and are not blocked,
+   * so a click reaches the page once, naturally, instead of being replayed.
+   * Pages that redraw synchronously on press may already show the pressed
+   * state in the pre-click frame
+   */
+  captureDrags?: boolean;
+  /**
+   * Callback when a press on page content starts (drag capture only), before
+   * it is known to be a click or a drag. onCapture or onDragCapture follows
+   * once the gesture ends; a press may also end in neither
+   */
+  onPress?: (event: PointerEvent) => void;
+  /** Callback when a drag gesture ends (path is in viewport coordinates) */
+  onDragCapture?: (
+    source: HTMLElement,
+    path: DragPoint[],
+    buttonType: number
+  ) => void;
+}
+
+/**
+ * A press that may turn out to be a click or a drag
+ */
+interface PendingGesture {
+  downEvent: PointerEvent;
+  target: HTMLElement;
+  startTime: number;
+  path: DragPoint[];
+  /** Set once the browser takes over with native HTML5 drag and drop */
+  nativeDrag: boolean;
+}
+
+/**
+ * Append a pointer position to a drag path, skipping tiny moves and
+ * thinning the path when it grows past DRAG_MAX_POINTS
+ */
+function appendDragPoint(
+  gesture: PendingGesture,
+  x: number,
+  y: number,
+  force: boolean = false
+): void {
+  const { path } = gesture;
+  const last = path[path.length - 1];
+  if (!force && Math.hypot(x - last.x, y - last.y) < DRAG_MIN_POINT_DISTANCE) {
+    return;
+  }
+
+  path.push({ x, y, t: Math.round(performance.now() - gesture.startTime) });
+
+  if (path.length > DRAG_MAX_POINTS) {
+    // Keep the first and last points, drop every other one in between
+    gesture.path = path.filter(
+      (_, i) => i === 0 || i === path.length - 1 || i % 2 === 0
+    );
+  }
+}
+
+/**
+ * Straight-line distance between the first and last point of a drag path
+ */
+function getDragDistance(path: DragPoint[]): number {
+  const start = path[0];
+  const end = path[path.length - 1];
+  return Math.hypot(end.x - start.x, end.y - start.y);
 }
 
 // MODULE-LEVEL guard to prevent double attachment across ALL instances
@@ -24,7 +104,15 @@ let globalAttachedRoot: HTMLElement | null = null;
  * Hook for managing pointer event listeners during armed recording
  */
 export function useClickCapture(options: ClickCaptureOptions): void {
-  const { armed, root, onCapture, isRecording } = options;
+  const {
+    armed,
+    root,
+    onCapture,
+    isRecording,
+    captureDrags = false,
+    onPress,
+    onDragCapture,
+  } = options;
   const listenerAttachedRef = useRef(false);
   const capturingInProgressRef = useRef(false);
 
@@ -36,7 +124,7 @@ export function useClickCapture(options: ClickCaptureOptions): void {
 
     // Prevent double-attachment (React Strict Mode or rapid re-renders)
     if (listenerAttachedRef.current) {
-      console.warn(
+      libraryConsole.warn(
         "⚠️ [Instance] Listener already attached - skipping duplicate attachment"
       );
       return;
@@ -44,7 +132,7 @@ export function useClickCapture(options: ClickCaptureOptions): void {
 
     // CRITICAL: Check module-level guard
     if (globalListenerAttached && globalAttachedRoot === root) {
-      console.warn(
+      libraryConsole.warn(
         "⚠️ [GLOBAL] Listener already attached to this root - skipping duplicate attachment"
       );
       return;
@@ -55,47 +143,23 @@ export function useClickCapture(options: ClickCaptureOptions): void {
     globalListenerAttached = true;
     globalAttachedRoot = root;
 
-    // Create the capture handler - intercept, capture, then replay
-    const handlePointerDown = (event: PointerEvent) => {
-      const target = event.target as HTMLElement;
-
-      // Skip replayed events (marked with our custom property)
-      if ((event as any).__clickReelReplayed) {
-        console.log("⏭️ [useClickCapture] Skipping replayed event");
-        return;
-      }
-
-      console.log("🔍 [useClickCapture] Pointer down detected:", {
-        target: target?.tagName,
-        id: target?.id,
-        className: target?.className,
-        hasScreenshotExclude: !!target.closest(
-          '[data-screenshot-exclude="true"]'
-        ),
-        hasPiiDisable: !!target.closest(".pii-disable"),
-      });
-
-      // Check if click is on Click Reel UI (recorder, settings, inventory)
-      // If so, skip capture but DON'T interfere with the event
-      const isClickReelUI =
-        target.closest('[data-screenshot-exclude="true"]') ||
-        target.closest(".pii-disable");
+    // Press that may become a click or a drag (drag capture only)
+    let pendingGesture: PendingGesture | null = null;
+    // Set while the click that follows a finished drag is dispatched
+    let dragJustEnded = false;
 
-      if (isClickReelUI) {
-        console.log(
-          "⏭️ [useClickCapture] Click on Click Reel UI - SKIPPING capture (event flows normally)"
-        );
-        return; // Skip capture, but event continues normally
-      }
-
-      console.log("📸 [useClickCapture] Click on PAGE CONTENT - CAPTURING:", {
-        x: event.clientX,
-        y: event.clientY,
-        target: target?.tagName,
-      });
+    // Pointer position in this page's viewport (events from inside an iframe
+    // report coordinates relative to the iframe)
+    const getPagePoint = (event: MouseEvent) => {
+      const offset = getFrameOffset(getEventTarget(event));
+      return { x: event.clientX + offset.x, y: event.clientY + offset.y };
+    };
 
-      // CRITICAL: Store event details and prevent default behavior
-      const clickTarget = target;
+    // Capture the press as a pre-click frame, then replay the click on its target
+    const captureAndReplay = (
+      event: PointerEvent,
+      clickTarget: HTMLElement
+    ) => {
       const clickDetails = {
         clientX: event.clientX,
         clientY: event.clientY,
@@ -106,12 +170,6 @@ export function useClickCapture(options: ClickCaptureOptions): void {
         metaKey: event.metaKey,
       };
 
-      // Prevent the original event from propagating
-      event.preventDefault();
-      event.stopPropagation();
-      event.stopImmediatePropagation();
-      console.log("🛑 [useClickCapture] Prevented original event");
-
       // Start capture immediately
       console.log("✅ [useClickCapture] Invoking capture callback (sync)");
       capturingInProgressRef.current = true; // Mark capture as in progress
@@ -128,7 +186,7 @@ export function useClickCapture(options: ClickCaptureOptions): void {
         const newClickEvent = new MouseEvent("click", {
           bubbles: true,
           cancelable: true,
-          view: window,
+          view: clickTarget.ownerDocument.defaultView || window,
           clientX: clickDetails.clientX,
           clientY: clickDetails.clientY,
           button: clickDetails.button,
@@ -152,9 +210,85 @@ export function useClickCapture(options: ClickCaptureOptions): void {
       }, 50); // Small delay to let capture sequence start
     };
 
+    // Report a finished drag and let the click it may produce flow normally
+    const finishDrag = (gesture: PendingGesture) => {
+      console.log("✋ [useClickCapture] Drag finished:", {
+        points: gesture.path.length,
+        distance: Math.round(getDragDistance(gesture.path)),
+      });
+      dragJustEnded = true;
+      setTimeout(() => {
+        dragJustEnded = false;
+      }, 0);
+      onDragCapture?.(gesture.target, gesture.path, gesture.downEvent.button);
+    };
+
+    // Create the capture handler - intercept, capture, then replay
+    const handlePointerDown = (event: PointerEvent) => {
+      const target = getEventTarget(event);
+
+      // Skip replayed events (marked with our custom property)
+      if ((event as any).__clickReelReplayed) {
+        console.log("⏭️ [useClickCapture] Skipping replayed event");
+        return;
+      }
+
+      console.log("🔍 [useClickCapture] Pointer down detected:", {
+        target: target?.tagName,
+        id: target?.id,
+        className: target?.className,
+        hasScreenshotExclude: !!closestComposed(
+          target,
+          '[data-screenshot-exclude="true"]'
+        ),
+        hasPiiDisable: !!closestComposed(target, ".pii-disable"),
+      });
+
+      // Check if click is on Click Reel UI (recorder, settings, inventory)
+      // If so, skip capture but DON'T interfere with the event
+      const isClickReelUI =
+        closestComposed(target, '[data-screenshot-exclude="true"]') ||
+        closestComposed(target, ".pii-disable");
+
+      if (isClickReelUI) {
+        console.log(
+          "⏭️ [useClickCapture] Click on Click Reel UI - SKIPPING capture (event flows normally)"
+        );
+        return; // Skip capture, but event continues normally
+      }
+
+      console.log("📸 [useClickCapture] Click on PAGE CONTENT - CAPTURING:", {
+        x: event.clientX,
+        y: event.clientY,
+        target: target?.tagName,
+      });
+
+      // Drag capture: let the press reach the page so drag handlers can
+      // start, and report it so the page is captured before it reacts
+      if (captureDrags) {
+        pendingGesture = {
+          downEvent: event,
+          target,
+          startTime: performance.now(),
+          path: [{ ...getPagePoint(event), t: 0 }],
+          nativeDrag: false,
+        };
+        onPress?.(event);
+        return;
+      }
+
+      // CRITICAL: Prevent the original event from propagating
+      event.preventDefault();
+      event.stopPropagation();
+      event.stopImmediatePropagation();
+      console.log("🛑 [useClickCapture] Prevented original event");
+
+      captureAndReplay(event, target);
+    };
+
     // Also handle mousedown to prevent it from generating additional events
     const handleMouseDown = (event: MouseEvent) => {
-      const target = event.target as HTMLElement;
+      const target = getEventTarget(event);
 
       // Skip replayed events
       if ((event as any).__clickReelReplayed) {
@@ -163,13 +297,18 @@ export function useClickCapture(options: ClickCaptureOptions): void {
 
       // Allow Click Reel UI events
       const isClickReelUI =
-        target.closest('[data-screenshot-exclude="true"]') ||
-        target.closest(".pii-disable");
+        closestComposed(target, '[data-screenshot-exclude="true"]') ||
+        closestComposed(target, ".pii-disable");
 
       if (isClickReelUI) {
         return;
       }
 
+      // Drag capture lets the press reach the page
+      if (captureDrags) {
+        return;
+      }
+
       // Block mousedown on page content (pointerdown already handled it)
       console.log(
         "🛑 [useClickCapture] Blocking mousedown (using pointerdown instead)"
@@ -182,7 +321,7 @@ export function useClickCapture(options: ClickCaptureOptions): void {
     // CRITICAL: Also intercept click events and only allow replayed ones
     // This prevents the browser's natural click from firing (it converts pointerdown → click)
     const handleClick = (event: MouseEvent) => {
-      const target = event.target as HTMLElement;
+      const target = getEventTarget(event);
 
       // Allow replayed clicks through
       if ((event as any).__clickReelReplayed) {
@@ -192,8 +331,8 @@ export function useClickCapture(options: ClickCaptureOptions): void {
 
       // Check if this is a Click Reel UI click (should flow normally)
       const isClickReelUI =
-        target.closest('[data-screenshot-exclude="true"]') ||
-        target.closest(".pii-disable");
+        closestComposed(target, '[data-screenshot-exclude="true"]') ||
+        closestComposed(target, ".pii-disable");
 
       if (isClickReelUI) {
         console.log(
@@ -202,6 +341,22 @@ export function useClickCapture(options: ClickCaptureOptions): void {
         return;
       }
 
+      if (captureDrags) {
+        // The click that ends a drag belongs to the drag - let it through
+        if (dragJustEnded) {
+          return;
+        }
+
+        // The press was a click - it was captured when it started, so the
+        // natural click flows through and the settled frames follow
+        const gesture = pendingGesture;
+        pendingGesture = null;
+        if (gesture) {
+          onCapture(gesture.downEvent);
+        }
+        return;
+      }
+
       // Block all other natural clicks (they've already been captured via pointerdown)
       console.log(
         "🛑 [useClickCapture] Blocking natural click (already captured)"
@@ -213,17 +368,32 @@ export function useClickCapture(options: ClickCaptureOptions): void {
 
     // Block pointerup to prevent buttons from responding to it
     const handlePointerUp = (event: PointerEvent) => {
-      const target = event.target as HTMLElement;
+      const target = getEventTarget(event);
 
       // Skip replayed events
       if ((event as any).__clickReelReplayed) {
         return;
       }
 
+      // Drag capture: decide between drag and click, and let the release flow
+      if (captureDrags) {
+        const gesture = pendingGesture;
+        if (gesture && !gesture.nativeDrag) {
+          const point = getPagePoint(event);
+          appendDragPoint(gesture, point.x, point.y, true);
+          if (getDragDistance(gesture.path) >= DRAG_THRESHOLD) {
+            pendingGesture = null;
+            finishDrag(gesture);
+          }
+          // Shorter gestures stay pending for the click event that follows
+        }
+        return;
+      }
+
       // Allow Click Reel UI events
       const isClickReelUI =
-        target.closest('[data-screenshot-exclude="true"]') ||
-        target.closest(".pii-disable");
+        closestComposed(target, '[data-screenshot-exclude="true"]') ||
+        closestComposed(target, ".pii-disable");
 
       if (isClickReelUI) {
         return;
@@ -238,7 +408,7 @@ export function useClickCapture(options: ClickCaptureOptions): void {
 
     // Block mouseup to prevent buttons from responding to it
     const handleMouseUp = (event: MouseEvent) => {
-      const target = event.target as HTMLElement;
+      const target = getEventTarget(event);
 
       // Skip replayed events
       if ((event as any).__clickReelReplayed) {
@@ -247,13 +417,18 @@ export function useClickCapture(options: ClickCaptureOptions): void {
 
       // Allow Click Reel UI events
       const isClickReelUI =
-        target.closest('[data-screenshot-exclude="true"]') ||
-        target.closest(".pii-disable");
+        closestComposed(target, '[data-screenshot-exclude="true"]') ||
+        closestComposed(target, ".pii-disable");
 
       if (isClickReelUI) {
         return;
       }
 
+      // Drag capture lets the release reach the page
+      if (captureDrags) {
+        return;
+      }
+
       // Block mouseup on page content
       console.log("🛑 [useClickCapture] Blocking mouseup");
       event.preventDefault();
@@ -261,35 +436,160 @@ export function useClickCapture(options: ClickCaptureOptions): void {
       event.stopImmediatePropagation();
     };
 
+    // Sample the pointer path while a press is pending
+    const handlePointerMove = (event: PointerEvent) => {
+      const gesture = pendingGesture;
+      if (
+        gesture &&
+        !gesture.nativeDrag &&
+        event.pointerId === gesture.downEvent.pointerId
+      ) {
+        const point = getPagePoint(event);
+        appendDragPoint(gesture, point.x, point.y);
+      }
+    };
+
+    // Native HTML5 drag and drop cancels pointer events - follow drag events instead
+    const handleDragStart = () => {
+      if (pendingGesture) {
+        pendingGesture.nativeDrag = true;
+      }
+    };
+
+    const handleDragOver = (event: DragEvent) => {
+      if (pendingGesture?.nativeDrag) {
+        const point = getPagePoint(event);
+        appendDragPoint(pendingGesture, point.x, point.y);
+      }
+    };
+
+    const handleDragEnd = () => {
+      const gesture = pendingGesture;
+      if (!gesture?.nativeDrag) {
+        return;
+      }
+      pendingGesture = null;
+      if (getDragDistance(gesture.path) >= DRAG_THRESHOLD) {
+        finishDrag(gesture);
+      }
+    };
+
     // Attach all listeners in capture phase to block ALL forms of click events
-    root.addEventListener("pointerdown", handlePointerDown, {
-      capture: true, // Capture phase - intercept before target
-      passive: false, // MUST be false to allow preventDefault
-    });
+    const addListeners = (target: HTMLElement) => {
+      target.addEventListener("pointerdown", handlePointerDown, {
+        capture: true, // Capture phase - intercept before target
+        passive: false, // MUST be false to allow preventDefault
+      });
 
-    root.addEventListener("mousedown", handleMouseDown, {
-      capture: true, // Capture phase - intercept before target
-      passive: false, // MUST be false to allow preventDefault
-    });
+      target.addEventListener("mousedown", handleMouseDown, {
+        capture: true, // Capture phase - intercept before target
+        passive: false, // MUST be false to allow preventDefault
+      });
 
-    root.addEventListener("pointerup", handlePointerUp, {
-      capture: true, // Capture phase - intercept before target
-      passive: false, // MUST be false to allow preventDefault
-    });
+      target.addEventListener("pointerup", handlePointerUp, {
+        capture: true, // Capture phase - intercept before target
+        passive: false, // MUST be false to allow preventDefault
+      });
 
-    root.addEventListener("mouseup", handleMouseUp, {
-      capture: true, // Capture phase - intercept before target
-      passive: false, // MUST be false to allow preventDefault
-    });
+      target.addEventListener("mouseup", handleMouseUp, {
+        capture: true, // Capture phase - intercept before target
+        passive: false, // MUST be false to allow preventDefault
+      });
 
-    root.addEventListener("click", handleClick, {
-      capture: true, // Capture phase - intercept before target
-      passive: false, // MUST be false to allow preventDefault
-    });
+      target.addEventListener("click", handleClick, {
+        capture: true, // Capture phase - intercept before target
+        passive: false, // MUST be false to allow preventDefault
+      });
 
-    console.log("Click capture listeners attached to", root.tagName);
+      // Drag tracking only observes - these listeners never block events
+      if (captureDrags) {
+        target.addEventListener("pointermove", handlePointerMove, {
+          capture: true,
+          passive: true,
+        });
+        target.addEventListener("dragstart", handleDragStart, {
+          capture: true,
+          passive: true,
+        });
+        target.addEventListener("dragover", handleDragOver, {
+          capture: true,
+          passive: true,
+        });
+        target.addEventListener("dragend", handleDragEnd, {
+          capture: true,
+          passive: true,
+        });
+      }
+    };
+
+    // MUST remove the exact same functions that were added
+    const removeListeners = (target: HTMLElement) => {
+      target.removeEventListener("pointerdown", handlePointerDown, {
+        capture: true, // Must match the addEventListener options
+      });
+      target.removeEventListener("mousedown", handleMouseDown, {
+        capture: true,
+      });
+      target.removeEventListener("pointerup", handlePointerUp, {
+        capture: true,
+      });
+      target.removeEventListener("mouseup", handleMouseUp, { capture: true });
+      target.removeEventListener("click", handleClick, { capture: true });
+      target.removeEventListener("pointermove", handlePointerMove, {
+        capture: true,
+      });
+      target.removeEventListener("dragstart", handleDragStart, {
+        capture: true,
+      });
+      target.removeEventListener("dragover", handleDragOver, { capture: true });
+      target.removeEventListener("dragend", handleDragEnd, { capture: true });
+    };
+
+    // Clicks inside same-origin iframes never reach this document, so listen
+    // on each iframe's root element too - checked again whenever an iframe loads
+    const frameRoots = new Set<HTMLElement>();
+    const attachToFrames = (scope: Element) => {
+      getSameOriginFrames(scope).forEach((frame) => {
+        const frameRoot = (frame.contentDocument as Document).documentElement;
+        if (!frameRoots.has(frameRoot)) {
+          frameRoots.add(frameRoot);
+          addListeners(frameRoot);
+          frameRoot.addEventListener("load", handleFrameLoad, {
+            capture: true,
+          });
+        }
+        attachToFrames(frameRoot);
+      });
+    };
+
+    // load doesn't bubble, but capture-phase listeners still see it
+    const handleFrameLoad = (event: Event) => {
+      if ((event.target as Element | null)?.tagName === "IFRAME") {
+        attachToFrames(root);
+      }
+    };
+
+    const removeAllListeners = () => {
+      removeListeners(root);
+      root.removeEventListener("load", handleFrameLoad, { capture: true });
+      frameRoots.forEach((frameRoot) => {
+        removeListeners(frameRoot);
+        frameRoot.removeEventListener("load", handleFrameLoad, {
+          capture: true,
+        });
+      });
+      frameRoots.clear();
+    };
+
+    addListeners(root);
+    root.addEventListener("load", handleFrameLoad, { capture: true });
+    attachToFrames(root);
 
-    // Cleanup function - MUST remove the exact same functions that were added
+    console.log("Click capture listeners attached to", root.tagName, {
+      frames: frameRoots.size,
+    });
+
+    // Cleanup function
     return () => {
       // CRITICAL: Only remove listeners if we're not actively capturing
       // This prevents a race condition where listeners are removed mid-capture
@@ -299,21 +599,7 @@ export function useClickCapture(options: ClickCaptureOptions): void {
         // Schedule cleanup for later
         setTimeout(() => {
           console.log("🔄 Retrying listener removal after capture");
-          root.removeEventListener("pointerdown", handlePointerDown, {
-            capture: true,
-          });
-          root.removeEventListener("mousedown", handleMouseDown, {
-            capture: true,
-          });
-          root.removeEventListener("pointerup", handlePointerUp, {
-            capture: true,
-          });
-          root.removeEventListener("mouseup", handleMouseUp, {
-            capture: true,
-          });
-          root.removeEventListener("click", handleClick, {
-            capture: true,
-          });
+          removeAllListeners();
           listenerAttachedRef.current = false;
           globalListenerAttached = false;
           globalAttachedRoot = null;
@@ -322,24 +608,18 @@ export function useClickCapture(options: ClickCaptureOptions): void {
       }
 
       console.log("Removing click capture listeners");
-      root.removeEventListener("pointerdown", handlePointerDown, {
-        capture: true, // Must match the addEventListener options
-      });
-      root.removeEventListener("mousedown", handleMouseDown, {
-        capture: true, // Must match the addEventListener options
-      });
-      root.removeEventListener("pointerup", handlePointerUp, {
-        capture: true, // Must match the addEventListener options
-      });
-      root.removeEventListener("mouseup", handleMouseUp, {
-        capture: true, // Must match the addEventListener options
-      });
-      root.removeEventListener("click", handleClick, {
-        capture: true, // Must match the addEventListener options
-      });
+      removeAllListeners();
       listenerAttachedRef.current = false;
       globalListenerAttached = false;
       globalAttachedRoot = null;
     };
-  }, [armed, root, onCapture, isRecording]);
+  }, [
+    armed,
+    root,
+    onCapture,
+    isRecording,
+    captureDrags,
+    onPress,
+    onDragCapture,
+  ]);
 }
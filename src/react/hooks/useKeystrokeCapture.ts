@@ -0,0 +1,130 @@
+/**
+ * Keystroke capture event management hook
+ * Listens for typing and key presses while armed and requests keystroke frames
+ */
+
+import { useEffect, useRef } from "react";
+import {
+  KEYSTROKE_CAPTURE_KEYS,
+  KEYSTROKE_DEBOUNCE_MS,
+} from "../../utils/constants";
+import { closestComposed, getEventTarget } from "../../utils/dom-utils";
+
+export interface KeystrokeCaptureOptions {
+  /** Whether the recorder is armed and ready to capture */
+  armed: boolean;
+  /** The root element to attach listeners to */
+  root: HTMLElement;
+  /** Whether keystroke capture is enabled for this recording */
+  enabled: boolean;
+  /** Whether recording is active */
+  isRecording: boolean;
+  /**
+   * Callback when a keystroke frame should be captured
+   * keyEvent is null when the frame was triggered by typing going idle
+   */
+  onCapture: (target: HTMLElement, keyEvent: KeyboardEvent | null) => void;
+  /** Idle time after the last input event before capturing (ms) */
+  debounceMs?: number;
+}
+
+/**
+ * Check if a target belongs to the Click Reel UI (recorder, settings, inventory)
+ */
+function isClickReelUI(target: HTMLElement): boolean {
+  return !!(
+    closestComposed(target, '[data-screenshot-exclude="true"]') ||
+    closestComposed(target, ".pii-disable")
+  );
+}
+
+/**
+ * Check if a key press should capture a frame immediately
+ * Ctrl+Shift combinations are reserved for Click Reel's own shortcuts
+ */
+function isCaptureKey(event: KeyboardEvent): boolean {
+  if (KEYSTROKE_CAPTURE_KEYS.includes(event.key)) {
+    return true;
+  }
+
+  const isModifierKey = ["Control", "Shift", "Alt", "Meta"].includes(event.key);
+  if (isModifierKey || (event.ctrlKey && event.shiftKey)) {
+    return false;
+  }
+
+  return event.ctrlKey || event.metaKey || event.altKey;
+}
+
+/**
+ * Hook for capturing typing and key presses during armed recording
+ * Events are observed only - they are never blocked or replayed
+ */
+export function useKeystrokeCapture(options: KeystrokeCaptureOptions): void {
+  const {
+    armed,
+    root,
+    enabled,
+    isRecording,
+    onCapture,
+    debounceMs = KEYSTROKE_DEBOUNCE_MS,
+  } = options;
+  const pendingTimerRef = useRef<number | null>(null);
+
+  // Keep the latest callback without re-attaching listeners (which would
+  // reset the typing debounce every time a frame is added to the reel)
+  const onCaptureRef = useRef(onCapture);
+  useEffect(() => {
+    onCaptureRef.current = onCapture;
+  }, [onCapture]);
+
+  useEffect(() => {
+    if (!enabled || !isRecording || !armed || !root) {
+      return;
+    }
+
+    const clearPending = () => {
+      if (pendingTimerRef.current !== null) {
+        clearTimeout(pendingTimerRef.current);
+        pendingTimerRef.current = null;
+      }
+    };
+
+    // Typing: wait until the user pauses, then capture one frame for the field
+    const handleInput = (event: Event) => {
+      const target = getEventTarget(event);
+      if (!target || isClickReelUI(target)) {
+        return;
+      }
+
+      clearPending();
+      pendingTimerRef.current = window.setTimeout(() => {
+        pendingTimerRef.current = null;
+        console.log("⌨️ [useKeystrokeCapture] Typing paused - capturing");
+        onCaptureRef.current(target, null);
+      }, debounceMs);
+    };
+
+    // Key presses: capture immediately (this also covers pending typing)
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = getEventTarget(event);
+      if (!target || isClickReelUI(target) || !isCaptureKey(event)) {
+        return;
+      }
+
+      clearPending();
+      console.log("⌨️ [useKeystrokeCapture] Capture key pressed:", event.key);
+      onCaptureRef.current(target, event);
+    };
+
+    root.addEventListener("input", handleInput, { capture: true });
+    root.addEventListener("keydown", handleKeyDown, { capture: true });
+    console.log("Keystroke capture listeners attached to", root.tagName);
+
+    return () => {
+      clearPending();
+      root.removeEventListener("input", handleInput, { capture: true });
+      root.removeEventListener("keydown", handleKeyDown, { capture: true });
+      console.log("Removing keystroke capture listeners");
+    };
+  }, [armed, root, enabled, isRecording, debounceMs]);
+}
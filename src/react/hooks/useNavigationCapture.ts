@@ -0,0 +1,74 @@
+/**
+ * Navigation capture hook
+ * Tracks single-page app route changes while armed and requests a frame once
+ * the new route has had time to render
+ */
+
+import { useEffect, useRef } from "react";
+import type { NavigationInfo } from "../../types";
+import { NavigationTracker } from "../../core/navigation";
+import { NAVIGATION_DEBOUNCE_MS } from "../../utils/constants";
+
+export interface NavigationCaptureOptions {
+  /** Whether the recorder is armed and ready to capture */
+  armed: boolean;
+  /** Whether navigation capture is enabled for this recording */
+  enabled: boolean;
+  /** Whether recording is active */
+  isRecording: boolean;
+  /** Callback once a route change has rendered */
+  onCapture: (navigation: NavigationInfo) => void;
+  /** Idle time after the last route change before capturing (ms) */
+  debounceMs?: number;
+}
+
+/**
+ * Hook for capturing navigation frames during armed recording
+ * Route changes in quick succession (a push followed by a redirect) are
+ * reported once, from the first address to the last
+ */
+export function useNavigationCapture(options: NavigationCaptureOptions): void {
+  const {
+    armed,
+    enabled,
+    isRecording,
+    onCapture,
+    debounceMs = NAVIGATION_DEBOUNCE_MS,
+  } = options;
+
+  // Keep the latest callback without re-installing the tracker
+  const onCaptureRef = useRef(onCapture);
+  useEffect(() => {
+    onCaptureRef.current = onCapture;
+  }, [onCapture]);
+
+  useEffect(() => {
+    if (!enabled || !isRecording || !armed) {
+      return;
+    }
+
+    let pending: NavigationInfo | null = null;
+    let timer: number | undefined;
+
+    const tracker = new NavigationTracker((navigation) => {
+      pending = pending ? { ...pending, to: navigation.to } : navigation;
+
+      clearTimeout(timer);
+      timer = window.setTimeout(() => {
+        const settled = pending;
+        pending = null;
+        // Going somewhere and straight back is not a route change
+        if (settled && settled.to !== settled.from) {
+          console.log("🧭 [useNavigationCapture] Route changed:", settled);
+          onCaptureRef.current(settled);
+        }
+      }, debounceMs);
+    });
+    tracker.install();
+
+    return () => {
+      clearTimeout(timer);
+      tracker.uninstall();
+    };
+  }, [armed, enabled, isRecording, debounceMs]);
+}
@@ -5,7 +5,11 @@
 
 import { useState, useEffect, useCallback } from "react";
 import { UserPreferences } from "../../types/config";
-import { STORAGE_KEYS } from "../../utils/constants";
+import {
+  DEFAULT_SELECTOR_STRATEGIES,
+  STORAGE_KEYS,
+} from "../../utils/constants";
+import { libraryConsole } from "../../utils/library-console";
 
 /**
  * Default user preferences
@@ -13,14 +17,34 @@ import { STORAGE_KEYS } from "../../utils/constants";
 export const DEFAULT_PREFERENCES: UserPreferences = {
   markerSize: 50,
   markerColor: "#ff0000",
+  markerShape: "circle",
+  markerButtonColors: {},
+  targetHighlight: "off",
+  dimOutsideTarget: false,
+  selectorStrategies: DEFAULT_SELECTOR_STRATEGIES,
   exportFormat: "gif",
   postClickDelay: 100,
   postClickInterval: 50,
   maxCaptureDuration: 30000,
+  settleStrategy: "events",
+  settleThreshold: 0.5,
+  settleStableFrames: 1,
+  settleIgnoreSelector: "",
+  networkIdleWait: false,
+  motionCaptureEnabled: false,
+  animationSteppingEnabled: false,
   scale: 2,
+  captureMode: "viewport",
+  zoomFocus: "off",
   maxWidth: undefined,
   maxHeight: undefined,
   obfuscationEnabled: false,
+  keystrokeCaptureEnabled: false,
+  scrollCaptureEnabled: false,
+  dragCaptureEnabled: false,
+  diagnosticsCaptureEnabled: false,
+  domSnapshotsEnabled: false,
+  navigationCaptureEnabled: false,
   keyboardShortcuts: {
     toggleRecorder: "ctrl+shift+r",
     toggleObfuscation: "ctrl+shift+o",
@@ -54,7 +78,7 @@ export function usePreferences() {
         setPreferences({ ...DEFAULT_PREFERENCES, ...parsed });
       }
     } catch (error) {
-      console.error("Failed to load preferences:", error);
+      libraryConsole.error("Failed to load preferences:", error);
     } finally {
       setIsLoaded(true);
     }
@@ -69,7 +93,7 @@ export function usePreferences() {
       );
       setPreferences(newPreferences);
     } catch (error) {
-      console.error("Failed to save preferences:", error);
+      libraryConsole.error("Failed to save preferences:", error);
       throw error;
     }
   }, []);
@@ -94,7 +118,7 @@ export function usePreferences() {
       localStorage.removeItem(STORAGE_KEYS.PREFERENCES);
       setPreferences(DEFAULT_PREFERENCES);
     } catch (error) {
-      console.error("Failed to clear preferences:", error);
+      libraryConsole.error("Failed to clear preferences:", error);
     }
   }, []);
 
@@ -2,28 +2,139 @@
  * Hook for recorder operations and lifecycle management
  */
 
-import { useCallback, useEffect, useRef } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import { nanoid } from "nanoid";
 import { useClickReelContext } from "../context/ClickReelContext";
-import { ActionType, type RecorderAPI, type Reel } from "../../types";
+import {
+  ActionType,
+  type CaptureOptions,
+  type CaptureRootTarget,
+  type DragPoint,
+  type Frame,
+  type NavigationInfo,
+  type NetworkActivity,
+  type Rasterizer,
+  type RecorderAPI,
+  type Reel,
+} from "../../types";
 import { getStorageService } from "../../core/storage";
 import { exportAndDownload, type ExportFormat } from "../../core/export";
-import { captureFrame } from "../../core/capture";
+import {
+  captureFrame,
+  getIgnoreRegions,
+  measureImageChange,
+  captureKeystrokeFrame,
+  captureScrollFrame,
+  captureDragFrame,
+  captureNavigationFrame,
+} from "../../core/capture";
 import { generateReelMetadata } from "../../core/metadata";
+import { MotionCollector } from "../../core/motion";
+import { stepAnimations } from "../../core/animation-stepper";
+import { NetworkTracker } from "../../core/network";
+import { DiagnosticsCollector } from "../../core/diagnostics";
+import { diffFrameSnapshots } from "../../core/dom-diff";
+import { ResourceCache } from "../../core/resource-cache";
+import { waitForSettle } from "../../core/settle";
+import { MOTION_MAX_FRAMES, SETTLE_QUIET_PERIOD } from "../../utils/constants";
+import { resolveCaptureRoot } from "../../utils/dom-utils";
 import { useClickCapture } from "./useClickCapture";
+import { useKeystrokeCapture } from "./useKeystrokeCapture";
+import { useScrollCapture } from "./useScrollCapture";
+import { useNavigationCapture } from "./useNavigationCapture";
+import { libraryConsole } from "../../utils/library-console";
+
+export interface RecorderOptions {
+  /** Element, ref or selector to record (overrides the provider's root) */
+  root?: CaptureRootTarget;
+  /** Renders captured frames (default: html-to-image) */
+  rasterizer?: Rasterizer;
+}
+
+/**
+ * A press whose pre-click frame is being captured
+ */
+interface PressCapture {
+  event: PointerEvent;
+  /** Start of the interaction; network and diagnostics times count from it */
+  clickTime: number;
+  captureRoot: HTMLElement;
+  captureOptions: CaptureOptions;
+  preClickFrame: Promise<Frame>;
+}
 
 /**
  * Hook for recording operations
  */
-export function useRecorder(): RecorderAPI {
-  const { state, dispatch } = useClickReelContext();
-  const captureRootRef = useRef<HTMLElement | null>(null);
+export function useRecorder(options: RecorderOptions = {}): RecorderAPI {
+  const { state, dispatch, root: providerRoot } = useClickReelContext();
+  const rootTarget = options.root ?? providerRoot;
+  const { rasterizer } = options;
+  const [listenerRoot, setListenerRoot] = useState<HTMLElement | null>(null);
+
+  // Fonts, CSS and images reused by every capture in the current recording
+  const resourceCacheRef = useRef<{
+    reelId: string;
+    cache: ResourceCache;
+  } | null>(null);
+  const getResourceCache = useCallback((reelId: string) => {
+    if (resourceCacheRef.current?.reelId !== reelId) {
+      resourceCacheRef.current = { reelId, cache: new ResourceCache() };
+    }
+    return resourceCacheRef.current.cache;
+  }, []);
 
-  // Set up the capture root element - use document.documentElement to capture entire viewport
+  // Tracks fetch/XHR while recording so post-click capture can wait for the
+  // requests a click starts
+  const networkTrackerRef = useRef<NetworkTracker | null>(null);
+  const networkIdleWait = !!state.currentReel?.settings.networkIdleWait;
+  const isRecordingActive =
+    state.recorderState === "recording" || state.recorderState === "armed";
   useEffect(() => {
-    // Use documentElement to capture everything visible (including modals/overlays)
-    captureRootRef.current = document.documentElement;
-  }, []);
+    if (!networkIdleWait || !isRecordingActive) {
+      return;
+    }
+
+    const tracker = new NetworkTracker();
+    tracker.install();
+    networkTrackerRef.current = tracker;
+
+    return () => {
+      tracker.uninstall();
+      networkTrackerRef.current = null;
+    };
+  }, [networkIdleWait, isRecordingActive]);
+
+  // Records console warnings and errors while recording, so each click
+  // sequence's settled frame can carry what went wrong
+  const diagnosticsCollectorRef = useRef<DiagnosticsCollector | null>(null);
+  // Click time of the latest click sequence, which entries logged after it
+  // are timed from when recording stops
+  const lastClickTimeRef = useRef<number | null>(null);
+  const diagnosticsCaptureEnabled =
+    !!state.currentReel?.settings.diagnosticsCaptureEnabled;
+  useEffect(() => {
+    if (!diagnosticsCaptureEnabled || !isRecordingActive) {
+      return;
+    }
+
+    const collector = new DiagnosticsCollector();
+    collector.install();
+    diagnosticsCollectorRef.current = collector;
+
+    return () => {
+      collector.uninstall();
+      diagnosticsCollectorRef.current = null;
+    };
+  }, [diagnosticsCaptureEnabled, isRecordingActive]);
+
+  // Set up the element capture listeners attach to. Without a configured root
+  // this is document.documentElement (everything visible, including modals/overlays).
+  // Refs and selectors may only resolve once their element mounts, so resolve
+  // again whenever the recorder state changes
+  useEffect(() => {
+    setListenerRoot(resolveCaptureRoot(rootTarget));
+  }, [rootTarget, state.recorderState]);
 
   // Handle page unload to save recording
   useEffect(() => {
@@ -37,7 +148,10 @@ export function useRecorder(): RecorderAPI {
           const storage = getStorageService();
           // Note: This is fire-and-forget in beforeunload
           storage.saveReel(state.currentReel).catch((err) => {
-            console.error("Failed to save reel during page unload:", err);
+            libraryConsole.error(
+              "Failed to save reel during page unload:",
+              err
+            );
           });
         }
 
@@ -61,7 +175,7 @@ export function useRecorder(): RecorderAPI {
         console.log("Page hide detected, saving recording...");
         const storage = getStorageService();
         storage.saveReel(state.currentReel).catch((err) => {
-          console.error("Failed to save reel during page hide:", err);
+          libraryConsole.error("Failed to save reel during page hide:", err);
         });
       }
     };
@@ -78,6 +192,7 @@ export function useRecorder(): RecorderAPI {
   const startRecording = useCallback(async () => {
     try {
       const reelId = nanoid();
+      lastClickTimeRef.current = null;
       // Format date as YYYY-MM-DD-HH_MM_SS (filesystem-safe)
       const now = new Date();
       const formattedDate = now
@@ -95,14 +210,35 @@ export function useRecorder(): RecorderAPI {
         settings: {
           markerSize: state.preferences.markerSize,
           markerColor: state.preferences.markerColor,
+          markerShape: state.preferences.markerShape,
+          markerButtonColors: state.preferences.markerButtonColors,
+          targetHighlight: state.preferences.targetHighlight,
+          dimOutsideTarget: state.preferences.dimOutsideTarget,
+          selectorStrategies: state.preferences.selectorStrategies,
           exportFormat: state.preferences.exportFormat,
           postClickDelay: state.preferences.postClickDelay,
           postClickInterval: state.preferences.postClickInterval,
           maxCaptureDuration: state.preferences.maxCaptureDuration,
+          settleStrategy: state.preferences.settleStrategy,
+          settleThreshold: state.preferences.settleThreshold,
+          settleStableFrames: state.preferences.settleStableFrames,
+          settleIgnoreSelector: state.preferences.settleIgnoreSelector,
+          networkIdleWait: state.preferences.networkIdleWait,
+          motionCaptureEnabled: state.preferences.motionCaptureEnabled,
+          animationSteppingEnabled: state.preferences.animationSteppingEnabled,
           scale: state.preferences.scale,
+          captureMode: state.preferences.captureMode,
+          zoomFocus: state.preferences.zoomFocus,
           maxWidth: state.preferences.maxWidth,
           maxHeight: state.preferences.maxHeight,
           obfuscationEnabled: state.preferences.obfuscationEnabled,
+          keystrokeCaptureEnabled: state.preferences.keystrokeCaptureEnabled,
+          scrollCaptureEnabled: state.preferences.scrollCaptureEnabled,
+          dragCaptureEnabled: state.preferences.dragCaptureEnabled,
+          diagnosticsCaptureEnabled:
+            state.preferences.diagnosticsCaptureEnabled,
+          domSnapshotsEnabled: state.preferences.domSnapshotsEnabled,
+          navigationCaptureEnabled: state.preferences.navigationCaptureEnabled,
         },
         metadata: {
           userAgent: navigator.userAgent,
@@ -131,14 +267,34 @@ export function useRecorder(): RecorderAPI {
     dispatch,
     state.preferences.markerSize,
     state.preferences.markerColor,
+    state.preferences.markerShape,
+    state.preferences.markerButtonColors,
+    state.preferences.targetHighlight,
+    state.preferences.dimOutsideTarget,
+    state.preferences.selectorStrategies,
     state.preferences.exportFormat,
     state.preferences.postClickDelay,
     state.preferences.postClickInterval,
     state.preferences.maxCaptureDuration,
+    state.preferences.settleStrategy,
+    state.preferences.settleThreshold,
+    state.preferences.settleStableFrames,
+    state.preferences.settleIgnoreSelector,
+    state.preferences.networkIdleWait,
+    state.preferences.motionCaptureEnabled,
+    state.preferences.animationSteppingEnabled,
     state.preferences.scale,
+    state.preferences.captureMode,
+    state.preferences.zoomFocus,
     state.preferences.maxWidth,
     state.preferences.maxHeight,
     state.preferences.obfuscationEnabled,
+    state.preferences.keystrokeCaptureEnabled,
+    state.preferences.scrollCaptureEnabled,
+    state.preferences.dragCaptureEnabled,
+    state.preferences.diagnosticsCaptureEnabled,
+    state.preferences.domSnapshotsEnabled,
+    state.preferences.navigationCaptureEnabled,
   ]);
 
   const arm = useCallback(() => {
@@ -158,8 +314,10 @@ export function useRecorder(): RecorderAPI {
         payload: { key: "capturing", value: true },
       });
 
-      // Capture the entire visible viewport (includes modals, overlays, etc.)
-      const captureRoot = document.documentElement;
+      // Capture the configured root (by default the entire visible viewport)
+      const captureRoot = resolveCaptureRoot(rootTarget);
+      const isPageRoot = captureRoot === document.documentElement;
+      const rootRect = captureRoot.getBoundingClientRect();
 
       console.log("Capture root element:", captureRoot.tagName, {
         id: captureRoot.id,
@@ -171,15 +329,23 @@ export function useRecorder(): RecorderAPI {
       const frame = await captureFrame(
         captureRoot,
         new PointerEvent("click", {
-          clientX: window.innerWidth / 2,
-          clientY: window.innerHeight / 2,
+          clientX: isPageRoot
+            ? window.innerWidth / 2
+            : rootRect.left + rootRect.width / 2,
+          clientY: isPageRoot
+            ? window.innerHeight / 2
+            : rootRect.top + rootRect.height / 2,
         }),
         {
           root: captureRoot,
           scale: state.currentReel.settings.scale,
           maxWidth: state.currentReel.settings.maxWidth,
           maxHeight: state.currentReel.settings.maxHeight,
+          captureMode: state.currentReel.settings.captureMode,
+          collectDomSnapshot: state.currentReel.settings.domSnapshotsEnabled,
           obfuscationEnabled: state.ui?.obfuscationActive || false,
+          rasterizer,
+          resourceCache: getResourceCache(state.currentReel.id),
         },
         state.currentReel.id,
         state.currentReel.frames.length,
@@ -199,7 +365,7 @@ export function useRecorder(): RecorderAPI {
 
       // Note: No need to dispatch ADD_FRAME here - frame is already in updatedReel
     } catch (error) {
-      console.error("Failed to capture frame:", error);
+      libraryConsole.error("Failed to capture frame:", error);
       dispatch({
         type: ActionType.SET_ERROR,
         payload: {
@@ -215,7 +381,7 @@ export function useRecorder(): RecorderAPI {
         payload: { key: "capturing", value: false },
       });
     }
-  }, [dispatch, state.currentReel]);
+  }, [dispatch, state.currentReel, rootTarget, rasterizer, getResourceCache]);
 
   const stopRecording = useCallback(async () => {
     if (!state.currentReel) return;
@@ -236,11 +402,34 @@ export function useRecorder(): RecorderAPI {
         payload: { key: "saving", value: true },
       });
 
+      // Entries logged after the last click sequence go with the last frame,
+      // timed from the last click (or from the start of recording)
+      const laterDiagnostics = diagnosticsCollectorRef.current?.drain(
+        lastClickTimeRef.current ?? state.currentReel.startTime
+      );
+      const frames = laterDiagnostics?.length
+        ? state.currentReel.frames.map((frame, index, all) =>
+            index === all.length - 1
+              ? {
+                  ...frame,
+                  metadata: {
+                    ...frame.metadata,
+                    diagnostics: [
+                      ...(frame.metadata.diagnostics || []),
+                      ...laterDiagnostics,
+                    ],
+                  },
+                }
+              : frame
+          )
+        : state.currentReel.frames;
+      const reel: Reel = { ...state.currentReel, frames };
+
       // Update reel metadata
       const finalReel: Reel = {
-        ...state.currentReel,
+        ...reel,
         endTime: Date.now(),
-        metadata: generateReelMetadata(state.currentReel),
+        metadata: generateReelMetadata(reel),
       };
 
       // Save to storage
@@ -299,7 +488,7 @@ export function useRecorder(): RecorderAPI {
           includeHTML: format === "zip",
         });
       } catch (error) {
-        console.error("Failed to export reel:", error);
+        libraryConsole.error("Failed to export reel:", error);
         dispatch({
           type: ActionType.SET_ERROR,
           payload: {
@@ -332,6 +521,115 @@ export function useRecorder(): RecorderAPI {
     uiStateRef.current = state.ui;
   }, [state.ui]);
 
+  // Press whose pre-click frame is being taken while it's not yet known to
+  // be a click or a drag (drag capture only); holds the capture lock
+  const pendingPressRef = useRef<PressCapture | null>(null);
+
+  // Starts capturing the PRE-CLICK frame (with the marker) for a press
+  const startPressCapture = useCallback(
+    (event: PointerEvent): PressCapture | null => {
+      if (!state.currentReel) {
+        return null;
+      }
+
+      // The click is replayed (or, with drag capture, happens) once capture
+      // has started, so its requests start after this point
+      const clickTime = Date.now();
+
+      console.log("📍 [startPressCapture] Capturing click at", {
+        x: event.clientX,
+        y: event.clientY,
+      });
+
+      // Capture the configured root (by default the entire visible viewport)
+      const captureRoot = resolveCaptureRoot(rootTarget);
+
+      const captureOptions: CaptureOptions = {
+        root: captureRoot,
+        scale: state.currentReel.settings.scale,
+        maxWidth: state.currentReel.settings.maxWidth,
+        maxHeight: state.currentReel.settings.maxHeight,
+        captureMode: state.currentReel.settings.captureMode,
+        zoomFocus: state.currentReel.settings.zoomFocus,
+        targetHighlight: state.currentReel.settings.targetHighlight,
+        dimOutsideTarget: state.currentReel.settings.dimOutsideTarget,
+        selectorStrategies: state.currentReel.settings.selectorStrategies,
+        collectDomSnapshot: state.currentReel.settings.domSnapshotsEnabled,
+        markerStyle: {
+          shape: state.currentReel.settings.markerShape,
+          size: state.currentReel.settings.markerSize,
+          color: state.currentReel.settings.markerColor,
+          buttonColors: state.currentReel.settings.markerButtonColors,
+        },
+        clickNumber:
+          state.currentReel.frames.filter(
+            (frame) => frame.metadata.captureType === "pre-click"
+          ).length + 1,
+        obfuscationEnabled: uiStateRef.current?.obfuscationActive || false,
+        rasterizer,
+        resourceCache: getResourceCache(state.currentReel.id),
+      };
+
+      const preClickFrame = captureFrame(
+        captureRoot,
+        event,
+        captureOptions,
+        state.currentReel.id,
+        state.currentReel.frames.length,
+        "pre-click"
+      );
+      // Failures surface once the press turns out to be a click
+      preClickFrame.catch(() => {});
+
+      return { event, clickTime, captureRoot, captureOptions, preClickFrame };
+    },
+    [state.currentReel, rootTarget, rasterizer, getResourceCache]
+  );
+
+  // Forgets a press that turned out not to be a click, releasing the lock
+  // once its pre-click capture is done
+  const dropPendingPress = useCallback(async () => {
+    const press = pendingPressRef.current;
+    if (!press) {
+      return;
+    }
+    pendingPressRef.current = null;
+    await press.preClickFrame.catch(() => undefined);
+    capturingRef.current = false;
+  }, []);
+
+  // Handler for when a press starts with drag capture on - the page is
+  // captured now, before it reacts to the press
+  const handlePress = useCallback(
+    (event: PointerEvent) => {
+      // An earlier press that ended in neither a click nor a drag (released
+      // elsewhere); this press falls back to being captured at its click
+      if (pendingPressRef.current) {
+        void dropPendingPress();
+        return;
+      }
+
+      if (capturingRef.current) {
+        console.log("⚠️ [handlePress] Already capturing - IGNORING press");
+        return;
+      }
+
+      const press = startPressCapture(event);
+      if (press) {
+        capturingRef.current = true;
+        pendingPressRef.current = press;
+      }
+    },
+    [startPressCapture, dropPendingPress]
+  );
+
+  // A pending press can't become a click once the recorder stops listening
+  useEffect(() => {
+    if (state.recorderState !== "armed") {
+      void dropPendingPress();
+    }
+  }, [state.recorderState, dropPendingPress]);
+
   // Handler for when a click is captured while armed
   const handleClickCapture = useCallback(
     async (event: PointerEvent) => {
@@ -347,8 +645,17 @@ export function useRecorder(): RecorderAPI {
         return;
       }
 
+      // With drag capture the pre-click frame was started at the press
+      const pendingPress =
+        pendingPressRef.current?.event === event
+          ? pendingPressRef.current
+          : null;
+      if (pendingPress) {
+        pendingPressRef.current = null;
+      }
+
       // Prevent overlapping captures
-      if (capturingRef.current) {
+      if (!pendingPress && capturingRef.current) {
         console.log(
           "⚠️ [handleClickCapture] Already capturing - IGNORING duplicate"
         );
@@ -357,6 +664,17 @@ export function useRecorder(): RecorderAPI {
 
       try {
         capturingRef.current = true;
+        const press = pendingPress ?? startPressCapture(event);
+        if (!press) {
+          return;
+        }
+        const { clickTime, captureRoot, captureOptions } = press;
+        lastClickTimeRef.current = clickTime;
+        // Entries logged since the previous sequence happened before this
+        // click, so they go with the pre-click frame rather than this
+        // sequence's settled frame
+        const earlierDiagnostics =
+          diagnosticsCollectorRef.current?.drain(clickTime);
         console.log("🔄 [handleClickCapture] Starting capture sequence...");
 
         dispatch({
@@ -364,35 +682,16 @@ export function useRecorder(): RecorderAPI {
           payload: { key: "capturing", value: true },
         });
 
-        console.log("📍 [handleClickCapture] Capturing click at", {
-          x: event.clientX,
-          y: event.clientY,
-        });
-
-        // Capture the entire visible viewport (includes modals, overlays, etc.)
-        const captureRoot = document.documentElement;
-
-        const captureOptions = {
-          root: captureRoot,
-          scale: state.currentReel.settings.scale,
-          maxWidth: state.currentReel.settings.maxWidth,
-          maxHeight: state.currentReel.settings.maxHeight,
-          markerStyle: {
-            size: state.currentReel.settings.markerSize,
-            color: state.currentReel.settings.markerColor,
-          },
-          obfuscationEnabled: uiStateRef.current?.obfuscationActive || false,
-        };
-
-        // Capture the PRE-CLICK frame with the marker
-        const preClickFrame = await captureFrame(
-          captureRoot,
-          event,
-          captureOptions,
-          state.currentReel.id,
-          state.currentReel.frames.length,
-          "pre-click"
-        );
+        const capturedFrame = await press.preClickFrame;
+        const preClickFrame: Frame = earlierDiagnostics?.length
+          ? {
+              ...capturedFrame,
+              metadata: {
+                ...capturedFrame.metadata,
+                diagnostics: earlierDiagnostics,
+              },
+            }
+          : capturedFrame;
 
         console.log(`✅ Pre-click frame captured: ${preClickFrame.id}`);
 
@@ -420,7 +719,9 @@ export function useRecorder(): RecorderAPI {
           event,
           captureOptions,
           state.currentReel.id,
-          updatedReel.frames.length
+          updatedReel.frames.length,
+          clickTime,
+          preClickFrame
         );
 
         console.log(
@@ -437,7 +738,7 @@ export function useRecorder(): RecorderAPI {
           "✅ [handleClickCapture] Click capture sequence COMPLETED!"
         );
       } catch (error) {
-        console.error("Failed to capture click frame:", error);
+        libraryConsole.error("Failed to capture click frame:", error);
         dispatch({
           type: ActionType.SET_ERROR,
           payload: {
@@ -454,7 +755,7 @@ export function useRecorder(): RecorderAPI {
         });
       }
     },
-    [dispatch, state.currentReel]
+    [dispatch, state.currentReel, startPressCapture]
   );
 
   // Schedule post-click frame captures with delay and settled detection
@@ -464,18 +765,39 @@ export function useRecorder(): RecorderAPI {
       originalEvent: PointerEvent,
       options: any,
       reelId: string,
-      startOrder: number
+      startOrder: number,
+      clickTime: number,
+      preClickFrame: Frame
     ) => {
       const postClickDelay = state.currentReel?.settings.postClickDelay || 500;
       const postClickInterval =
         state.currentReel?.settings.postClickInterval || 100;
       const maxCaptureDuration =
         state.currentReel?.settings.maxCaptureDuration || 4000;
+      const settleStrategy =
+        state.currentReel?.settings.settleStrategy || "polling";
+      // Older reels required identical frames
+      const settleThreshold = state.currentReel?.settings.settleThreshold ?? 0;
+      const settleStableFrames =
+        state.currentReel?.settings.settleStableFrames || 1;
+      const settleIgnoreSelector =
+        state.currentReel?.settings.settleIgnoreSelector || "";
+      const motionCaptureEnabled =
+        state.currentReel?.settings.motionCaptureEnabled || false;
+      const animationSteppingEnabled =
+        state.currentReel?.settings.animationSteppingEnabled || false;
 
       console.log("📋 Post-click capture settings:", {
         postClickDelay,
         postClickInterval,
         maxCaptureDuration,
+        settleStrategy,
+        settleThreshold,
+        settleStableFrames,
+        settleIgnoreSelector,
+        networkIdleWait: !!networkTrackerRef.current,
+        motionCaptureEnabled,
+        animationSteppingEnabled,
         startingFrameOrder: startOrder,
       });
 
@@ -483,15 +805,211 @@ export function useRecorder(): RecorderAPI {
       dispatch({ type: ActionType.SET_SETTLING, payload: true });
       console.log("🔄 Settlement detection started");
 
+      // Deterministic stepping: pause the click's animations and capture
+      // them at fixed points on a virtual timeline starting at the click
+      const steppedFrames: Frame[] = [];
+      if (animationSteppingEnabled) {
+        // Give the replayed click's animations a frame to start
+        await new Promise((resolve) => requestAnimationFrame(resolve));
+
+        try {
+          const result = await stepAnimations(
+            root,
+            {
+              since: performance.now() - (Date.now() - clickTime),
+              interval: postClickInterval,
+              maxDuration: maxCaptureDuration,
+            },
+            async (time) => {
+              const frame = await captureFrame(
+                root,
+                originalEvent,
+                options,
+                reelId,
+                startOrder,
+                "post-click",
+                false // Stepped frames end up in the reel, so obfuscate them
+              );
+              steppedFrames.push({
+                ...frame,
+                timestamp: clickTime + time,
+                metadata: { ...frame.metadata, captureType: "motion" },
+              });
+            }
+          );
+
+          if (result.animations > 0) {
+            console.log(
+              `🎞️ Stepped ${result.animations} animations through ${result.duration}ms in ${result.steps.length} frames`
+            );
+          }
+        } catch (error) {
+          libraryConsole.error("❌ Animation stepping failed:", error);
+        }
+      }
+      const lastStep = steppedFrames[steppedFrames.length - 1];
+      const virtualEndTime = lastStep
+        ? lastStep.timestamp + postClickInterval
+        : null;
+
+      // Intermediate frames kept so exports show the transition (stepped
+      // animations already cover it)
+      const motion =
+        motionCaptureEnabled && steppedFrames.length === 0
+          ? new MotionCollector({
+              maxFrames: MOTION_MAX_FRAMES,
+              threshold: settleThreshold,
+              getIgnoreRegions: () =>
+                getIgnoreRegions(root, options, settleIgnoreSelector),
+            })
+          : null;
+
+      // Keeps capturing motion frames until the wait finishes
+      const recordMotionDuring = async <T>(wait: Promise<T>): Promise<T> => {
+        if (!motion) {
+          return wait;
+        }
+
+        let done = false;
+        const result = wait.finally(() => {
+          done = true;
+        });
+        while (!done) {
+          try {
+            await motion.add(
+              await captureFrame(
+                root,
+                originalEvent,
+                options,
+                reelId,
+                startOrder,
+                "post-click",
+                false // Motion frames end up in the reel, so obfuscate them
+              )
+            );
+          } catch (error) {
+            libraryConsole.error("❌ Motion frame capture failed:", error);
+            break;
+          }
+          await Promise.race([
+            result,
+            new Promise((resolve) => setTimeout(resolve, postClickInterval)),
+          ]);
+        }
+        return result;
+      };
+
       // Wait for initial delay
       console.log(
         `⏱️ Waiting ${postClickDelay}ms before first post-click capture...`
       );
-      await new Promise((resolve) => setTimeout(resolve, postClickDelay));
+      await recordMotionDuring(
+        new Promise((resolve) => setTimeout(resolve, postClickDelay))
+      );
 
       const startTime = Date.now();
+
+      // Wait for the requests the click started before looking for settlement
+      let network: NetworkActivity | undefined;
+      if (networkTrackerRef.current) {
+        console.log("🌐 Waiting for network requests to finish...");
+        network = await recordMotionDuring(
+          networkTrackerRef.current.waitForIdle(clickTime, maxCaptureDuration)
+        );
+        console.log(
+          network.idle
+            ? `🌐 Network idle after ${network.waitDuration}ms (${network.requestCount} requests)`
+            : `⏱️ Requests still in flight after ${network.waitDuration}ms (${network.requestCount} requests)`
+        );
+      }
+
+      // Adds the kept motion frames, then the frame that ends the sequence
+      // with the network activity and diagnostics recorded on it
+      const addFinalFrame = async (finalFrame: Frame) => {
+        const motionFrames = motion
+          ? await motion.finish(finalFrame)
+          : steppedFrames;
+        motionFrames.forEach((frame, index) => {
+          dispatch({
+            type: ActionType.ADD_FRAME,
+            payload: { reelId, frame: { ...frame, order: startOrder + index } },
+          });
+        });
+        if (motionFrames.length > 0) {
+          console.log(`🎞️ Added ${motionFrames.length} motion frames`);
+        }
+
+        const diagnostics = diagnosticsCollectorRef.current?.drain(clickTime);
+
+        // What the click changed, when both frames carry snapshots (an empty
+        // diff still says the click changed nothing)
+        const domDiff = diffFrameSnapshots(
+          preClickFrame.metadata,
+          finalFrame.metadata
+        );
+
+        dispatch({
+          type: ActionType.ADD_FRAME,
+          payload: {
+            reelId,
+            frame: {
+              ...finalFrame,
+              order: startOrder + motionFrames.length,
+              // Stepped frames use a virtual timeline, so the final frame
+              // follows the last step rather than the wall clock
+              timestamp: virtualEndTime ?? finalFrame.timestamp,
+              metadata: {
+                ...finalFrame.metadata,
+                ...(network && { network }),
+                ...(diagnostics?.length && { diagnostics }),
+                ...(domDiff && { domDiff }),
+              },
+            },
+          },
+        });
+      };
+
+      // Event-driven settlement: watch the page instead of rasterizing
+      // repeatedly, then capture the final frame once. Motion capture
+      // rasterizes continuously anyway (and its DOM changes would look like
+      // page activity), so it compares frames instead
+      if (settleStrategy === "events" && !motion) {
+        const result = await waitForSettle(root, {
+          quietPeriod: SETTLE_QUIET_PERIOD,
+          timeout: Math.max(0, maxCaptureDuration - (Date.now() - startTime)),
+          ignoreSelector: settleIgnoreSelector,
+        });
+        console.log(
+          result.settled
+            ? `✅ Page quiet after ${result.duration}ms (${result.mutations} mutations). Capturing final frame...`
+            : `⏱️ Page still busy after ${result.duration}ms. Capturing final frame anyway...`
+        );
+
+        try {
+          const finalFrame = await captureFrame(
+            root,
+            originalEvent,
+            options,
+            reelId,
+            startOrder,
+            "post-click",
+            false // Enable obfuscation for final frame
+          );
+
+          await addFinalFrame(finalFrame);
+
+          console.log(`✅ Final frame added: ${finalFrame.id}`);
+        } catch (error) {
+          libraryConsole.error("❌ Failed to capture final frame:", error);
+        }
+
+        dispatch({ type: ActionType.SET_SETTLING, payload: false });
+        console.log("✅ Settlement detection completed");
+        return;
+      }
+
       let previousImageData: string | Blob | null = null;
-      let consecutiveIdenticalFrames = 0;
+      let consecutiveStableFrames = 0;
       let frameOrder = startOrder;
       let totalPostClickFrames = 0;
       let settled = false;
@@ -499,7 +1017,8 @@ export function useRecorder(): RecorderAPI {
       while (Date.now() - startTime < maxCaptureDuration) {
         try {
           // Capture post-click frame (no marker)
-          // Skip obfuscation for settlement detection to avoid flashing and layout changes
+          // Skip obfuscation for settlement detection to avoid flashing and layout changes,
+          // unless the frame may be kept as a motion frame
           console.log(
             `📸 Capturing settlement detection frame #${totalPostClickFrames + 1}...`
           );
@@ -510,14 +1029,15 @@ export function useRecorder(): RecorderAPI {
             reelId,
             frameOrder, // Don't increment yet - final frame will use this order
             "post-click",
-            true // Skip obfuscation during settlement detection
+            !motion // Skip obfuscation during settlement detection
           );
 
           console.log(`✅ Detection frame captured: ${detectionFrame.id}`);
           totalPostClickFrames++;
+          await motion?.add(detectionFrame);
 
-          // Check if settled (two consecutive identical frames)
-          // Compare by string representation (data URL or blob URL)
+          // Check if settled (enough consecutive frames that barely changed)
+          // Compare downsampled pixels, skipping ignored regions (spinners, clocks)
           const currentImageData =
             typeof detectionFrame.image === "string"
               ? detectionFrame.image
@@ -530,13 +1050,21 @@ export function useRecorder(): RecorderAPI {
           const imageDataLength = currentImageData?.length || 0;
           console.log(`🔍 Image data length: ${imageDataLength} chars`);
 
-          if (prevImageData && currentImageData === prevImageData) {
-            consecutiveIdenticalFrames++;
+          const changePercent = prevImageData
+            ? (await measureImageChange(
+                prevImageData,
+                currentImageData,
+                getIgnoreRegions(root, options, settleIgnoreSelector)
+              )) * 100
+            : null;
+
+          if (changePercent !== null && changePercent <= settleThreshold) {
+            consecutiveStableFrames++;
             console.log(
-              `🔄 Consecutive identical frames: ${consecutiveIdenticalFrames}`
+              `🔄 Consecutive stable frames: ${consecutiveStableFrames}/${settleStableFrames} (${changePercent.toFixed(2)}% changed)`
             );
 
-            if (consecutiveIdenticalFrames >= 1) {
+            if (consecutiveStableFrames >= settleStableFrames) {
               // Page has settled! Now capture the final frame WITH obfuscation if enabled
               console.log(
                 `✅ Animation settled! Capturing final frame with obfuscation...`
@@ -553,10 +1081,7 @@ export function useRecorder(): RecorderAPI {
               );
 
               // Add ONLY the final settled frame to reel
-              dispatch({
-                type: ActionType.ADD_FRAME,
-                payload: { reelId, frame: finalFrame },
-              });
+              await addFinalFrame(finalFrame);
 
               console.log(
                 `✅ Final settled frame added: ${finalFrame.id}. Total detection frames: ${totalPostClickFrames}`
@@ -565,15 +1090,18 @@ export function useRecorder(): RecorderAPI {
               break;
             }
           } else {
-            if (prevImageData) {
-              console.log(`🔄 Frame changed, resetting consecutive count`);
+            if (changePercent !== null) {
+              console.log(
+                `🔄 Frame changed (${changePercent.toFixed(2)}%), resetting consecutive count`
+              );
             }
-            consecutiveIdenticalFrames = 0;
+            consecutiveStableFrames = 0;
           }
 
           previousImageData = detectionFrame.image;
 
           // DON'T add intermediate detection frames to reel - only use them for comparison
+          // (motion capture adds the ones it kept once the sequence ends)
           console.log(
             `📊 Detection frame ${totalPostClickFrames} compared (not added to reel)`
           );
@@ -586,7 +1114,7 @@ export function useRecorder(): RecorderAPI {
             setTimeout(resolve, postClickInterval)
           );
         } catch (error) {
-          console.error("❌ Post-click frame capture failed:", error);
+          libraryConsole.error("❌ Post-click frame capture failed:", error);
           break;
         }
       }
@@ -609,16 +1137,16 @@ export function useRecorder(): RecorderAPI {
           );
 
           // Add the final frame to reel
-          dispatch({
-            type: ActionType.ADD_FRAME,
-            payload: { reelId, frame: finalFrame },
-          });
+          await addFinalFrame(finalFrame);
 
           console.log(
             `✅ Final frame captured on timeout: ${finalFrame.id}. Total detection frames: ${totalPostClickFrames}`
           );
         } catch (error) {
-          console.error("❌ Failed to capture final frame on timeout:", error);
+          libraryConsole.error(
+            "❌ Failed to capture final frame on timeout:",
+            error
+          );
         }
       }
 
@@ -633,13 +1161,218 @@ export function useRecorder(): RecorderAPI {
     [dispatch, state.currentReel]
   );
 
+  // Shared flow for frames captured outside of a click sequence (keystrokes,
+  // scrolls, drags, route changes)
+  const captureStandaloneFrame = useCallback(
+    async (
+      label: string,
+      capture: (
+        captureRoot: HTMLElement,
+        options: CaptureOptions,
+        reelId: string,
+        order: number
+      ) => Promise<Frame>
+    ) => {
+      if (!state.currentReel) {
+        return;
+      }
+
+      // Don't interleave with a click sequence - the settled frame covers it
+      if (capturingRef.current) {
+        console.log(
+          `⚠️ [captureStandaloneFrame] Capture in progress - skipping ${label} frame`
+        );
+        return;
+      }
+
+      try {
+        capturingRef.current = true;
+
+        dispatch({
+          type: ActionType.SET_LOADING,
+          payload: { key: "capturing", value: true },
+        });
+
+        const captureRoot = resolveCaptureRoot(rootTarget);
+
+        const frame = await capture(
+          captureRoot,
+          {
+            root: captureRoot,
+            scale: state.currentReel.settings.scale,
+            maxWidth: state.currentReel.settings.maxWidth,
+            maxHeight: state.currentReel.settings.maxHeight,
+            captureMode: state.currentReel.settings.captureMode,
+            markerStyle: {
+              shape: state.currentReel.settings.markerShape,
+              size: state.currentReel.settings.markerSize,
+              color: state.currentReel.settings.markerColor,
+              buttonColors: state.currentReel.settings.markerButtonColors,
+            },
+            selectorStrategies: state.currentReel.settings.selectorStrategies,
+            collectDomSnapshot: state.currentReel.settings.domSnapshotsEnabled,
+            obfuscationEnabled: uiStateRef.current?.obfuscationActive || false,
+            rasterizer,
+            resourceCache: getResourceCache(state.currentReel.id),
+          },
+          state.currentReel.id,
+          state.currentReel.frames.length
+        );
+
+        dispatch({
+          type: ActionType.ADD_FRAME,
+          payload: { reelId: state.currentReel.id, frame },
+        });
+
+        console.log(`✅ ${label} frame captured: ${frame.id}`);
+      } catch (error) {
+        libraryConsole.error(`Failed to capture ${label} frame:`, error);
+        dispatch({
+          type: ActionType.SET_ERROR,
+          payload: {
+            message: `Failed to capture ${label} frame`,
+            timestamp: Date.now(),
+            details: error,
+          },
+        });
+      } finally {
+        capturingRef.current = false;
+        dispatch({
+          type: ActionType.SET_LOADING,
+          payload: { key: "capturing", value: false },
+        });
+      }
+    },
+    [dispatch, state.currentReel, rootTarget, rasterizer, getResourceCache]
+  );
+
+  // Handler for when typing pauses or a capture key is pressed while armed
+  const handleKeystrokeCapture = useCallback(
+    (target: HTMLElement, keyEvent: KeyboardEvent | null) =>
+      captureStandaloneFrame(
+        "keystroke",
+        (captureRoot, options, reelId, order) =>
+          captureKeystrokeFrame(
+            captureRoot,
+            target,
+            keyEvent,
+            options,
+            reelId,
+            order
+          )
+      ),
+    [captureStandaloneFrame]
+  );
+
+  // Handler for when scrolling settles while armed
+  const handleScrollCapture = useCallback(
+    (
+      container: HTMLElement | null,
+      from: { x: number; y: number },
+      to: { x: number; y: number }
+    ) =>
+      captureStandaloneFrame("scroll", (captureRoot, options, reelId, order) =>
+        captureScrollFrame(
+          captureRoot,
+          container,
+          from,
+          to,
+          options,
+          reelId,
+          order
+        )
+      ),
+    [captureStandaloneFrame]
+  );
+
+  // Handler for when a drag gesture ends while armed
+  const handleDragCapture = useCallback(
+    async (source: HTMLElement, path: DragPoint[], buttonType: number) => {
+      // The press was a drag, so the frame taken when it started is dropped
+      await dropPendingPress();
+
+      // Give the page a moment to render the drop before capturing
+      const postClickDelay = state.currentReel?.settings.postClickDelay || 500;
+      await new Promise((resolve) => setTimeout(resolve, postClickDelay));
+
+      await captureStandaloneFrame(
+        "drag",
+        (captureRoot, options, reelId, order) =>
+          captureDragFrame(
+            captureRoot,
+            source,
+            path,
+            buttonType,
+            options,
+            reelId,
+            order
+          )
+      );
+    },
+    [
+      captureStandaloneFrame,
+      dropPendingPress,
+      state.currentReel?.settings.postClickDelay,
+    ]
+  );
+
+  // Handler for when a route change has rendered while armed
+  const handleNavigationCapture = useCallback(
+    (navigation: NavigationInfo) =>
+      captureStandaloneFrame(
+        "navigation",
+        (captureRoot, options, reelId, order) =>
+          captureNavigationFrame(
+            captureRoot,
+            navigation,
+            options,
+            reelId,
+            order
+          )
+      ),
+    [captureStandaloneFrame]
+  );
+
   // Use click capture hook to listen for clicks when armed
   useClickCapture({
     armed: state.recorderState === "armed",
-    root: captureRootRef.current!,
+    root: listenerRoot!,
     onCapture: handleClickCapture,
     isRecording:
       state.recorderState === "recording" || state.recorderState === "armed",
+    captureDrags: state.currentReel?.settings.dragCaptureEnabled || false,
+    onPress: handlePress,
+    onDragCapture: handleDragCapture,
+  });
+
+  // Use keystroke capture hook to listen for typing when armed (opt-in)
+  useKeystrokeCapture({
+    armed: state.recorderState === "armed",
+    root: listenerRoot!,
+    enabled: state.currentReel?.settings.keystrokeCaptureEnabled || false,
+    onCapture: handleKeystrokeCapture,
+    isRecording:
+      state.recorderState === "recording" || state.recorderState === "armed",
+  });
+
+  // Use scroll capture hook to record scrolling between clicks (opt-in)
+  useScrollCapture({
+    armed: state.recorderState === "armed",
+    root: listenerRoot!,
+    enabled: state.currentReel?.settings.scrollCaptureEnabled || false,
+    onCapture: handleScrollCapture,
+    isRecording:
+      state.recorderState === "recording" || state.recorderState === "armed",
+  });
+
+  // Use navigation capture hook to record route changes between clicks
+  // (opt-in); a click that navigates is covered by its settled frame
+  useNavigationCapture({
+    armed: state.recorderState === "armed",
+    enabled: state.currentReel?.settings.navigationCaptureEnabled || false,
+    onCapture: handleNavigationCapture,
+    isRecording:
+      state.recorderState === "recording" || state.recorderState === "armed",
   });
 
   return {
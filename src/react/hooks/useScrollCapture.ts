@@ -0,0 +1,149 @@
+/**
+ * Scroll capture event management hook
+ * Debounces scroll events while armed and requests a frame once scrolling settles
+ */
+
+import { useEffect, useRef } from "react";
+import { SCROLL_DEBOUNCE_MS, SCROLL_MIN_DISTANCE } from "../../utils/constants";
+
+export interface ScrollCaptureOptions {
+  /** Whether the recorder is armed and ready to capture */
+  armed: boolean;
+  /** The root element to attach listeners to */
+  root: HTMLElement;
+  /** Whether scroll capture is enabled for this recording */
+  enabled: boolean;
+  /** Whether recording is active */
+  isRecording: boolean;
+  /**
+   * Callback when scrolling has settled
+   * container is null when the page itself was scrolled
+   */
+  onCapture: (
+    container: HTMLElement | null,
+    from: { x: number; y: number },
+    to: { x: number; y: number }
+  ) => void;
+  /** Idle time after the last scroll event before capturing (ms) */
+  debounceMs?: number;
+  /** Minimum scroll distance that produces a frame (px) */
+  minDistance?: number;
+}
+
+/**
+ * Read the current scroll offset of a container (null = the page)
+ */
+function getOffset(container: HTMLElement | null): { x: number; y: number } {
+  if (!container) {
+    return { x: window.scrollX, y: window.scrollY };
+  }
+  return { x: container.scrollLeft, y: container.scrollTop };
+}
+
+/**
+ * Hook for capturing scroll frames during armed recording
+ * Scroll events are observed only - they are never blocked
+ */
+export function useScrollCapture(options: ScrollCaptureOptions): void {
+  const {
+    armed,
+    root,
+    enabled,
+    isRecording,
+    onCapture,
+    debounceMs = SCROLL_DEBOUNCE_MS,
+    minDistance = SCROLL_MIN_DISTANCE,
+  } = options;
+
+  // Keep the latest callback without re-attaching listeners
+  const onCaptureRef = useRef(onCapture);
+  useEffect(() => {
+    onCaptureRef.current = onCapture;
+  }, [onCapture]);
+
+  useEffect(() => {
+    if (!enabled || !isRecording || !armed || !root) {
+      return;
+    }
+
+    // Last settled offset per scroll container (null key = the page)
+    const settledOffsets = new Map<
+      HTMLElement | null,
+      { x: number; y: number }
+    >();
+    settledOffsets.set(null, getOffset(null));
+    if (root !== document.documentElement) {
+      settledOffsets.set(root, getOffset(root));
+    }
+
+    const pendingTimers = new Map<HTMLElement | null, number>();
+
+    const handleScroll = (event: Event) => {
+      const target = event.target;
+      const container =
+        target instanceof HTMLElement && target !== document.documentElement
+          ? target
+          : null;
+
+      // Ignore scrolling inside Click Reel UI (inventory lists, settings)
+      if (
+        container &&
+        (container.closest('[data-screenshot-exclude="true"]') ||
+          container.closest(".pii-disable"))
+      ) {
+        return;
+      }
+
+      // First time we see a nested container, its pre-scroll offset is
+      // unknown - use the current offset as the starting point
+      if (!settledOffsets.has(container)) {
+        settledOffsets.set(container, getOffset(container));
+      }
+
+      const existing = pendingTimers.get(container);
+      if (existing !== undefined) {
+        clearTimeout(existing);
+      }
+
+      pendingTimers.set(
+        container,
+        window.setTimeout(() => {
+          pendingTimers.delete(container);
+          const from = settledOffsets.get(container)!;
+          const to = getOffset(container);
+          settledOffsets.set(container, to);
+
+          const distance = Math.max(
+            Math.abs(to.x - from.x),
+            Math.abs(to.y - from.y)
+          );
+          if (distance < minDistance) {
+            return;
+          }
+
+          console.log("📜 [useScrollCapture] Scroll settled:", { from, to });
+          onCaptureRef.current(container, from, to);
+        }, debounceMs)
+      );
+    };
+
+    // Page scrolls are dispatched to the document, not documentElement;
+    // listening on window in the capture phase sees both page and nested scrolls
+    const listenTarget: EventTarget =
+      root === document.documentElement ? window : root;
+    listenTarget.addEventListener("scroll", handleScroll, {
+      capture: true,
+      passive: true,
+    });
+    console.log("Scroll capture listener attached");
+
+    return () => {
+      pendingTimers.forEach((timer) => clearTimeout(timer));
+      pendingTimers.clear();
+      listenTarget.removeEventListener("scroll", handleScroll, {
+        capture: true,
+      });
+      console.log("Removing scroll capture listener");
+    };
+  }, [armed, root, enabled, isRecording, debounceMs, minDistance]);
+}
@@ -4,7 +4,12 @@
 
 import { useState, useCallback } from "react";
 import { useClickReelContext } from "../context/ClickReelContext";
-import { ActionType, type StorageAPI, type Reel } from "../../types";
+import {
+  ActionType,
+  type Annotation,
+  type StorageAPI,
+  type Reel,
+} from "../../types";
 import { getStorageService } from "../../core/storage";
 
 /**
@@ -157,11 +162,35 @@ export function useStorage(): StorageAPI {
     []
   );
 
+  const updateFrameAnnotations = useCallback(
+    async (frameId: string, annotations: Annotation[]) => {
+      setLoading(true);
+      setError(null);
+      try {
+        const storage = getStorageService();
+        await storage.init();
+        await storage.updateFrameAnnotations(frameId, annotations);
+      } catch (err) {
+        const errorState = {
+          message: "Failed to update frame annotations",
+          timestamp: Date.now(),
+          details: err,
+        };
+        setError(errorState);
+        throw err;
+      } finally {
+        setLoading(false);
+      }
+    },
+    []
+  );
+
   return {
     loadInventory,
     loadReel,
     saveReel,
     updateReel,
+    updateFrameAnnotations,
     deleteReel,
     getStorageInfo,
     loading,
@@ -2,6 +2,8 @@
  * Configuration and options types
  */
 
+import type { ResourceCache } from "../core/resource-cache";
+
 /**
  * Options for configuring the capture behavior
  */
@@ -10,9 +12,9 @@ export interface CaptureOptions {
   root: HTMLElement;
   /** Resolution scale (default: 2) */
   scale?: number;
-  /** Maximum width for output images */
+  /** Maximum width for output images (full-page captures are scaled down to fit) */
   maxWidth?: number;
-  /** Maximum height for output images */
+  /** Maximum height for output images (full-page captures are scaled down to fit) */
   maxHeight?: number;
   /** CSS selector for elements to exclude from capture */
   excludeSelector?: string;
@@ -22,18 +24,149 @@ export interface CaptureOptions {
   postDelays?: number[];
   /** Whether to collect HTML snapshots */
   collectHtml?: boolean;
+  /** Whether to record a replayable DOM snapshot with each frame */
+  collectDomSnapshot?: boolean;
   /** Whether to enable obfuscation */
   obfuscationEnabled?: boolean;
+  /** Which area of the root to rasterize (default: "viewport") */
+  captureMode?: CaptureMode;
+  /** Record a zoomed focus crop around the click target (default: "off") */
+  zoomFocus?: ZoomFocusMode;
+  /** Number shown by badge markers (the click's position in the reel) */
+  clickNumber?: number;
+  /** Highlight the clicked element in pre-click frames (default: "off") */
+  targetHighlight?: TargetHighlightMode;
+  /** Dim the page around the clicked element in pre-click frames */
+  dimOutsideTarget?: boolean;
+  /** Selector strategies for element paths, best first (default: all) */
+  selectorStrategies?: SelectorStrategy[];
+  /** Renders the prepared DOM to an image (default: html-to-image) */
+  rasterizer?: Rasterizer;
+  /** Fonts, CSS and images reused across the captures of a recording */
+  resourceCache?: ResourceCache;
+}
+
+/**
+ * Options passed to a rasterizer for a single render
+ */
+export interface RasterizeOptions {
+  /** Device pixels per CSS pixel */
+  pixelRatio: number;
+  /** Output width in CSS pixels (default: the element's width) */
+  width?: number;
+  /** Output height in CSS pixels (default: the element's height) */
+  height?: number;
+  /** Fill behind transparent content */
+  backgroundColor?: string;
+  /** Styles applied to the rendered copy of the element (scroll offset, size) */
+  style?: Record<string, string>;
+  /** Return false to leave a node out of the render */
+  filter?: (node: HTMLElement) => boolean;
+  /** Skip embedding web fonts (used when stylesheets can't be read) */
+  skipFonts?: boolean;
+  /** Cache for font CSS the renderer embeds, reused across a recording */
+  resourceCache?: ResourceCache;
+}
+
+/**
+ * Turns a DOM element into an image
+ * The capture engine prepares the DOM (exclusion, obfuscation, markers)
+ * and hands the element to a rasterizer; swap it to use another renderer
+ */
+export interface Rasterizer {
+  /** Name shown in capture logs */
+  name: string;
+  /** Renders the element to an image Blob */
+  rasterize(element: HTMLElement, options: RasterizeOptions): Promise<Blob>;
+}
+
+/**
+ * Which area a capture rasterizes
+ * - viewport: what is visible on screen
+ * - full-page: the whole scrollable content of the root
+ * - root: the root element's bounding box (the whole document for the page)
+ */
+export type CaptureMode = "viewport" | "full-page" | "root";
+
+/**
+ * How exports show the zoomed region around a click target
+ * - off: no focus crop
+ * - frame: an extra, upscaled frame after the pre-click frame
+ * - inset: a picture-in-picture inset on the pre-click frame
+ */
+export type ZoomFocusMode = "off" | "frame" | "inset";
+
+/**
+ * How pre-click frames highlight the clicked element's bounding box
+ * - off: only the marker is drawn
+ * - outline: a solid border around the element
+ * - spotlight: a soft glow around the element
+ */
+export type TargetHighlightMode = "off" | "outline" | "spotlight";
+
+/**
+ * Ways of building an element's selector, tried in the configured order
+ * - test-id: a data-testid or data-cy attribute
+ * - id: the element's id
+ * - role: its ARIA role plus accessible name (e.g. role=button[name="Save"])
+ * - class: a class only this element has
+ * - structural: its tag path from the capture root (always available)
+ */
+export type SelectorStrategy =
+  | "test-id"
+  | "id"
+  | "role"
+  | "class"
+  | "structural";
+
+/**
+ * How post-click settlement is detected
+ * - events: watch DOM mutations, animations, transitions and image loads,
+ *   then rasterize the final frame once
+ * - polling: rasterize at intervals and compare frames
+ */
+export type SettleStrategy = "events" | "polling";
+
+/**
+ * Where to record: an element, a React ref to one, or a CSS selector
+ * Refs and selectors are resolved lazily, so the element may mount later
+ */
+export type CaptureRootTarget =
+  | HTMLElement
+  | { readonly current: HTMLElement | null }
+  | string;
+
+/**
+ * Shape drawn at a click
+ * - circle: a filled dot (square for middle clicks, triangle for right clicks)
+ * - ripple: concentric rings spreading from the click
+ * - crosshair: cross lines with a gap at the click
+ * - arrow: a mouse pointer with its tip at the click
+ * - badge: a numbered circle counting the clicks in the reel
+ */
+export type MarkerShape = "circle" | "ripple" | "crosshair" | "arrow" | "badge";
+
+/**
+ * Marker colors per mouse button (buttons without one use the marker color)
+ */
+export interface MarkerButtonColors {
+  left?: string;
+  middle?: string;
+  right?: string;
 }
 
 /**
  * Style configuration for the tap marker
  */
 export interface MarkerStyle {
+  /** Shape drawn at the click */
+  shape?: MarkerShape;
   /** Size in pixels */
   size?: number;
   /** Color (CSS color value) */
   color?: string;
+  /** Colors that replace the color for specific mouse buttons */
+  buttonColors?: MarkerButtonColors;
   /** Opacity (0-1) */
   opacity?: number;
   /** Border width in pixels */
@@ -78,6 +211,16 @@ export interface UserPreferences {
   markerSize: number;
   /** Preferred marker color */
   markerColor: string;
+  /** Preferred marker shape */
+  markerShape: MarkerShape;
+  /** Marker colors per mouse button */
+  markerButtonColors: MarkerButtonColors;
+  /** How pre-click frames highlight the clicked element */
+  targetHighlight: TargetHighlightMode;
+  /** Whether pre-click frames dim the page around the clicked element */
+  dimOutsideTarget: boolean;
+  /** Selector strategies for element paths, best first */
+  selectorStrategies: SelectorStrategy[];
   /** Preferred export format */
   exportFormat: "gif" | "apng";
   /** Post-click delay in ms */
@@ -86,13 +229,47 @@ export interface UserPreferences {
   postClickInterval: number;
   /** Maximum capture duration in ms */
   maxCaptureDuration: number;
+  /** How post-click settlement is detected */
+  settleStrategy: SettleStrategy;
+  /** Percentage of compared pixels that may change while still counting as settled */
+  settleThreshold: number;
+  /** Consecutive unchanged post-click frames needed before the page counts as settled */
+  settleStableFrames: number;
+  /** CSS selector for regions whose changes don't block settlement (spinners, clocks) */
+  settleIgnoreSelector: string;
+  /** Whether post-click capture waits for fetch/XHR requests to finish */
+  networkIdleWait: boolean;
+  /** Whether to keep intermediate post-click frames so exports show transitions */
+  motionCaptureEnabled: boolean;
+  /** Whether to pause the click's animations and capture them at fixed steps */
+  animationSteppingEnabled: boolean;
   /** Scale factor for captures */
   scale: number;
+  /** Which area of the page or root to capture */
+  captureMode: CaptureMode;
+  /** Whether exports zoom in on the click target, and how */
+  zoomFocus: ZoomFocusMode;
   /** Max dimensions */
   maxWidth?: number;
   maxHeight?: number;
   /** Whether obfuscation is enabled by default */
   obfuscationEnabled: boolean;
+  /** Whether to capture frames for typing and key presses while armed */
+  keystrokeCaptureEnabled: boolean;
+  /** Whether to capture a frame after scrolling settles while armed */
+  scrollCaptureEnabled: boolean;
+  /**
+   * Whether to record drag gestures with a pointer-path trail while armed
+   * Presses reach the page unblocked and the pre-click frame is taken as
+   * they start, so it may show widgets that redraw on press already pressed
+   */
+  dragCaptureEnabled: boolean;
+  /** Whether to record console warnings and errors with each click sequence */
+  diagnosticsCaptureEnabled: boolean;
+  /** Whether to record a replayable DOM snapshot with each frame */
+  domSnapshotsEnabled: boolean;
+  /** Whether to capture a frame when a single-page app changes route while armed */
+  navigationCaptureEnabled: boolean;
   /** Custom keyboard shortcuts */
   keyboardShortcuts: KeyboardShortcuts;
   /** Recorder UI preferences */
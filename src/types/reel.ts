@@ -2,6 +2,16 @@
  * Core types for Reel and Frame data structures
  */
 
+import type {
+  CaptureMode,
+  MarkerButtonColors,
+  MarkerShape,
+  SelectorStrategy,
+  SettleStrategy,
+  TargetHighlightMode,
+  ZoomFocusMode,
+} from "./config";
+
 /**
  * Represents a single captured frame with metadata
  */
@@ -20,6 +30,8 @@ export interface Frame {
   order: number;
   /** Frame-specific metadata */
   metadata: FrameMetadata;
+  /** Marks drawn over the frame after recording (the image itself is never changed) */
+  annotations?: Annotation[];
 }
 
 /**
@@ -32,18 +44,313 @@ export interface FrameMetadata {
   relativeCoords: { x: number; y: number };
   /** CSS selector path to the clicked element */
   elementPath: string;
+  /** Strategy that produced elementPath, for click and keystroke frames */
+  selectorStrategy?: SelectorStrategy;
+  /** Other selectors that match only the element, best first */
+  selectorFallbacks?: ElementSelector[];
   /** Pointer button type (0=left, 1=middle, 2=right) */
   buttonType: number;
   /** Viewport dimensions at capture time */
   viewportSize: { width: number; height: number };
   /** Scroll position at capture time */
   scrollPosition: { x: number; y: number };
-  /** Whether this is a pre-click or post-click frame */
-  captureType: "pre-click" | "post-click";
+  /** Page address at capture time (absent on older reels) */
+  url?: string;
+  /** Document title at capture time (absent on older reels) */
+  pageTitle?: string;
+  /** What triggered this frame (click, post-click transition or settled state, keystroke, scroll, drag, route change) */
+  captureType: CaptureType;
   /** Marker coordinates (for debugging positioning) */
   markerCoords?: { x: number; y: number };
+  /** Key/value details for keystroke frames (masked per obfuscation rules) */
+  keystroke?: KeystrokeInfo;
+  /** Scroll details for scroll frames */
+  scroll?: ScrollInfo;
+  /** Pointer path for drag frames */
+  drag?: DragInfo;
+  /** Route change details for navigation frames */
+  navigation?: NavigationInfo;
+  /** Region around the click target that exports zoom in on */
+  focusCrop?: FocusCrop;
+  /** Requests the click started, for settled post-click frames */
+  network?: NetworkActivity;
+  /** What was clicked or typed into, for click and keystroke frames */
+  target?: TargetInfo;
+  /**
+   * Console warnings and errors: for settled post-click frames, those from
+   * the click sequence; for pre-click frames, those logged since the previous
+   * sequence; for the last frame, also those logged after the last sequence
+   */
+  diagnostics?: DiagnosticEntry[];
   /** Optional sanitized HTML snapshot */
   htmlSnapshot?: string;
+  /** Replayable snapshot of the DOM, styles included (see DomSnapshotViewer) */
+  domSnapshot?: DomSnapshot;
+  /** What the click changed in the DOM, for settled post-click frames with snapshots */
+  domDiff?: DomDiff;
+}
+
+/**
+ * One difference between the DOM before a click and after it settled
+ */
+export interface DomChange {
+  /** A node added or removed, or an element's attribute or text changed */
+  type: "added" | "removed" | "attribute" | "text";
+  /** Path to the element (the parent element for added, removed or changed text) */
+  path: string;
+  /** Attribute name, for attribute changes */
+  attribute?: string;
+  /** Value before the click (the markup of removed nodes), shortened */
+  before?: string;
+  /** Value after the click (the markup of added nodes), shortened */
+  after?: string;
+}
+
+/**
+ * Structural diff between a click's pre-click and settled post-click snapshots
+ */
+export interface DomDiff {
+  /** Changes, in document order */
+  changes: DomChange[];
+  /** Totals per change type, including changes beyond the listed ones */
+  counts: Record<DomChange["type"], number>;
+  /** Whether there were more changes than listed */
+  truncated?: boolean;
+}
+
+/**
+ * A serialized copy of the captured DOM that can be re-rendered later
+ * Scripts and event handlers are removed and content is masked per the
+ * obfuscation rules, so rendering it runs nothing from the page
+ */
+export interface DomSnapshot {
+  /** Standalone HTML document with the page's stylesheets inlined */
+  html: string;
+  /** Page address the snapshot's relative URLs resolve against, without query string or fragment */
+  baseUrl: string;
+  /** Viewport size at capture time */
+  viewportSize: { width: number; height: number };
+  /** Document scroll offset at capture time (element offsets are in the markup) */
+  scrollPosition: { x: number; y: number };
+}
+
+/**
+ * A selector for an element and the strategy that built it
+ */
+export interface ElementSelector {
+  selector: string;
+  strategy: SelectorStrategy;
+}
+
+/**
+ * The element a frame's interaction was aimed at, described for people
+ * rather than selectors (e.g. the "Save" button)
+ * Clicks inside a button or link describe that button or link
+ */
+export interface TargetInfo {
+  /** Lowercase tag name */
+  tag: string;
+  /** ARIA role, explicit or implied by the tag */
+  role?: string;
+  /** Accessible name (aria-label, label, alt text, or text content) */
+  name?: string;
+  /** Visible text, whitespace collapsed and shortened */
+  text?: string;
+  /** data-testid attribute */
+  testId?: string;
+  /** Link address, without query string or fragment */
+  href?: string;
+  /** Bounding box in viewport pixels at capture time */
+  box: { x: number; y: number; width: number; height: number };
+  /** Whether the name and text were masked by obfuscation */
+  masked?: boolean;
+}
+
+/**
+ * What triggered a frame capture
+ */
+export type CaptureType =
+  | "pre-click"
+  | "post-click"
+  | "motion"
+  | "keystroke"
+  | "scroll"
+  | "drag"
+  | "navigation";
+
+/**
+ * Keyboard details recorded with a keystroke frame
+ */
+export interface KeystrokeInfo {
+  /** Whether the frame was triggered by typing into a field or by a key press */
+  trigger: "input" | "key";
+  /** Key name for key-triggered frames (e.g. "Enter", "Escape") */
+  key?: string;
+  /** Modifier keys held when the key was pressed */
+  modifiers?: { ctrl: boolean; shift: boolean; alt: boolean; meta: boolean };
+  /** Field value at capture time (masked when the field is masked) */
+  value?: string;
+  /** Tag name of the field (e.g. "input", "textarea") */
+  fieldTag?: string;
+  /** Input type of the field (e.g. "text", "password") */
+  inputType?: string;
+  /** Whether the key/value were masked */
+  masked: boolean;
+}
+
+/**
+ * Scroll details recorded with a scroll frame
+ */
+export interface ScrollInfo {
+  /** Dominant scroll direction */
+  direction: "up" | "down" | "left" | "right";
+  /** Scroll offset before scrolling started */
+  from: { x: number; y: number };
+  /** Scroll offset once scrolling settled */
+  to: { x: number; y: number };
+  /** CSS selector path to the scrolled container ("document" for the page) */
+  containerPath: string;
+}
+
+/**
+ * A sampled pointer position during a drag
+ */
+export interface DragPoint {
+  /** Viewport X coordinate */
+  x: number;
+  /** Viewport Y coordinate */
+  y: number;
+  /** Milliseconds since the pointer went down */
+  t: number;
+}
+
+/**
+ * Drag details recorded with a drag frame
+ */
+export interface DragInfo {
+  /** Sampled pointer path in viewport coordinates, from press to release */
+  path: DragPoint[];
+  /** Straight-line distance between the first and last point (px) */
+  distance: number;
+  /** Time between press and release (ms) */
+  duration: number;
+  /** CSS selector path to the element the drag started on */
+  sourcePath: string;
+  /** CSS selector path to the element under the release point */
+  dropPath?: string;
+}
+
+/**
+ * Route change details recorded with a navigation frame
+ */
+export interface NavigationInfo {
+  /** What changed the route: history.pushState, history.replaceState, or back/forward (popstate) */
+  trigger: "push" | "replace" | "pop";
+  /** Page address before the change */
+  from: string;
+  /** Page address after the change */
+  to: string;
+}
+
+/**
+ * A console warning or error, or an uncaught error, seen while recording
+ */
+export interface DiagnosticEntry {
+  /** Where it came from */
+  type: "console-error" | "console-warn" | "error" | "unhandled-rejection";
+  /** Console arguments joined with spaces, or the error message */
+  message: string;
+  /** Stack trace, when an Error was logged or thrown */
+  stack?: string;
+  /** Script that threw, without query string, for uncaught errors */
+  source?: string;
+  line?: number;
+  column?: number;
+  /** Milliseconds after the click (negative if logged before it), or after the start of recording in reels without clicks */
+  time: number;
+}
+
+/**
+ * A fetch or XMLHttpRequest seen by the network tracker
+ */
+export interface NetworkRequestInfo {
+  /** Which API started the request */
+  type: "fetch" | "xhr";
+  /** HTTP method (e.g. "GET", "POST") */
+  method: string;
+  /** Request URL without query string or fragment */
+  url: string;
+  /** Milliseconds between the click and the request starting */
+  start: number;
+  /** How long the request took (ms), absent while still in flight */
+  duration?: number;
+  /** HTTP status (0 for network errors and aborts), absent while in flight */
+  status?: number;
+}
+
+/**
+ * Network activity recorded with a settled post-click frame
+ */
+export interface NetworkActivity {
+  /** Whether all requests finished before the wait timed out */
+  idle: boolean;
+  /** Time spent waiting for requests to finish (ms) */
+  waitDuration: number;
+  /** Number of requests started since the click */
+  requestCount: number;
+  /** Requests started since the click, oldest first */
+  requests: NetworkRequestInfo[];
+}
+
+/**
+ * Zoomed region recorded with a pre-click frame
+ * The box is in image pixels, so exports can crop the stored image directly
+ */
+export interface FocusCrop {
+  /** Whether exports add an extra zoomed frame or a picture-in-picture inset */
+  mode: Exclude<ZoomFocusMode, "off">;
+  /** Left edge of the crop box */
+  x: number;
+  /** Top edge of the crop box */
+  y: number;
+  /** Crop box width */
+  width: number;
+  /** Crop box height */
+  height: number;
+}
+
+/**
+ * Kind of mark drawn over a frame
+ */
+export type AnnotationType =
+  | "arrow"
+  | "rectangle"
+  | "ellipse"
+  | "freehand"
+  | "text";
+
+/**
+ * A mark drawn over a frame after recording
+ * Points are in image pixels, like focus crops, so annotations line up with
+ * the stored image at any display size
+ * - arrow: tail, then tip
+ * - rectangle, ellipse: two opposite corners of the bounding box
+ * - freehand: the pointer path
+ * - text: the label's center, then optionally the spot its leader line points at
+ */
+export interface Annotation {
+  /** Unique identifier for the annotation */
+  id: string;
+  /** What is drawn */
+  type: AnnotationType;
+  /** Defining points in image pixels */
+  points: Array<{ x: number; y: number }>;
+  /** Stroke color, and the label background for text (CSS color value) */
+  color: string;
+  /** Line width in image pixels (text size scales with it) */
+  strokeWidth: number;
+  /** Label for text callouts (lines split on newlines) */
+  text?: string;
 }
 
 /**
@@ -88,14 +395,52 @@ export interface ReelSummary {
 export interface ReelSettings {
   markerSize: number;
   markerColor: string;
+  /** Marker shape (absent on older reels, which used "circle") */
+  markerShape?: MarkerShape;
+  /** Marker colors per mouse button (absent on older reels) */
+  markerButtonColors?: MarkerButtonColors;
+  /** How the clicked element was highlighted (absent on older reels) */
+  targetHighlight?: TargetHighlightMode;
+  /** Whether the page around the clicked element was dimmed (absent on older reels) */
+  dimOutsideTarget?: boolean;
+  /** Selector strategies for element paths (absent on older reels) */
+  selectorStrategies?: SelectorStrategy[];
   exportFormat: "gif" | "apng";
   postClickDelay: number;
   postClickInterval: number;
   maxCaptureDuration: number;
+  /** How settlement was detected (absent on older reels, which used "polling") */
+  settleStrategy?: SettleStrategy;
+  /** Settlement tuning (absent on older reels, which required identical frames) */
+  settleThreshold?: number;
+  settleStableFrames?: number;
+  settleIgnoreSelector?: string;
+  /** Whether post-click capture waited for network requests (absent on older reels) */
+  networkIdleWait?: boolean;
+  /** Whether intermediate transition frames were kept (absent on older reels) */
+  motionCaptureEnabled?: boolean;
+  /** Whether the click's animations were stepped frame by frame (absent on older reels) */
+  animationSteppingEnabled?: boolean;
   scale: number;
   maxWidth?: number;
   maxHeight?: number;
   obfuscationEnabled: boolean;
+  /** Area that was captured (absent on older reels, which used "viewport") */
+  captureMode?: CaptureMode;
+  /** How click targets were zoomed in exports (absent on older reels) */
+  zoomFocus?: ZoomFocusMode;
+  /** Whether keystroke frames were captured (absent on older reels) */
+  keystrokeCaptureEnabled?: boolean;
+  /** Whether scroll frames were captured (absent on older reels) */
+  scrollCaptureEnabled?: boolean;
+  /** Whether drag gestures were captured (absent on older reels) */
+  dragCaptureEnabled?: boolean;
+  /** Whether console warnings and errors were recorded (absent on older reels) */
+  diagnosticsCaptureEnabled?: boolean;
+  /** Whether frames carry replayable DOM snapshots (absent on older reels) */
+  domSnapshotsEnabled?: boolean;
+  /** Whether route changes captured a frame (absent on older reels) */
+  navigationCaptureEnabled?: boolean;
 }
 
 /**
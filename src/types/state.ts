@@ -2,7 +2,7 @@
  * State management types for React components
  */
 
-import type { Reel, ReelSummary } from "./reel";
+import type { Annotation, Reel, ReelSummary } from "./reel";
 import type { UserPreferences } from "./config";
 
 /**
@@ -189,6 +189,11 @@ export interface StorageAPI {
     id: string,
     updates: Partial<Pick<Reel, "title" | "description">>
   ) => Promise<void>;
+  /** Replace the annotations drawn over a frame */
+  updateFrameAnnotations: (
+    frameId: string,
+    annotations: Annotation[]
+  ) => Promise<void>;
   /** Delete a reel from storage */
   deleteReel: (id: string) => Promise<void>;
   /** Get storage quota information */
@@ -7,14 +7,17 @@ import type {
   MarkerStyle,
   GIFOptions,
   APNGOptions,
+  SelectorStrategy,
 } from "../types";
 
 /**
  * Default marker style configuration
  */
 export const DEFAULT_MARKER_STYLE: Required<MarkerStyle> = {
+  shape: "circle",
   size: 50,
   color: "#ff0000",
+  buttonColors: {},
   opacity: 0.5,
   borderWidth: 2,
   borderColor: "#ffffff",
@@ -40,20 +43,57 @@ export const DEFAULT_APNG_OPTIONS: Required<APNGOptions> = {
   loop: true,
 };
 
+/**
+ * Selector strategies, best first: test IDs survive redesigns, structural
+ * paths break whenever the DOM shifts
+ */
+export const DEFAULT_SELECTOR_STRATEGIES: SelectorStrategy[] = [
+  "test-id",
+  "id",
+  "role",
+  "class",
+  "structural",
+];
+
+/**
+ * Attributes that hold test IDs, checked in order
+ */
+export const TEST_ID_ATTRIBUTES = ["data-testid", "data-cy"];
+
 /**
  * Default user preferences
  */
 export const DEFAULT_PREFERENCES: UserPreferences = {
   markerSize: 50,
   markerColor: "#ff0000",
+  markerShape: "circle",
+  markerButtonColors: {},
+  targetHighlight: "off",
+  dimOutsideTarget: false,
+  selectorStrategies: DEFAULT_SELECTOR_STRATEGIES,
   exportFormat: "gif",
   postClickDelay: 500,
   postClickInterval: 100,
   maxCaptureDuration: 4000,
+  settleStrategy: "events",
+  settleThreshold: 0.5,
+  settleStableFrames: 1,
+  settleIgnoreSelector: "",
+  networkIdleWait: false,
+  motionCaptureEnabled: false,
+  animationSteppingEnabled: false,
   scale: 2,
+  captureMode: "viewport",
+  zoomFocus: "off",
   maxWidth: 1920,
   maxHeight: 1080,
   obfuscationEnabled: false,
+  keystrokeCaptureEnabled: false,
+  scrollCaptureEnabled: false,
+  dragCaptureEnabled: false,
+  diagnosticsCaptureEnabled: false,
+  domSnapshotsEnabled: false,
+  navigationCaptureEnabled: false,
   keyboardShortcuts: {
     toggleRecorder: "ctrl+shift+r",
     toggleObfuscation: "ctrl+shift+o",
@@ -70,6 +110,55 @@ export const DEFAULT_PREFERENCES: UserPreferences = {
   },
 };
 
+/**
+ * Zoom focus crops: how far to zoom in, padding around the target (CSS px),
+ * and inset size as a fraction of the frame width
+ */
+export const ZOOM_FOCUS_FACTOR = 3;
+export const ZOOM_FOCUS_PADDING = 24;
+export const ZOOM_FOCUS_INSET_SIZE = 0.35;
+
+/**
+ * Settlement detection: frames are compared downsampled to this width (px),
+ * and a pixel counts as changed when any channel differs by more than the
+ * tolerance (0-255)
+ */
+export const SETTLE_SAMPLE_WIDTH = 160;
+export const SETTLE_PIXEL_TOLERANCE = 16;
+
+/**
+ * Event-driven settlement: how long the page must stay quiet (ms), and how
+ * often activity is checked (ms)
+ */
+export const SETTLE_QUIET_PERIOD = 300;
+export const SETTLE_CHECK_INTERVAL = 50;
+
+/**
+ * Network-idle wait: how long no request may be in flight before the network
+ * counts as idle (ms), and how many finished requests the tracker keeps
+ */
+export const NETWORK_IDLE_PERIOD = 100;
+export const NETWORK_MAX_TRACKED_REQUESTS = 200;
+
+/**
+ * Diagnostics: how many entries the collector keeps between click sequences,
+ * and the longest message or stack recorded, in characters
+ */
+export const DIAGNOSTICS_MAX_ENTRIES = 100;
+export const DIAGNOSTICS_MAX_LENGTH = 2000;
+
+/**
+ * DOM diffs: how many changes are listed per click (the counts include the
+ * rest), and the longest value or markup recorded for one, in characters
+ */
+export const DOM_DIFF_MAX_CHANGES = 200;
+export const DOM_DIFF_MAX_LENGTH = 300;
+
+/**
+ * Maximum number of intermediate transition frames kept per click
+ */
+export const MOTION_MAX_FRAMES = 12;
+
 /**
  * Default post-click capture delays (in ms)
  */
@@ -115,3 +204,71 @@ export const EXCLUDE_ATTRIBUTE = "data-screenshot-exclude";
  * Data attribute for preserving elements during obfuscation
  */
 export const PRESERVE_ATTRIBUTE = "data-screenshot-preserve";
+
+/**
+ * Data attribute for regions whose changes don't block settlement
+ */
+export const IGNORE_CHANGE_ATTRIBUTE = "data-screenshot-ignore-change";
+
+/**
+ * Data attribute holding an element's scroll offset ("x,y") in DOM snapshots
+ */
+export const SNAPSHOT_SCROLL_ATTRIBUTE = "data-click-reel-scroll";
+
+/**
+ * Data attribute on a DOM snapshot's page style element; holds the key of the
+ * reel-level copy of its CSS while the reel is stored
+ */
+export const SNAPSHOT_STYLES_ATTRIBUTE = "data-click-reel-styles";
+
+/**
+ * Separator between a shadow host's path and the path inside its shadow root
+ */
+export const SHADOW_PATH_SEPARATOR = ">>>";
+
+/**
+ * Idle time (ms) after the last input event before a typing frame is captured
+ */
+export const KEYSTROKE_DEBOUNCE_MS = 800;
+
+/**
+ * Keys that capture a keystroke frame as soon as they are pressed
+ */
+export const KEYSTROKE_CAPTURE_KEYS = ["Enter", "Escape", "Tab"];
+
+/**
+ * Idle time (ms) after the last scroll event before a scroll frame is captured
+ */
+export const SCROLL_DEBOUNCE_MS = 300;
+
+/**
+ * Minimum scroll distance (px) that produces a scroll frame
+ */
+export const SCROLL_MIN_DISTANCE = 40;
+
+/**
+ * Minimum pointer travel (px) between press and release for a drag frame
+ * (shorter gestures are treated as clicks)
+ */
+export const DRAG_THRESHOLD = 10;
+
+/**
+ * Minimum distance (px) between sampled drag path points
+ */
+export const DRAG_MIN_POINT_DISTANCE = 4;
+
+/**
+ * Maximum number of sampled points stored per drag path
+ */
+export const DRAG_MAX_POINTS = 200;
+
+/**
+ * Time (ms) after the last route change before a navigation frame is
+ * captured, so the new route can render and redirects collapse into one frame
+ */
+export const NAVIGATION_DEBOUNCE_MS = 500;
+
+/**
+ * Longest visible text recorded for a click target, in characters
+ */
+export const TARGET_TEXT_MAX_LENGTH = 100;
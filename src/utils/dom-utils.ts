@@ -2,58 +2,423 @@
  * DOM utility functions for element path generation and manipulation
  */
 
-import { EXCLUDE_ATTRIBUTE, PRESERVE_ATTRIBUTE } from './constants';
+import type {
+  CaptureRootTarget,
+  ElementSelector,
+  MarkerStyle,
+  SelectorStrategy,
+  TargetHighlightMode,
+} from '../types';
+import {
+  DEFAULT_SELECTOR_STRATEGIES,
+  EXCLUDE_ATTRIBUTE,
+  PRESERVE_ATTRIBUTE,
+  SHADOW_PATH_SEPARATOR,
+  TEST_ID_ATTRIBUTES,
+} from './constants';
+import { getAccessibleName, getElementRole } from './element-semantics';
+import { libraryConsole } from './library-console';
 
 /**
- * Generates a robust selector path to an element
- * Priority: data-testid → id → CSS path with nth-child
+ * Generates a stable selector path to an element
+ * Strategies are tried in order and the first selector that matches only
+ * this element within the capture root wins, falling back to a structural
+ * path (see getElementSelectors)
+ * Elements inside open shadow roots or same-origin iframes get the host's
+ * (or iframe's) path, then ">>>", then their path within that tree
  */
 export function getElementPath(
   element: HTMLElement | null,
-  root: HTMLElement
+  root: HTMLElement,
+  strategies: SelectorStrategy[] = DEFAULT_SELECTOR_STRATEGIES
 ): string {
+  return getElementSelectors(element, root, strategies)[0].selector;
+}
+
+/**
+ * Lists the selectors that match only the element within the capture root,
+ * best first, with the strategy that built each one
+ * The structural path always comes last, since every element has one
+ */
+export function getElementSelectors(
+  element: HTMLElement | null,
+  root: HTMLElement,
+  strategies: SelectorStrategy[] = DEFAULT_SELECTOR_STRATEGIES
+): ElementSelector[] {
   // Handle null element (e.g., from synthetic events)
   if (!element) {
-    return root.tagName.toLowerCase();
+    return [{ selector: root.tagName.toLowerCase(), strategy: "structural" }];
   }
 
-  // Check for data-testid attribute (highest priority)
-  const testId = element.getAttribute("data-testid");
-  if (testId) {
-    return `[data-testid="${testId}"]`;
+  const rootNode = element.getRootNode();
+  const frameElement = element.ownerDocument.defaultView?.frameElement;
+  let container: HTMLElement | null = null;
+  if (rootNode instanceof ShadowRoot && !rootNode.contains(root)) {
+    container = rootNode.host as HTMLElement;
+  } else if (element.ownerDocument !== root.ownerDocument && frameElement) {
+    container = frameElement as HTMLElement;
   }
 
-  // Check for id attribute
-  if (element.id) {
-    return `#${element.id}`;
+  if (!container) {
+    return getLocalSelectors(element, root, root, strategies);
   }
 
-  // Build CSS path with nth-child indices
+  // Selectors inside a shadow root or iframe only need to be unique there
+  const containerPath = getElementPath(container, root, strategies);
+  return getLocalSelectors(
+    element,
+    root,
+    rootNode as Document | ShadowRoot,
+    strategies
+  ).map(({ selector, strategy }) => ({
+    selector: `${containerPath} ${SHADOW_PATH_SEPARATOR} ${selector}`,
+    strategy,
+  }));
+}
+
+/**
+ * Where a selector has to be unique: the capture root, or the shadow root or
+ * iframe document an element lives in
+ */
+type SelectorScope = HTMLElement | Document | ShadowRoot;
+
+/**
+ * Selectors for an element within its own tree (document, shadow root or
+ * iframe document)
+ */
+function getLocalSelectors(
+  element: HTMLElement,
+  root: HTMLElement,
+  scope: SelectorScope,
+  strategies: SelectorStrategy[]
+): ElementSelector[] {
+  const selectors: ElementSelector[] = [];
+  strategies.forEach((strategy) => {
+    if (strategy === "structural") {
+      return;
+    }
+    SELECTOR_BUILDERS[strategy](element, scope).forEach((selector) => {
+      if (!selectors.some((existing) => existing.selector === selector)) {
+        selectors.push({ selector, strategy });
+      }
+    });
+  });
+
+  selectors.push({
+    selector: getStructuralPath(element, root),
+    strategy: "structural",
+  });
+  return selectors;
+}
+
+/**
+ * Names that can be used in #id and .class selectors without escaping
+ */
+const CSS_IDENTIFIER = /^-?[_a-zA-Z][_a-zA-Z0-9-]*$/;
+
+/**
+ * Builders for each non-structural strategy, returning only selectors that
+ * match the element and nothing else in scope
+ */
+const SELECTOR_BUILDERS: Record<
+  Exclude<SelectorStrategy, "structural">,
+  (element: HTMLElement, scope: SelectorScope) => string[]
+> = {
+  "test-id": (element, scope) =>
+    TEST_ID_ATTRIBUTES.filter((name) => element.getAttribute(name))
+      .map(
+        (name) =>
+          `[${name}="${escapeSelectorValue(element.getAttribute(name)!)}"]`
+      )
+      .filter((selector) => isUniqueSelector(selector, element, scope)),
+
+  id: (element, scope) => {
+    if (!element.id) {
+      return [];
+    }
+    const selector = CSS_IDENTIFIER.test(element.id)
+      ? `#${element.id}`
+      : `[id="${escapeSelectorValue(element.id)}"]`;
+    return isUniqueSelector(selector, element, scope) ? [selector] : [];
+  },
+
+  // Roles and names aren't CSS, so this is matched by hand (the selector
+  // follows Playwright's role syntax)
+  role: (element, scope) => {
+    const role = getElementRole(element);
+    const name = getAccessibleName(element);
+    if (!role || !name) {
+      return [];
+    }
+    const matches = queryScope(scope, "*").filter(
+      (candidate) =>
+        getElementRole(candidate) === role &&
+        getAccessibleName(candidate) === name
+    );
+    return matches.length === 1 && matches[0] === element
+      ? [`role=${role}[name="${escapeSelectorValue(name)}"]`]
+      : [];
+  },
+
+  // Classes with digits are usually generated (CSS modules, CSS-in-JS) and
+  // change between builds
+  class: (element, scope) => {
+    const tagName = element.tagName.toLowerCase();
+    return Array.from(element.classList)
+      .filter((name) => CSS_IDENTIFIER.test(name) && !/\d/.test(name))
+      .map((name) => `${tagName}.${name}`)
+      .filter((selector) => isUniqueSelector(selector, element, scope));
+  },
+};
+
+/**
+ * Escapes a value for use inside a double-quoted selector string
+ */
+function escapeSelectorValue(value: string): string {
+  return value.replace(/["\\]/g, "\\$&");
+}
+
+/**
+ * Elements in scope matching a selector, including a scope element itself
+ * Invalid selectors match nothing
+ */
+function queryScope(scope: SelectorScope, selector: string): Element[] {
+  try {
+    const matches = Array.from(scope.querySelectorAll(selector));
+    return "matches" in scope && scope.matches(selector)
+      ? [scope, ...matches]
+      : matches;
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Whether a selector matches the element and nothing else in scope
+ */
+function isUniqueSelector(
+  selector: string,
+  element: HTMLElement,
+  scope: SelectorScope
+): boolean {
+  const matches = queryScope(scope, selector);
+  return matches.length === 1 && matches[0] === element;
+}
+
+/**
+ * Tag path from the capture root (or the top of the element's tree) down to
+ * the element, with nth-child indices where siblings share a tag
+ */
+function getStructuralPath(element: HTMLElement, root: HTMLElement): string {
   const path: string[] = [];
   let current: HTMLElement | null = element;
 
-  while (current && current !== root && current !== document.body) {
-    const parent: HTMLElement | null = current.parentElement;
+  const body = element.ownerDocument.body;
+
+  while (current && current !== root && current !== body) {
+    // Top-level elements of a shadow root have the shadow root as parent node
+    const parent: HTMLElement | ShadowRoot | null =
+      current.parentElement ||
+      (current.parentNode instanceof ShadowRoot ? current.parentNode : null);
     if (!parent) break;
 
     const tagName = current.tagName.toLowerCase();
-    const siblings = Array.from(parent.children).filter(
+    const children = Array.from(parent.children);
+    const sameTag = children.filter(
       (el: Element) => el.tagName.toLowerCase() === tagName
     );
 
-    if (siblings.length > 1) {
-      const index = siblings.indexOf(current) + 1;
+    if (sameTag.length > 1) {
+      // nth-child counts every sibling, not just those with the same tag
+      const index = children.indexOf(current) + 1;
       path.unshift(`${tagName}:nth-child(${index})`);
     } else {
       path.unshift(tagName);
     }
 
-    current = parent;
+    current = parent instanceof ShadowRoot ? null : parent;
   }
 
   return path.join(" > ") || "unknown";
 }
 
+/**
+ * Gets the element an event started on, even inside an open shadow root
+ * (listeners outside a component only see its host as event.target)
+ * Falls back to event.target once the event has finished dispatching
+ */
+export function getEventTarget(event: Event): HTMLElement {
+  return (event.composedPath()[0] || event.target) as HTMLElement;
+}
+
+/**
+ * Like Element.closest, but continues from shadow hosts into the outer tree
+ */
+export function closestComposed(
+  element: Element | null,
+  selector: string
+): Element | null {
+  let current = element;
+
+  while (current) {
+    const match = current.closest(selector);
+    if (match) {
+      return match;
+    }
+    const rootNode = current.getRootNode();
+    current = rootNode instanceof ShadowRoot ? rootNode.host : null;
+  }
+
+  return null;
+}
+
+/**
+ * Gets the parent element, stepping from a shadow root's top level to its host
+ */
+export function getComposedParent(element: Element): Element | null {
+  if (element.parentElement) {
+    return element.parentElement;
+  }
+  const parent = element.parentNode;
+  return parent instanceof ShadowRoot ? parent.host : null;
+}
+
+/**
+ * Like Node.contains, but also finds elements inside open shadow roots
+ */
+export function containsComposed(root: Element, element: Element): boolean {
+  let current: Element | null = element;
+  while (current) {
+    if (current === root) {
+      return true;
+    }
+    current = getComposedParent(current);
+  }
+  return false;
+}
+
+/**
+ * Collects every open shadow root at or below an element, nested ones included
+ */
+export function getOpenShadowRoots(root: Element | ShadowRoot): ShadowRoot[] {
+  const shadowRoots: ShadowRoot[] = [];
+  const hosts =
+    root instanceof Element
+      ? [root, ...Array.from(root.querySelectorAll("*"))]
+      : Array.from(root.querySelectorAll("*"));
+
+  hosts.forEach((host) => {
+    if (host.shadowRoot) {
+      shadowRoots.push(host.shadowRoot, ...getOpenShadowRoots(host.shadowRoot));
+    }
+  });
+
+  return shadowRoots;
+}
+
+/**
+ * Like querySelectorAll, but also matches inside open shadow roots
+ */
+export function querySelectorAllComposed<T extends Element = HTMLElement>(
+  root: Element | ShadowRoot,
+  selector: string
+): T[] {
+  return [root, ...getOpenShadowRoots(root)].flatMap((scope) =>
+    Array.from(scope.querySelectorAll<T>(selector))
+  );
+}
+
+/**
+ * Gets the iframes directly inside an element (or its open shadow roots)
+ * whose documents this page can access, i.e. same-origin and loaded
+ */
+export function getSameOriginFrames(root: Element): HTMLIFrameElement[] {
+  return querySelectorAllComposed<HTMLIFrameElement>(root, "iframe").filter(
+    (frame) => {
+      try {
+        return !!frame.contentDocument?.documentElement;
+      } catch {
+        // Cross-origin frames can throw instead of returning null
+        return false;
+      }
+    }
+  );
+}
+
+/**
+ * Gets the position of an element's document viewport within this page's
+ * viewport - zero for this document, the iframe content box(es) for elements
+ * inside same-origin iframes
+ */
+export function getFrameOffset(element: Element | null): {
+  x: number;
+  y: number;
+} {
+  const offset = { x: 0, y: 0 };
+  let frameDocument = element?.ownerDocument;
+
+  while (frameDocument && frameDocument !== document) {
+    const frame = frameDocument.defaultView?.frameElement;
+    if (!frame) break;
+
+    const rect = frame.getBoundingClientRect();
+    const style = frame.ownerDocument.defaultView?.getComputedStyle(frame);
+    offset.x +=
+      rect.left + frame.clientLeft + parseFloat(style?.paddingLeft || "0");
+    offset.y +=
+      rect.top + frame.clientTop + parseFloat(style?.paddingTop || "0");
+    frameDocument = frame.ownerDocument;
+  }
+
+  return offset;
+}
+
+/**
+ * An element temporarily replaced by a static image
+ */
+export interface ImageSwap {
+  el: HTMLElement;
+  image: HTMLImageElement;
+  originalDisplay: string;
+}
+
+/**
+ * Temporarily replaces an element with an image that takes its exact place
+ * The image copies the element's computed style; the element is hidden (not
+ * removed, so iframes and videos keep their state) and excluded from capture
+ */
+export function swapForImage(element: HTMLElement, src: string): ImageSwap {
+  const image = element.ownerDocument.createElement("img");
+  const style = (element.ownerDocument.defaultView || window).getComputedStyle(
+    element
+  );
+  for (let i = 0; i < style.length; i++) {
+    image.style.setProperty(style[i], style.getPropertyValue(style[i]));
+  }
+  image.style.objectFit = "fill";
+  image.src = src;
+
+  const originalDisplay = element.style.display;
+  element.parentNode?.insertBefore(image, element);
+  element.style.display = "none";
+  element.setAttribute(EXCLUDE_ATTRIBUTE, "true");
+
+  return { el: element, image, originalDisplay };
+}
+
+/**
+ * Puts back an element replaced by swapForImage
+ */
+export function restoreImageSwap(swap: ImageSwap): void {
+  swap.image.remove();
+  if (swap.originalDisplay) {
+    swap.el.style.display = swap.originalDisplay;
+  } else {
+    swap.el.style.removeProperty("display");
+  }
+  swap.el.removeAttribute(EXCLUDE_ATTRIBUTE);
+}
+
 /**
  * Checks if an element should be excluded from capture
  */
@@ -82,19 +447,61 @@ export function getViewportCoords(event: PointerEvent): {
 }
 
 /**
- * Gets coordinates relative to a root element
+ * Gets the viewport position of a root's content origin
+ * For the document this is the page origin (minus window scroll); for an
+ * element it is the padding-box corner, minus the element's own scroll
+ */
+export function getRootOrigin(root: HTMLElement): { x: number; y: number } {
+  const rootRect = root.getBoundingClientRect();
+  if (root === document.documentElement) {
+    return { x: rootRect.left, y: rootRect.top };
+  }
+  return {
+    x: rootRect.left + root.clientLeft - root.scrollLeft,
+    y: rootRect.top + root.clientTop - root.scrollTop,
+  };
+}
+
+/**
+ * Gets coordinates relative to a root element's content origin
  */
 export function getRelativeCoords(
   event: PointerEvent,
   root: HTMLElement
 ): { x: number; y: number } {
-  const rootRect = root.getBoundingClientRect();
+  const origin = getRootOrigin(root);
   return {
-    x: event.clientX - rootRect.left,
-    y: event.clientY - rootRect.top,
+    x: event.clientX - origin.x,
+    y: event.clientY - origin.y,
   };
 }
 
+/**
+ * Resolves a capture root target to an element
+ * Falls back to document.documentElement when nothing is given or found
+ */
+export function resolveCaptureRoot(target?: CaptureRootTarget): HTMLElement {
+  if (!target) {
+    return document.documentElement;
+  }
+
+  if (typeof target === "string") {
+    const element = document.querySelector<HTMLElement>(target);
+    if (!element) {
+      libraryConsole.warn(
+        `Capture root "${target}" not found - falling back to the document`
+      );
+    }
+    return element || document.documentElement;
+  }
+
+  if (target instanceof HTMLElement) {
+    return target;
+  }
+
+  return target.current || document.documentElement;
+}
+
 /**
  * Gets current viewport size
  */
@@ -141,31 +548,156 @@ export function cloneAndCleanDOM(element: HTMLElement, excludeSelector?: string)
   return cloned;
 }
 
+/**
+ * Picks the marker color for a mouse button
+ */
+export function getMarkerColor(
+  buttonType: number,
+  style: Pick<MarkerStyle, "color" | "buttonColors"> = {}
+): string {
+  const buttons = ["left", "middle", "right"] as const;
+  const button = buttons[buttonType];
+  return (button && style.buttonColors?.[button]) || style.color || "#ff0000";
+}
+
 /**
  * Creates a marker element at specified coordinates
+ * Badge markers show the step number when one is given
  */
 export function createMarkerElement(
   coords: { x: number; y: number },
   buttonType: number,
-  style: {
-    size?: number;
-    color?: string;
-    opacity?: number;
-    borderWidth?: number;
-    borderColor?: string;
-  } = {}
+  style: MarkerStyle = {},
+  stepNumber?: number
 ): HTMLElement {
   const marker = document.createElement("div");
-  marker.setAttribute("data-click-reel-marker", "true");
+  marker.setAttribute("data-click-reel-marker", style.shape || "circle");
   // DO NOT exclude the marker - we want it to appear in the screenshot!
   // marker.setAttribute(EXCLUDE_ATTRIBUTE, 'true');
 
   const size = style.size || 50;
-  const color = style.color || "#ff0000";
+  const color = getMarkerColor(buttonType, style);
   const opacity = style.opacity ?? 0.5;
   const borderWidth = style.borderWidth || 2;
   const borderColor = style.borderColor || "#ffffff";
 
+  const box = `
+    position: absolute;
+    left: ${coords.x - size / 2}px;
+    top: ${coords.y - size / 2}px;
+    width: ${size}px;
+    height: ${size}px;
+    pointer-events: none;
+    z-index: 999999;
+  `;
+
+  switch (style.shape) {
+    case "ripple": {
+      // Rings fade as they spread out from a solid center dot
+      marker.style.cssText = box;
+      [1, 0.7, 0.4, 0.15].forEach((scale, index) => {
+        const ring = document.createElement("div");
+        const ringSize = size * scale;
+        const isCenter = index === 3;
+        ring.style.cssText = `
+          position: absolute;
+          left: ${(size - ringSize) / 2}px;
+          top: ${(size - ringSize) / 2}px;
+          width: ${ringSize}px;
+          height: ${ringSize}px;
+          box-sizing: border-box;
+          border-radius: 50%;
+          border: ${Math.max(borderWidth, 2)}px solid ${color};
+          background-color: ${isCenter ? color : "transparent"};
+          opacity: ${isCenter ? 1 : Math.min(1, opacity + 0.5 * (1 - scale))};
+        `;
+        marker.appendChild(ring);
+      });
+      return marker;
+    }
+
+    case "crosshair": {
+      // Lines stop short of the click so the target stays visible
+      marker.style.cssText = box;
+      const thickness = Math.max(borderWidth, 2);
+      const gap = size * 0.15;
+      const length = size / 2 - gap;
+      const middle = (size - thickness) / 2;
+      // [left, top, width, height] of the left, right, top and bottom lines
+      const lines = [
+        [0, middle, length, thickness],
+        [size - length, middle, length, thickness],
+        [middle, 0, thickness, length],
+        [middle, size - length, thickness, length],
+      ];
+      lines.forEach(([left, top, width, height]) => {
+        const line = document.createElement("div");
+        line.style.cssText = `
+          position: absolute;
+          left: ${left}px;
+          top: ${top}px;
+          width: ${width}px;
+          height: ${height}px;
+          background-color: ${color};
+          outline: 1px solid ${borderColor};
+        `;
+        marker.appendChild(line);
+      });
+      return marker;
+    }
+
+    case "arrow": {
+      // The pointer's tip sits on the click, like a real cursor
+      const svgNS = "http://www.w3.org/2000/svg";
+      const width = size * 0.65;
+      marker.style.cssText = `
+        position: absolute;
+        left: ${coords.x}px;
+        top: ${coords.y}px;
+        width: ${width}px;
+        height: ${size}px;
+        pointer-events: none;
+        z-index: 999999;
+      `;
+      const svg = document.createElementNS(svgNS, "svg");
+      svg.setAttribute("width", String(width));
+      svg.setAttribute("height", String(size));
+      svg.setAttribute("viewBox", "0 0 13 20");
+      const path = document.createElementNS(svgNS, "path");
+      path.setAttribute(
+        "d",
+        "M1 1 L1 16 L4.8 12.4 L7.6 18.6 L10 17.5 L7.3 11.4 L12.2 11.4 Z"
+      );
+      path.setAttribute("fill", color);
+      path.setAttribute("stroke", borderColor);
+      path.setAttribute("stroke-width", "1.2");
+      path.setAttribute("stroke-linejoin", "round");
+      svg.appendChild(path);
+      marker.appendChild(svg);
+      return marker;
+    }
+
+    case "badge": {
+      // Solid so the number stays readable
+      marker.textContent = stepNumber !== undefined ? String(stepNumber) : "";
+      marker.style.cssText = `
+        ${box}
+        box-sizing: border-box;
+        background-color: ${color};
+        border: ${borderWidth}px solid ${borderColor};
+        border-radius: 50%;
+        color: #ffffff;
+        font-family: sans-serif;
+        font-weight: bold;
+        font-size: ${Math.round(size * 0.45)}px;
+        line-height: ${size - borderWidth * 2}px;
+        text-align: center;
+        box-shadow: 0 2px 6px rgba(0, 0, 0, 0.35);
+      `;
+      return marker;
+    }
+  }
+
   // Different styles for different button types
   let shape = "circle";
   if (buttonType === 1) {
@@ -208,15 +740,190 @@ export function injectMarker(
   clonedDOM: HTMLElement,
   coords: { x: number; y: number },
   buttonType: number,
-  markerStyle: {
-    size?: number;
-    color?: string;
-    opacity?: number;
-    borderWidth?: number;
-    borderColor?: string;
-  } = {}
+  markerStyle: MarkerStyle = {}
 ): HTMLElement {
   const marker = createMarkerElement(coords, buttonType, markerStyle);
   clonedDOM.appendChild(marker);
   return clonedDOM;
 }
+
+/**
+ * Creates a highlight around a clicked element's bounding box
+ * Coordinates are root-relative, like the marker's. Dimming shades everything
+ * outside the box with an oversized shadow, so the element stays untouched
+ */
+export function createTargetHighlightElement(
+  box: { x: number; y: number; width: number; height: number },
+  mode: TargetHighlightMode,
+  style: {
+    color?: string;
+    dim?: boolean;
+  } = {}
+): HTMLElement {
+  const highlight = document.createElement("div");
+  highlight.setAttribute("data-click-reel-highlight", mode);
+
+  const color = style.color || "#ff0000";
+  const padding = 4;
+
+  const shadows: string[] = [];
+  if (mode === "spotlight") {
+    shadows.push(`0 0 0 2px ${color}`, `0 0 16px 6px ${color}`);
+  }
+  if (style.dim) {
+    shadows.push("0 0 0 100000px rgba(0, 0, 0, 0.45)");
+  }
+
+  highlight.style.cssText = `
+    position: absolute;
+    left: ${box.x - padding}px;
+    top: ${box.y - padding}px;
+    width: ${box.width + padding * 2}px;
+    height: ${box.height + padding * 2}px;
+    box-sizing: border-box;
+    border: ${mode === "outline" ? `3px solid ${color}` : "none"};
+    border-radius: 4px;
+    box-shadow: ${shadows.length > 0 ? shadows.join(", ") : "none"};
+    pointer-events: none;
+    z-index: 999998;
+  `;
+
+  return highlight;
+}
+
+/**
+ * Creates a scroll-direction indicator centered at specified coordinates
+ */
+export function createScrollIndicatorElement(
+  coords: { x: number; y: number },
+  direction: "up" | "down" | "left" | "right",
+  style: {
+    color?: string;
+    opacity?: number;
+  } = {}
+): HTMLElement {
+  const indicator = document.createElement("div");
+  indicator.setAttribute("data-click-reel-scroll-indicator", direction);
+
+  const arrows = { up: "↑", down: "↓", left: "←", right: "→" };
+  const color = style.color || "#ff0000";
+  const opacity = style.opacity ?? 0.85;
+  const size = 56;
+
+  indicator.textContent = arrows[direction];
+  indicator.style.cssText = `
+    position: absolute;
+    left: ${coords.x - size / 2}px;
+    top: ${coords.y - size / 2}px;
+    width: ${size}px;
+    height: ${size}px;
+    line-height: ${size}px;
+    text-align: center;
+    font-size: 32px;
+    font-weight: bold;
+    font-family: sans-serif;
+    color: #ffffff;
+    background-color: ${color};
+    opacity: ${opacity};
+    border: 2px solid #ffffff;
+    border-radius: 50%;
+    pointer-events: none;
+    z-index: 999999;
+  `;
+
+  return indicator;
+}
+
+/**
+ * Creates a pointer-path trail with an arrowhead at the release point
+ * Points are in document coordinates (viewport + scroll), like the marker
+ */
+export function createDragTrailElement(
+  points: Array<{ x: number; y: number }>,
+  style: {
+    color?: string;
+    opacity?: number;
+    width?: number;
+  } = {}
+): HTMLElement {
+  const svgNS = "http://www.w3.org/2000/svg";
+  const trail = document.createElement("div");
+  trail.setAttribute("data-click-reel-drag-trail", "true");
+
+  const color = style.color || "#ff0000";
+  const opacity = style.opacity ?? 0.8;
+  const width = style.width || 4;
+  // Room around the path for the stroke, start dot and arrowhead
+  const padding = width * 4;
+
+  const xs = points.map((p) => p.x);
+  const ys = points.map((p) => p.y);
+  const left = Math.min(...xs) - padding;
+  const top = Math.min(...ys) - padding;
+  const boxWidth = Math.max(...xs) - Math.min(...xs) + padding * 2;
+  const boxHeight = Math.max(...ys) - Math.min(...ys) + padding * 2;
+
+  trail.style.cssText = `
+    position: absolute;
+    left: ${left}px;
+    top: ${top}px;
+    width: ${boxWidth}px;
+    height: ${boxHeight}px;
+    opacity: ${opacity};
+    pointer-events: none;
+    z-index: 999998;
+  `;
+
+  const svg = document.createElementNS(svgNS, "svg");
+  svg.setAttribute("width", String(boxWidth));
+  svg.setAttribute("height", String(boxHeight));
+  svg.setAttribute("viewBox", `0 0 ${boxWidth} ${boxHeight}`);
+
+  const local = points.map((p) => ({ x: p.x - left, y: p.y - top }));
+
+  const path = document.createElementNS(svgNS, "polyline");
+  path.setAttribute("points", local.map((p) => `${p.x},${p.y}`).join(" "));
+  path.setAttribute("fill", "none");
+  path.setAttribute("stroke", color);
+  path.setAttribute("stroke-width", String(width));
+  path.setAttribute("stroke-linecap", "round");
+  path.setAttribute("stroke-linejoin", "round");
+  path.setAttribute("stroke-dasharray", `${width * 2} ${width * 1.5}`);
+  svg.appendChild(path);
+
+  // Hollow dot where the drag started
+  const start = local[0];
+  const startDot = document.createElementNS(svgNS, "circle");
+  startDot.setAttribute("cx", String(start.x));
+  startDot.setAttribute("cy", String(start.y));
+  startDot.setAttribute("r", String(width * 1.5));
+  startDot.setAttribute("fill", "#ffffff");
+  startDot.setAttribute("stroke", color);
+  startDot.setAttribute("stroke-width", String(width / 2));
+  svg.appendChild(startDot);
+
+  // Arrowhead pointing along the last segment of the path
+  const end = local[local.length - 1];
+  const before =
+    local
+      .slice(0, -1)
+      .reverse()
+      .find((p) => Math.hypot(end.x - p.x, end.y - p.y) >= width) || start;
+  const angle = Math.atan2(end.y - before.y, end.x - before.x);
+  const headLength = width * 4;
+  const spread = Math.PI / 7;
+  const arrow = document.createElementNS(svgNS, "polygon");
+  arrow.setAttribute(
+    "points",
+    [
+      `${end.x},${end.y}`,
+      `${end.x - headLength * Math.cos(angle - spread)},${end.y - headLength * Math.sin(angle - spread)}`,
+      `${end.x - headLength * Math.cos(angle + spread)},${end.y - headLength * Math.sin(angle + spread)}`,
+    ].join(" ")
+  );
+  arrow.setAttribute("fill", color);
+  svg.appendChild(arrow);
+
+  trail.appendChild(svg);
+  return trail;
+}
@@ -0,0 +1,200 @@
+/**
+ * Element semantics for describing interactions
+ * Works out roles, accessible names and visible text the way assistive
+ * technology would (simplified), so steps read as "clicked the 'Save' button"
+ */
+
+import type { TargetInfo } from "../types";
+import { closestComposed } from "./dom-utils";
+import { TARGET_TEXT_MAX_LENGTH } from "./constants";
+
+/**
+ * Elements a click inside of is really aimed at
+ */
+const INTERACTIVE_SELECTOR = [
+  "a[href]",
+  "button",
+  "input",
+  "select",
+  "textarea",
+  "summary",
+  "label",
+  "[role]",
+  "[tabindex]",
+  "[contenteditable='true']",
+].join(", ");
+
+/**
+ * Roles implied by input types (text-like types are textboxes)
+ */
+const INPUT_ROLES: Record<string, string> = {
+  button: "button",
+  submit: "button",
+  reset: "button",
+  image: "button",
+  checkbox: "checkbox",
+  radio: "radio",
+  range: "slider",
+  number: "spinbutton",
+  search: "searchbox",
+};
+
+/**
+ * Roles implied by tags
+ */
+const TAG_ROLES: Record<string, string> = {
+  button: "button",
+  textarea: "textbox",
+  h1: "heading",
+  h2: "heading",
+  h3: "heading",
+  h4: "heading",
+  h5: "heading",
+  h6: "heading",
+  nav: "navigation",
+  main: "main",
+  form: "form",
+  dialog: "dialog",
+  ul: "list",
+  ol: "list",
+  li: "listitem",
+  table: "table",
+  tr: "row",
+  td: "cell",
+  th: "columnheader",
+  option: "option",
+  progress: "progressbar",
+};
+
+/**
+ * Finds the element a click on the given element was aimed at: the nearest
+ * button, link, field or other interactive ancestor, or the element itself
+ */
+export function getInteractiveTarget(element: HTMLElement): HTMLElement {
+  return (
+    (closestComposed(element, INTERACTIVE_SELECTOR) as HTMLElement | null) ??
+    element
+  );
+}
+
+/**
+ * Gets an element's ARIA role, explicit or implied by its tag
+ * Tag checks rather than instanceof, so elements inside iframes work too
+ */
+export function getElementRole(element: Element): string | undefined {
+  const explicit = element.getAttribute("role")?.trim().split(/\s+/)[0];
+  if (explicit) {
+    return explicit;
+  }
+
+  const tag = element.tagName.toLowerCase();
+  switch (tag) {
+    case "a":
+      return element.hasAttribute("href") ? "link" : undefined;
+    case "img":
+      return element.getAttribute("alt") === "" ? "presentation" : "img";
+    case "select":
+      return (element as HTMLSelectElement).multiple ||
+        (element as HTMLSelectElement).size > 1
+        ? "listbox"
+        : "combobox";
+    case "input":
+      return INPUT_ROLES[(element as HTMLInputElement).type] ?? "textbox";
+    default:
+      return TAG_ROLES[tag];
+  }
+}
+
+/**
+ * Gets an element's visible text with whitespace collapsed, shortened to a
+ * readable length
+ */
+export function getVisibleText(element: Element): string {
+  const text = (
+    (element as HTMLElement).innerText ??
+    element.textContent ??
+    ""
+  )
+    .replace(/\s+/g, " ")
+    .trim();
+  return text.length > TARGET_TEXT_MAX_LENGTH
+    ? `${text.slice(0, TARGET_TEXT_MAX_LENGTH - 1)}…`
+    : text;
+}
+
+/**
+ * Gets an element's accessible name (simplified accessible name computation)
+ * aria-labelledby, then aria-label, then what the element type is labelled
+ * by (labels, alt text, button values, placeholders), then text content
+ * and finally the title
+ */
+export function getAccessibleName(element: Element): string | undefined {
+  const labelledBy = element.getAttribute("aria-labelledby");
+  if (labelledBy) {
+    const root = element.getRootNode() as Document | ShadowRoot;
+    const name = labelledBy
+      .split(/\s+/)
+      .map((id) => root.getElementById?.(id))
+      .filter((label): label is HTMLElement => !!label)
+      .map(getVisibleText)
+      .join(" ")
+      .trim();
+    if (name) {
+      return name;
+    }
+  }
+
+  const ariaLabel = element.getAttribute("aria-label")?.trim();
+  if (ariaLabel) {
+    return ariaLabel;
+  }
+
+  const tag = element.tagName.toLowerCase();
+  if (tag === "input" || tag === "select" || tag === "textarea") {
+    const field = element as HTMLInputElement;
+    const labels = Array.from(field.labels ?? [])
+      .map(getVisibleText)
+      .join(" ")
+      .trim();
+    if (labels) {
+      return labels;
+    }
+
+    if (tag === "input") {
+      if (["button", "submit", "reset"].includes(field.type)) {
+        return field.value || (field.type === "reset" ? "Reset" : "Submit");
+      }
+      if (field.type === "image") {
+        return field.alt || undefined;
+      }
+    }
+
+    return (
+      field.getAttribute("placeholder")?.trim() ||
+      element.getAttribute("title")?.trim() ||
+      undefined
+    );
+  }
+
+  if (tag === "img") {
+    return (
+      element.getAttribute("alt")?.trim() ||
+      element.getAttribute("title")?.trim() ||
+      undefined
+    );
+  }
+
+  return (
+    getVisibleText(element) ||
+    element.getAttribute("title")?.trim() ||
+    undefined
+  );
+}
+
+/**
+ * Describes a target for people, e.g. `the "Save" button`
+ */
+export function describeTarget(target: TargetInfo): string {
+  const kind = target.role || target.tag;
+  return target.name ? `the "${target.name}" ${kind}` : `the ${kind}`;
+}
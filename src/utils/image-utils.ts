@@ -30,19 +30,22 @@ export async function dataURLToBlob(dataUrl: string): Promise<Blob> {
 
 /**
  * Resizes an image while maintaining aspect ratio
+ * With a crop box, only that region is drawn, scaled up or down to fit
  */
 export async function resizeImage(
   dataUrl: string,
   maxWidth: number,
-  maxHeight: number
+  maxHeight: number,
+  crop?: { x: number; y: number; width: number; height: number }
 ): Promise<string> {
   return new Promise((resolve, reject) => {
     const img = new Image();
     img.onload = () => {
-      let { width, height } = img;
+      const source = crop || { x: 0, y: 0, width: img.width, height: img.height };
+      let { width, height } = source;
 
       // Calculate new dimensions while maintaining aspect ratio
-      if (width > maxWidth || height > maxHeight) {
+      if (crop || width > maxWidth || height > maxHeight) {
         const ratio = Math.min(maxWidth / width, maxHeight / height);
         width = Math.floor(width * ratio);
         height = Math.floor(height * ratio);
@@ -58,7 +61,17 @@ export async function resizeImage(
         return;
       }
 
-      ctx.drawImage(img, 0, 0, width, height);
+      ctx.drawImage(
+        img,
+        source.x,
+        source.y,
+        source.width,
+        source.height,
+        0,
+        0,
+        width,
+        height
+      );
       resolve(canvas.toDataURL('image/png', 0.95));
     };
     img.onerror = () => reject(new Error('Failed to load image'));
@@ -66,6 +79,77 @@ export async function resizeImage(
   });
 }
 
+/**
+ * Draws one image over another inside a bordered box (picture-in-picture)
+ */
+export async function insetImage(
+  dataUrl: string,
+  insetDataUrl: string,
+  box: { x: number; y: number; width: number; height: number },
+  borderWidth: number = 4,
+  borderColor: string = '#ffffff'
+): Promise<string> {
+  const [base, inset] = await Promise.all([
+    loadImage(dataUrl),
+    loadImage(insetDataUrl),
+  ]);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = base.width;
+  canvas.height = base.height;
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Failed to get canvas context');
+  }
+
+  ctx.drawImage(base, 0, 0);
+  ctx.fillStyle = borderColor;
+  ctx.fillRect(
+    box.x - borderWidth,
+    box.y - borderWidth,
+    box.width + borderWidth * 2,
+    box.height + borderWidth * 2
+  );
+  ctx.drawImage(inset, box.x, box.y, box.width, box.height);
+  return canvas.toDataURL('image/png', 0.95);
+}
+
+/**
+ * Draws over a copy of an image and returns the result as a PNG data URL
+ */
+export async function drawOverImage(
+  dataUrl: string,
+  draw: (ctx: CanvasRenderingContext2D) => void
+): Promise<string> {
+  const base = await loadImage(dataUrl);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = base.width;
+  canvas.height = base.height;
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Failed to get canvas context');
+  }
+
+  ctx.drawImage(base, 0, 0);
+  draw(ctx);
+  return canvas.toDataURL('image/png', 0.95);
+}
+
+/**
+ * Loads a data URL into an image element
+ */
+function loadImage(dataUrl: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to load image'));
+    img.src = dataUrl;
+  });
+}
+
 /**
  * Extracts ImageData from a data URL
  */
@@ -0,0 +1,52 @@
+/**
+ * Console for Click Reel's own warnings and errors
+ * Messages go to the page's console as usual, marked so diagnostics
+ * collection can tell them apart from what the page itself logs
+ */
+
+/**
+ * Depth of library console calls in progress
+ */
+let depth = 0;
+
+/**
+ * Whether the console call in progress was made by Click Reel itself
+ */
+export function isLibraryLogging(): boolean {
+  return depth > 0;
+}
+
+/**
+ * Calls the console method as it currently is, so wrappers (diagnostics
+ * collection, test spies) still see the message
+ */
+function log(method: "warn" | "error", args: unknown[]): void {
+  depth++;
+  try {
+    console[method](...args);
+  } finally {
+    depth--;
+  }
+}
+
+/**
+ * Runs a task whose console output counts as Click Reel's own, for
+ * third-party code that logs directly (html-to-image reports resources it
+ * can't fetch or read). Anything logged before the task finishes is marked
+ */
+export async function runAsLibrary<T>(task: () => Promise<T>): Promise<T> {
+  depth++;
+  try {
+    return await task();
+  } finally {
+    depth--;
+  }
+}
+
+/**
+ * Drop-in for console.warn and console.error in library code
+ */
+export const libraryConsole = {
+  warn: (...args: unknown[]) => log("warn", args),
+  error: (...args: unknown[]) => log("error", args),
+};
@@ -0,0 +1,136 @@
+/**
+ * Canvas and video snapshotting for capture
+ * html-to-image can't reliably copy live pixels, so canvases and videos are
+ * temporarily swapped for static images of what they currently show
+ */
+
+import {
+  closestComposed,
+  querySelectorAllComposed,
+  restoreImageSwap,
+  swapForImage,
+  type ImageSwap,
+} from "./dom-utils";
+import { EXCLUDE_ATTRIBUTE } from "./constants";
+import { libraryConsole } from "./library-console";
+
+/**
+ * Store swapped elements for restoration
+ */
+export interface MediaSnapshotBackup {
+  timestamp: number; // For tracking backup instances in logs
+  swaps: ImageSwap[];
+  /** Elements whose pixels couldn't be read (tainted by cross-origin data) */
+  placeholders: number;
+}
+
+/**
+ * Read the current pixels of a canvas or video as a PNG data URL
+ * Returns null when there is nothing to draw yet; throws a SecurityError
+ * when the element is tainted by cross-origin data
+ */
+function readPixels(
+  element: HTMLCanvasElement | HTMLVideoElement
+): string | null {
+  // Tag checks rather than instanceof, so media inside iframes works too
+  if (element.tagName === "CANVAS") {
+    const canvas = element as HTMLCanvasElement;
+    if (canvas.width === 0 || canvas.height === 0) {
+      return null;
+    }
+    return canvas.toDataURL("image/png");
+  }
+
+  const video = element as HTMLVideoElement;
+  // HAVE_CURRENT_DATA - before that, html-to-image still renders the poster
+  if (video.readyState < 2 || video.videoWidth === 0) {
+    return null;
+  }
+
+  const canvas = document.createElement("canvas");
+  canvas.width = video.videoWidth;
+  canvas.height = video.videoHeight;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) {
+    return null;
+  }
+  ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL("image/png");
+}
+
+/**
+ * Build a labeled placeholder image for media whose pixels can't be read
+ */
+export function createMediaPlaceholder(
+  width: number,
+  height: number,
+  label: string
+): string {
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+  <rect width="100%" height="100%" fill="#e2e8f0" stroke="#94a3b8" stroke-width="2" stroke-dasharray="8 6"/>
+  <text x="50%" y="50%" fill="#475569" font-family="sans-serif" font-size="14" text-anchor="middle" dominant-baseline="middle">${label}</text>
+</svg>`;
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+}
+
+/**
+ * Non-destructive snapshotting - temporarily swaps canvases and videos for
+ * static images of their current pixels
+ * Returns backup data for restoration
+ */
+export function snapshotMediaInPlace(
+  element: HTMLElement
+): MediaSnapshotBackup {
+  const backup: MediaSnapshotBackup = {
+    timestamp: Date.now(),
+    swaps: [],
+    placeholders: 0,
+  };
+
+  const media = querySelectorAllComposed<HTMLCanvasElement | HTMLVideoElement>(
+    element,
+    "canvas, video"
+  );
+
+  media.forEach((el) => {
+    // Excluded media stays hidden rather than being swapped
+    if (closestComposed(el, `[${EXCLUDE_ATTRIBUTE}]`)) {
+      return;
+    }
+
+    let src: string | null;
+    try {
+      src = readPixels(el);
+    } catch (error) {
+      // Tainted by cross-origin data - show what is missing instead
+      const kind = el.tagName === "VIDEO" ? "video" : "canvas";
+      libraryConsole.warn(`📷 Cross-origin ${kind} can't be captured:`, error);
+      src = createMediaPlaceholder(
+        el.clientWidth || el.width || 300,
+        el.clientHeight || el.height || 150,
+        `Cross-origin ${kind} (not captured)`
+      );
+      backup.placeholders++;
+    }
+
+    if (src) {
+      backup.swaps.push(swapForImage(el, src));
+    }
+  });
+
+  console.log(
+    `📷 Snapshotted ${backup.swaps.length} canvas/video elements (${backup.placeholders} placeholders)`,
+    "Backup ID:",
+    backup.timestamp
+  );
+
+  return backup;
+}
+
+/**
+ * Restore the original canvases and videos from backup
+ */
+export function restoreMediaSnapshots(backup: MediaSnapshotBackup): void {
+  backup.swaps.forEach(restoreImageSwap);
+  backup.swaps = [];
+}
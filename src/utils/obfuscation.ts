@@ -4,6 +4,11 @@
  */
 
 import type { ObfuscationConfig } from "../types/config";
+import {
+  getComposedParent,
+  getOpenShadowRoots,
+  querySelectorAllComposed,
+} from "./dom-utils";
 
 export const DEFAULT_OBFUSCATION_CONFIG: ObfuscationConfig = {
   obfuscateText: true,
@@ -53,7 +58,7 @@ export interface ObfuscationBackup {
 }
 
 /**
- * Check PII status by walking up the DOM tree
+ * Check PII status by walking up the DOM tree (through shadow hosts)
  * Returns true if element should be obfuscated based on PII classes
  */
 function shouldObfuscateByPII(element: HTMLElement): boolean | null {
@@ -68,8 +73,8 @@ function shouldObfuscateByPII(element: HTMLElement): boolean | null {
       return false; // Don't obfuscate
     }
 
-    // Move up the tree
-    current = current.parentElement;
+    // Move up the tree, out of shadow roots into their hosts
+    current = getComposedParent(current) as HTMLElement | null;
   }
 
   return null; // No explicit PII marker found
@@ -131,6 +136,40 @@ export function shouldObfuscate(
   return true;
 }
 
+/**
+ * Check if typed input from an element must be masked in recorded metadata
+ * Password fields, and hidden fields (which often hold CSRF or session
+ * tokens), are always masked; other fields follow the obfuscation rules
+ */
+export function shouldMaskInput(
+  element: HTMLElement,
+  obfuscationEnabled: boolean,
+  config: ObfuscationConfig = DEFAULT_OBFUSCATION_CONFIG
+): boolean {
+  if (
+    element instanceof HTMLInputElement &&
+    (element.type === "password" || element.type === "hidden")
+  ) {
+    return true;
+  }
+
+  if (!obfuscationEnabled || !config.obfuscateInputs) {
+    return false;
+  }
+
+  return shouldObfuscate(element, config);
+}
+
+/**
+ * Mask a value the same way obfuscated form inputs are masked
+ */
+export function maskValue(
+  value: string,
+  config: ObfuscationConfig = DEFAULT_OBFUSCATION_CONFIG
+): string {
+  return config.replacementChar.repeat(value.length);
+}
+
 /**
  * Replace text with placeholder characters (preserving length and whitespace structure)
  */
@@ -180,8 +219,8 @@ function obfuscateTextWithCSS(
   if (!config.obfuscateText) return;
 
   // Find all leaf text elements (elements with text but no child elements with text)
-  // This is simpler and more effective than TreeWalker
-  const allElements = element.querySelectorAll("*");
+  // This is simpler and more effective than TreeWalker, and reaches into open shadow roots
+  const allElements = querySelectorAllComposed(element, "*");
 
   allElements.forEach((node) => {
     const el = node as HTMLElement;
@@ -251,9 +290,9 @@ function obfuscateInputsWithCSS(
 ): void {
   if (!config.obfuscateInputs) return;
 
-  const inputs = element.querySelectorAll("input, textarea") as NodeListOf<
+  const inputs = querySelectorAllComposed<
     HTMLInputElement | HTMLTextAreaElement
-  >;
+  >(element, "input, textarea");
 
   inputs.forEach((input) => {
     // Check if input should be preserved
@@ -507,8 +546,15 @@ export function obfuscateInPlaceLegacy(
   };
 
   // Obfuscate text nodes (legacy character replacement)
-  if (config.obfuscateText) {
-    const walker = document.createTreeWalker(element, NodeFilter.SHOW_TEXT, {
+  // Tree walkers stop at shadow roots, so walk each open one separately
+  const scopes: Array<HTMLElement | ShadowRoot> = [
+    element,
+    ...getOpenShadowRoots(element),
+  ];
+  scopes.forEach((scope) => {
+    if (!config.obfuscateText) return;
+
+    const walker = document.createTreeWalker(scope, NodeFilter.SHOW_TEXT, {
       acceptNode: (node) => {
         // Skip script, style, and empty text nodes
         const parent = node.parentElement;
@@ -541,13 +587,13 @@ export function obfuscateInPlaceLegacy(
         );
       }
     }
-  }
+  });
 
   // Obfuscate input values
   if (config.obfuscateInputs) {
-    const inputs = element.querySelectorAll("input, textarea") as NodeListOf<
+    const inputs = querySelectorAllComposed<
       HTMLInputElement | HTMLTextAreaElement
-    >;
+    >(element, "input, textarea");
     inputs.forEach((input) => {
       if (shouldPreserve(input, config)) return;
 